@@ -0,0 +1,43 @@
+import { ReactNode } from 'react';
+import { AngleDisplayMode } from '@/types/drawing';
+import { ANGLE_DISPLAY_MODES, ANGLE_DISPLAY_MODE_LABELS } from '@/lib/angleGeometry';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+
+interface AngleModeContextMenuProps {
+  mode: AngleDisplayMode;
+  onChange: (mode: AngleDisplayMode) => void;
+  children: ReactNode;
+  // 停用時不攔右鍵，瀏覽器顯示原本的選單
+  disabled?: boolean;
+}
+
+// 在角度上按右鍵切換顯示方式；表格列與畫布上的角度標籤共用
+export const AngleModeContextMenu = ({ mode, onChange, children, disabled }: AngleModeContextMenuProps) => {
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild disabled={disabled}>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-56">
+        <ContextMenuLabel>角度顯示方式</ContextMenuLabel>
+        <ContextMenuSeparator />
+        <ContextMenuRadioGroup
+          value={mode}
+          onValueChange={(value) => onChange(value as AngleDisplayMode)}
+        >
+          {ANGLE_DISPLAY_MODES.map(option => (
+            <ContextMenuRadioItem key={option} value={option}>
+              {ANGLE_DISPLAY_MODE_LABELS[option]}
+            </ContextMenuRadioItem>
+          ))}
+        </ContextMenuRadioGroup>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
@@ -0,0 +1,92 @@
+import { RefObject, memo, useEffect, useRef, useState } from 'react';
+import { DisplayShape, createCssColorResolver, drawDisplayList } from '@/lib/canvasRenderer';
+import { Bounds, containsBounds, getVisibleImageRegion, padRegion } from '@/lib/viewport';
+
+interface AnnotationCanvasLayerProps {
+  shapes: DisplayShape[];
+  nativeWidth: number;
+  nativeHeight: number;
+  scale: number;
+  // 可以捲動的畫布容器，用來算出目前看得到的範圍
+  viewportRef: RefObject<HTMLElement>;
+}
+
+// 瀏覽器對單一 canvas 的像素數有上限，超過時降低解析度，避免整塊畫不出來
+const MAX_CANVAS_PIXELS = 16_777_216;
+// 看得到的範圍四周各多畫這個比例，小幅捲動不用重畫
+const REGION_MARGIN = 0.25;
+
+// 以 <foreignObject> 嵌在 SVG 裡：疊放順序跟 SVG 元素一樣（在底圖之上、互動用的預覽之下）。
+// canvas 只涵蓋看得到的範圍，以螢幕解析度繪製，放大再多倍線條與文字也不會糊；捲出範圍時再重畫。
+// 用 memo 包起來，滑鼠移動造成的重新渲染不會重畫，只有標記、縮放或可視範圍改變時才重畫。
+export const AnnotationCanvasLayer = memo(({ shapes, nativeWidth, nativeHeight, scale, viewportRef }: AnnotationCanvasLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const foreignObjectRef = useRef<SVGForeignObjectElement>(null);
+  const [region, setRegion] = useState<Bounds | null>(null);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const svg = foreignObjectRef.current?.ownerSVGElement;
+    if (!viewport || !svg) return;
+    const imageSize = { width: nativeWidth, height: nativeHeight };
+
+    let frame = 0;
+    const measure = () => getVisibleImageRegion(svg.getBoundingClientRect(), viewport.getBoundingClientRect(), scale, imageSize);
+    const update = () => {
+      frame = 0;
+      const visible = measure();
+      if (!visible) return;
+      setRegion(prev => prev && containsBounds(prev, visible) ? prev : padRegion(visible, REGION_MARGIN, imageSize));
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    // 縮放改變時解析度也要跟著變，不能沿用舊的範圍
+    const visible = measure();
+    setRegion(visible ? padRegion(visible, REGION_MARGIN, imageSize) : null);
+
+    viewport.addEventListener('scroll', scheduleUpdate);
+    window.addEventListener('resize', scheduleUpdate);
+    return () => {
+      viewport.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [viewportRef, nativeWidth, nativeHeight, scale]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !region) return;
+    const width = region.maxX - region.minX;
+    const height = region.maxY - region.minY;
+    const resolution = Math.min(
+      scale * (window.devicePixelRatio || 1),
+      Math.sqrt(MAX_CANVAS_PIXELS / (width * height)),
+    );
+    canvas.width = Math.round(width * resolution);
+    canvas.height = Math.round(height * resolution);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // 之後的繪圖指令都用圖片座標，跟 SVG 的 viewBox 一致
+    ctx.setTransform(resolution, 0, 0, resolution, -region.minX * resolution, -region.minY * resolution);
+    ctx.clearRect(region.minX, region.minY, width, height);
+    drawDisplayList(ctx, shapes, createCssColorResolver(canvas), getComputedStyle(canvas).fontFamily);
+  }, [shapes, region, scale]);
+
+  return (
+    <foreignObject
+      ref={foreignObjectRef}
+      data-export-ignore="true"
+      x={region?.minX ?? 0}
+      y={region?.minY ?? 0}
+      width={region ? region.maxX - region.minX : 0}
+      height={region ? region.maxY - region.minY : 0}
+      style={{ pointerEvents: 'none' }}
+    >
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </foreignObject>
+  );
+});
+
+AnnotationCanvasLayer.displayName = 'AnnotationCanvasLayer';
@@ -0,0 +1,538 @@
+import { memo, useMemo } from 'react';
+import { Point, Line, Angle, AngleDisplayMode, AngleToolMode, Circle, Polygon, ToolType, Calibration, LensCorrection } from '@/types/drawing';
+import { Vec2, distance, polygonCentroid } from '@/lib/geometry';
+import { LINE_HIT_WIDTH, POINT_HIT_RADIUS, STROKE_HIT_WIDTH, toImageDistance } from '@/lib/viewport';
+import {
+  getAngleDisplay,
+  getCircleLabelText,
+  getLabelWidth,
+  getLineColor,
+  getLineLabelText,
+  getPolygonLabelText,
+} from '@/lib/annotationStyle';
+import { createMeasurePosition, undistortCircle } from '@/lib/lensDistortion';
+import { AngleModeContextMenu } from '@/components/drawing/AngleModeContextMenu';
+
+// 畫布把事件處理函式包成固定的參考傳進來，游標移動時這一層不用重新渲染
+export interface AnnotationSvgHandlers {
+  onPointMouseDown: (e: React.MouseEvent, point: Point) => void;
+  onPointClick: (pointId: string, ctrlKey: boolean) => void;
+  onLineClick: (lineId: string, ctrlKey: boolean) => void;
+  onAngleClick: (angleId: string, ctrlKey: boolean) => void;
+  onAngleDisplayModeChange: (angleId: string, mode: AngleDisplayMode) => void;
+  onCircleClick: (circleId: string, ctrlKey: boolean) => void;
+  onPolygonClick: (polygonId: string, ctrlKey: boolean) => void;
+  onAngleToolLineClick: (lineId: string) => void;
+}
+
+interface AnnotationSvgLayerProps {
+  points: Point[];
+  lines: Line[];
+  angles: Angle[];
+  circles: Circle[];
+  polygons: Polygon[];
+  selectedPointIds: Set<string>;
+  selectedLineIds: Set<string>;
+  selectedAngleIds: Set<string>;
+  selectedCircleIds: Set<string>;
+  selectedPolygonIds: Set<string>;
+  activePointId: string | null;
+  angleFirstLineId: string | null;
+  currentTool: ToolType;
+  angleToolMode: AngleToolMode;
+  showLengthLabels: boolean;
+  calibration: Calibration | null;
+  lensCorrection: LensCorrection | null;
+  // 拖曳中的點先用即時位置畫，父層的狀態晚一步才跟上
+  draggingPointId: string | null;
+  dragPosition: Vec2 | null;
+  scale: number;
+  handlers: AnnotationSvgHandlers;
+}
+
+// SVG 繪製方式（以及 canvas 繪製方式匯出的瞬間）的所有標記，每個標記連同自己的點擊熱區。
+// 用 memo 包起來：只有標記、選取、工具或縮放改變時才重新渲染，游標預覽放在另外的元件
+export const AnnotationSvgLayer = memo(({
+  points,
+  lines,
+  angles,
+  circles,
+  polygons,
+  selectedPointIds,
+  selectedLineIds,
+  selectedAngleIds,
+  selectedCircleIds,
+  selectedPolygonIds,
+  activePointId,
+  angleFirstLineId,
+  currentTool,
+  angleToolMode,
+  showLengthLabels,
+  calibration,
+  lensCorrection,
+  draggingPointId,
+  dragPosition,
+  scale,
+  handlers,
+}: AnnotationSvgLayerProps) => {
+  const pointById = useMemo(() => new Map(points.map(p => [p.id, p])), [points]);
+  const measurePosition = useMemo(() => createMeasurePosition(lensCorrection), [lensCorrection]);
+
+  const pointHitRadius = toImageDistance(POINT_HIT_RADIUS, scale);
+  const strokeHitWidth = toImageDistance(STROKE_HIT_WIDTH, scale);
+  const lineHitWidth = toImageDistance(LINE_HIT_WIDTH, scale);
+
+  // 點選線段建立角度只在「線段」模式；三點模式下點到線段要穿透到畫布本身
+  const isPickingAngleLines = currentTool === 'angle' && angleToolMode === 'lines';
+
+  // Get point position considering drag state
+  const getPointPosition = (point: Point): Vec2 => {
+    if (draggingPointId === point.id && dragPosition) {
+      return dragPosition;
+    }
+    return { x: point.x, y: point.y };
+  };
+
+  const getPositionById = (id: string) => {
+    const point = pointById.get(id);
+    return point ? getPointPosition(point) : undefined;
+  };
+
+  // 多邊形頂點位置（拖曳中的點使用即時位置）
+  const getPolygonPositions = (polygon: Polygon) => {
+    return polygon.pointIds
+      .map(getPositionById)
+      .filter((p): p is Vec2 => p !== undefined);
+  };
+
+  return (
+    <>
+      {/* --- 圓心參考線與十字準星 (最底層渲染) --- */}
+      {circles.map((circle) => {
+        const isSelected = selectedCircleIds.has(circle.id);
+        const circleLabel = getCircleLabelText(lensCorrection ? undistortCircle(lensCorrection, circle) : circle, showLengthLabels, calibration);
+        const circleStroke = isSelected ? '#3b82f6' : '#ef4444';
+
+        return (
+          <g key={circle.id}>
+            {/* 外觀層：虛線圓圈與十字準星 (不論什麼工具模式都顯示，但不可點擊) */}
+            <g style={{ pointerEvents: 'none' }}>
+              {/* 參考圓圈本體 */}
+              <circle
+                cx={circle.centerX}
+                cy={circle.centerY}
+                r={circle.radius}
+                fill="none"
+                stroke={circleStroke}
+                strokeWidth={isSelected ? 3 : 2}
+                strokeDasharray="4,2"
+                style={{ opacity: 0.8 }}
+              />
+
+              {/* 十字準星 - 水平線 */}
+              <line
+                x1={circle.centerX - 12} y1={circle.centerY}
+                x2={circle.centerX + 12} y2={circle.centerY}
+                stroke="#ef4444" strokeWidth={1.5}
+              />
+              {/* 十字準星 - 垂直線 */}
+              <line
+                x1={circle.centerX} y1={circle.centerY - 12}
+                x2={circle.centerX} y2={circle.centerY + 12}
+                stroke="#ef4444" strokeWidth={1.5}
+              />
+              {/* 中心避讓白點：讓十字中心在雜亂背景中依然清晰 */}
+              <circle
+                cx={circle.centerX} cy={circle.centerY} r={2}
+                fill="white" stroke="#ef4444" strokeWidth={1}
+              />
+              {/* 圓的名稱（或直徑）標在圓的正上方 */}
+              <g transform={`translate(${circle.centerX}, ${circle.centerY - circle.radius - 14})`}>
+                <rect
+                  x={-getLabelWidth(circleLabel) / 2}
+                  y="-10"
+                  width={getLabelWidth(circleLabel)}
+                  height="20"
+                  rx="4"
+                  fill={circleStroke}
+                />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-white text-xs font-bold select-none"
+                >
+                  {circleLabel}
+                </text>
+              </g>
+            </g>
+
+            {/* 選擇工具下可以點圓周或名稱來選取 */}
+            {currentTool === 'cursor' && (
+              <g
+                data-export-ignore="true"
+                style={{ cursor: 'pointer' }}
+                onClick={(e) => {
+                  if (draggingPointId) return;
+                  e.stopPropagation();
+                  handlers.onCircleClick(circle.id, e.ctrlKey || e.metaKey);
+                }}
+              >
+                <circle
+                  cx={circle.centerX}
+                  cy={circle.centerY}
+                  r={circle.radius}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={strokeHitWidth}
+                />
+                <rect
+                  x={circle.centerX - getLabelWidth(circleLabel) / 2}
+                  y={circle.centerY - circle.radius - 24}
+                  width={getLabelWidth(circleLabel)}
+                  height="20"
+                  fill="transparent"
+                />
+              </g>
+            )}
+          </g>
+        );
+      })}
+
+      {/* --- 多邊形面積區域（畫在線段下方） --- */}
+      {polygons.map(polygon => {
+        const positions = getPolygonPositions(polygon);
+        if (positions.length < 3) return null;
+
+        const isSelected = selectedPolygonIds.has(polygon.id);
+        const pointsAttr = positions.map(p => `${p.x},${p.y}`).join(' ');
+        const centroid = polygonCentroid(positions);
+        const displayLabel = getPolygonLabelText(polygon.label, positions.map(measurePosition), showLengthLabels, calibration);
+        const labelWidth = getLabelWidth(displayLabel);
+        const color = isSelected ? 'hsl(var(--primary))' : '#f59e0b';
+
+        return (
+          <g key={polygon.id}>
+            {/* 半透明填色，不攔截點擊，避免蓋住區域內的點與線 */}
+            <polygon
+              points={pointsAttr}
+              fill={color}
+              fillOpacity={isSelected ? 0.25 : 0.15}
+              stroke={color}
+              strokeWidth={isSelected ? 3 : 2}
+              strokeLinejoin="round"
+              style={{ pointerEvents: 'none' }}
+            />
+            {/* 只讓邊框可以點選 */}
+            <polygon
+              data-export-ignore="true"
+              points={pointsAttr}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={strokeHitWidth}
+              onClick={(e) => {
+                if (currentTool === 'cursor' && !draggingPointId) {
+                  e.stopPropagation();
+                  handlers.onPolygonClick(polygon.id, e.ctrlKey || e.metaKey);
+                }
+              }}
+              style={{ cursor: currentTool === 'cursor' ? 'pointer' : 'inherit' }}
+            />
+            <g
+              transform={`translate(${centroid.x}, ${centroid.y})`}
+              style={{ cursor: 'pointer' }}
+              onClick={(e) => {
+                if (currentTool === 'cursor' && !draggingPointId) {
+                  e.stopPropagation();
+                  handlers.onPolygonClick(polygon.id, e.ctrlKey || e.metaKey);
+                }
+              }}
+            >
+              <rect
+                x={-labelWidth / 2}
+                y="-10"
+                width={labelWidth}
+                height="20"
+                rx="4"
+                fill={color}
+                pointerEvents="all"
+              />
+              <text
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="fill-white text-xs font-bold select-none"
+                style={{ pointerEvents: 'none' }}
+              >
+                {displayLabel}
+              </text>
+            </g>
+          </g>
+        );
+      })}
+
+      {/* Completed lines */}
+      {lines.map(line => {
+        const startPos = getPositionById(line.startPointId);
+        const endPos = getPositionById(line.endPointId);
+        if (!startPos || !endPos) return null;
+
+        const isSelected = selectedLineIds.has(line.id);
+        const isAngleFirstLine = angleFirstLineId === line.id;
+        const center = { x: (startPos.x + endPos.x) / 2, y: (startPos.y + endPos.y) / 2 };
+        const displayLabel = getLineLabelText(line, distance(measurePosition(startPos), measurePosition(endPos)), showLengthLabels, calibration);
+        const labelWidth = getLabelWidth(displayLabel);
+        const strokeColor = getLineColor(line.id, selectedLineIds, angleFirstLineId); // 取得動態顏色
+
+        return (
+          <g key={line.id}>
+            {/* Invisible wider line for easier click detection */}
+            <line
+              data-export-ignore="true"
+              x1={startPos.x}
+              y1={startPos.y}
+              x2={endPos.x}
+              y2={endPos.y}
+              stroke="transparent"
+              strokeWidth={lineHitWidth}
+              onClick={(e) => {
+                if (isPickingAngleLines) {
+                  e.stopPropagation();
+                  handlers.onAngleToolLineClick(line.id);
+                } else if (currentTool === 'cursor' && !draggingPointId) {
+                  e.stopPropagation();
+                  handlers.onLineClick(line.id, e.ctrlKey || e.metaKey);
+                }
+              }}
+              style={{ cursor: currentTool === 'cursor' || isPickingAngleLines ? 'pointer' : 'inherit' }}
+            />
+            {/* Visible line */}
+            <line
+              x1={startPos.x}
+              y1={startPos.y}
+              x2={endPos.x}
+              y2={endPos.y}
+              // 關鍵：移除 className 中的 'stroke-primary'
+              className="measurement-line transition-all duration-200"
+              stroke={strokeColor} // 這裡會被 inline style 覆蓋
+              strokeWidth={isSelected || isAngleFirstLine ? 3 : 2}
+              style={{
+                pointerEvents: 'none',
+                stroke: strokeColor // 強制套用動態顏色
+              }}
+            />
+            {/* Line label */}
+            <g
+              transform={`translate(${center.x}, ${center.y})`}
+              style={{ cursor: 'pointer' }}
+              onClick={(e) => {
+                // 三點量角時讓點擊落到畫布上，當成點選位置
+                if (currentTool === 'angle' && !isPickingAngleLines) return;
+                e.stopPropagation(); // 阻止事件冒泡到畫布
+
+                // 關鍵修正：判斷目前的工具模式
+                if (currentTool === 'angle') {
+                  // 如果是角度工具，點擊標籤等於點擊該線段來建立角度
+                  handlers.onAngleToolLineClick(line.id);
+                } else if (currentTool === 'cursor' && !draggingPointId) {
+                  // 如果是選取工具，點擊標籤等於選取線段
+                  handlers.onLineClick(line.id, e.ctrlKey || e.metaKey);
+                }
+              }}
+            >
+              <rect
+                x={-labelWidth / 2}
+                y="-10"
+                width={labelWidth}
+                height="20"
+                rx="4"
+                fill={strokeColor}
+                style={{ transition: 'fill 0.2s' }}
+                pointerEvents="all" // 強制所有部分都可點擊
+              />
+              <text
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="fill-white text-xs font-bold select-none"
+                style={{ pointerEvents: 'none' }}
+              >
+                {displayLabel}
+              </text>
+            </g>
+          </g>
+        );
+      })}
+
+      {/* Angle arcs */}
+      {angles.map(angle => {
+        const arcData = getAngleDisplay(angle, getPositionById, lines, measurePosition);
+        if (!arcData) return null;
+
+        const isSelected = selectedAngleIds.has(angle.id);
+        const labelWidth = Math.max(50, getLabelWidth(arcData.labelText));
+
+        return (
+          <g key={angle.id}>
+            {/* 不共點線段：延伸到虛擬交點的輔助虛線 */}
+            {arcData.guides.map(([from, to], index) => (
+              <line
+                key={index}
+                x1={from.x}
+                y1={from.y}
+                x2={to.x}
+                y2={to.y}
+                stroke={isSelected ? 'hsl(var(--primary))' : 'hsl(var(--accent))'}
+                strokeWidth={1.5}
+                strokeDasharray="6,4"
+                strokeOpacity={0.8}
+                style={{ pointerEvents: 'none' }}
+              />
+            ))}
+
+            {arcData.path && (
+              <>
+                {/* 新增：半透明扇形填充層 */}
+                <path
+                  d={arcData.fillPath}
+                  fill="#2dd4bf" // 直接先用 Teal 色碼測試 (Tailwind teal-400)
+                  fillOpacity={0.3} // 提高一點透明度到 30% 看看
+                  style={{
+                    pointerEvents: 'none',
+                    display: 'block' // 確保沒有被 CSS 隱藏
+                  }}
+                />
+
+                {/* Invisible wider arc for click detection */}
+                <path
+                  data-export-ignore="true"
+                  d={arcData.path}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={strokeHitWidth}
+                  onClick={(e) => {
+                    if (currentTool === 'cursor' && !draggingPointId) {
+                      e.stopPropagation();
+                      handlers.onAngleClick(angle.id, e.ctrlKey || e.metaKey);
+                    }
+                  }}
+                  style={{ cursor: currentTool === 'cursor' ? 'pointer' : 'inherit' }}
+                />
+                {/* Visible arc */}
+                <path
+                  d={arcData.path}
+                  fill="none"
+                  stroke={isSelected ? 'hsl(var(--primary))' : 'hsl(var(--accent))'}
+                  strokeWidth={isSelected ? 3 : 2}
+                  style={{ pointerEvents: 'none' }}
+                />
+              </>
+            )}
+            {/* Angle label */}
+            <AngleModeContextMenu
+              mode={angle.displayMode ?? 'interior'}
+              onChange={(mode) => handlers.onAngleDisplayModeChange(angle.id, mode)}
+            >
+              <g
+                transform={`translate(${arcData.labelX}, ${arcData.labelY})`}
+                style={{ cursor: 'pointer' }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (currentTool === 'cursor' && !draggingPointId) {
+                    handlers.onAngleClick(angle.id, e.ctrlKey || e.metaKey);
+                  }
+                }}
+              >
+                <rect
+                  x={-labelWidth / 2} // 稍微加寬感應區
+                  y="-12" // 稍微加高感應區
+                  width={labelWidth}
+                  height="24"
+                  rx="4"
+                  fill={isSelected ? 'hsl(var(--primary))' : 'hsl(var(--accent))'}
+                  pointerEvents="all"
+                />
+                <text
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-white text-xs font-bold select-none"
+                  style={{ pointerEvents: 'none' }}
+                >
+                  {arcData.labelText}
+                </text>
+              </g>
+            </AngleModeContextMenu>
+          </g>
+        );
+      })}
+
+      {/* Points */}
+      {points.map(point => {
+        const isActive = activePointId === point.id;
+        const isSelected = selectedPointIds.has(point.id);
+        const isDragging = draggingPointId === point.id;
+        const pos = getPointPosition(point);
+
+        return (
+          <g
+            key={point.id}
+            // 關鍵修改：將座標套用在 group 的 style 上，並使用 transform
+            // 這樣可以強迫 GPU 處理位移，不經過 React 的屬性計算
+            style={{
+              transform: `translate(${pos.x}px, ${pos.y}px)`,
+              transition: isDragging ? 'none' : 'transform 0.1s ease-out', // 拖曳時關閉延遲
+              willChange: 'transform'
+            }}
+          >
+            {/* 這裡的 cx, cy 全部改為 0，因為位置由上面的 translate 控制 */}
+            <circle
+              data-export-ignore="true"
+              cx={0}
+              cy={0}
+              r={pointHitRadius}
+              fill="transparent"
+              style={{ cursor: currentTool === 'cursor' ? (isDragging ? 'grabbing' : 'grab') : 'inherit' }}
+              onMouseDown={(e) => handlers.onPointMouseDown(e, point)}
+              onClick={(e) => {
+                if (currentTool === 'cursor' && !draggingPointId) {
+                  e.stopPropagation();
+                  handlers.onPointClick(point.id, e.ctrlKey || e.metaKey);
+                }
+              }}
+            />
+            <circle
+              cx={0}
+              cy={0}
+              r={isActive || isSelected ? 8 : 6}
+              className={`marker-point ${isSelected ? 'selected' : ''}`}
+              fill={isActive ? 'hsl(var(--accent))' : 'hsl(var(--marker-color))'}
+              // 標記點用橘色區分；.marker-point 的 CSS fill 會蓋過屬性，所以要寫在 style
+              style={{ pointerEvents: 'none', ...(point.isLandmark ? { fill: '#f97316' } : {}) }}
+            />
+            {/* 標記點名稱：放在點的右上方 */}
+            {point.isLandmark && point.label && (
+              <g transform="translate(10, -22)" style={{ pointerEvents: 'none' }}>
+                <rect
+                  x={0}
+                  y={0}
+                  width={getLabelWidth(point.label)}
+                  height={18}
+                  rx={4}
+                  fill="#f97316"
+                />
+                <text
+                  x={getLabelWidth(point.label) / 2}
+                  y={9}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-white text-xs font-bold select-none"
+                >
+                  {point.label}
+                </text>
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </>
+  );
+});
+
+AnnotationSvgLayer.displayName = 'AnnotationSvgLayer';
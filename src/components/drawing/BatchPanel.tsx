@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { MeasurementTemplate } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+
+// 切到還沒有任何標記的圖片時，要用什麼當起點
+export type BatchSeed = { kind: 'template'; template: MeasurementTemplate } | { kind: 'copy' } | null;
+
+type BatchSeedMode = 'none' | 'copy' | 'template';
+
+interface BatchPanelProps {
+  imageCount: number;
+  activeIndex: number;
+  activeName: string;
+  templates: MeasurementTemplate[];
+  onStep: (offset: number, seed: BatchSeed) => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const selectClassName = 'w-full h-8 rounded-md bg-white/5 border border-white/20 px-1 text-sm text-toolbar-foreground';
+
+export const BatchPanel = ({
+  imageCount,
+  activeIndex,
+  activeName,
+  templates,
+  onStep,
+  onExport,
+}: BatchPanelProps) => {
+  const [seedMode, setSeedMode] = useState<BatchSeedMode>('copy');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) ?? templates[0];
+
+  const getSeed = (): BatchSeed => {
+    if (seedMode === 'copy') return { kind: 'copy' };
+    if (seedMode === 'template' && selectedTemplate) return { kind: 'template', template: selectedTemplate };
+    return null;
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        批次量測
+      </h3>
+
+      <p className="text-xs text-toolbar-foreground/70 pl-2 truncate" title={activeName}>
+        第 {activeIndex + 1} / {imageCount} 張：{activeName}
+      </p>
+
+      <select
+        value={seedMode}
+        onChange={(e) => setSeedMode(e.target.value as BatchSeedMode)}
+        className={selectClassName}
+        title="切到還沒有標記的圖片時，用這個方式開始"
+      >
+        <option value="copy" className="text-slate-900">沿用上一張的標記</option>
+        <option value="template" className="text-slate-900" disabled={templates.length === 0}>套用量測範本</option>
+        <option value="none" className="text-slate-900">從空白開始</option>
+      </select>
+      {seedMode === 'template' && templates.length > 0 && (
+        <select
+          value={selectedTemplate?.id ?? ''}
+          onChange={(e) => setSelectedTemplateId(e.target.value)}
+          className={selectClassName}
+        >
+          {templates.map(template => (
+            <option key={template.id} value={template.id} className="text-slate-900">{template.name}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex-1"
+          disabled={activeIndex <= 0}
+          onClick={() => onStep(-1, getSeed())}
+        >
+          <ChevronLeft size={16} className="mr-1" />
+          上一張
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex-1"
+          disabled={activeIndex >= imageCount - 1}
+          onClick={() => onStep(1, getSeed())}
+        >
+          下一張
+          <ChevronRight size={16} className="ml-1" />
+        </Button>
+      </div>
+      <p className="text-[11px] text-toolbar-foreground/50">
+        已經有標記的圖片不會被覆蓋
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onExport('csv')}
+          className="flex-1 flex items-center justify-center gap-1.5 p-2 bg-white/5 hover:bg-white/10 border border-white/20 transition-all rounded-md text-xs font-bold text-toolbar-foreground"
+          title="所有圖片的測量數據彙整成一張表（一張圖片一列）"
+        >
+          <span>📊 彙整 CSV</span>
+        </button>
+        <button
+          onClick={() => onExport('json')}
+          className="flex-1 flex items-center justify-center gap-1.5 p-2 bg-white/5 hover:bg-white/10 border border-white/20 transition-all rounded-md text-xs font-bold text-toolbar-foreground"
+          title="所有圖片的測量數據彙整成一份 JSON"
+        >
+          <span>🧾 彙整 JSON</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Scaling, X } from 'lucide-react';
+import { Calibration, Line, LengthUnit } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+import { LENGTH_UNITS, getUnitsPerPixel } from '@/lib/calibration';
+
+interface CalibrationPanelProps {
+  lines: Line[];
+  selectedLineIds: Set<string>;
+  calibration: Calibration | null;
+  calculateLength: (line: Line) => number;
+  onCalibrate: (lineId: string, realLength: number, unit: LengthUnit) => void;
+  onClear: () => void;
+}
+
+export const CalibrationPanel = ({
+  lines,
+  selectedLineIds,
+  calibration,
+  calculateLength,
+  onCalibrate,
+  onClear,
+}: CalibrationPanelProps) => {
+  const [lineId, setLineId] = useState<string>('');
+  const [realLength, setRealLength] = useState('');
+  const [unit, setUnit] = useState<LengthUnit>(calibration?.unit ?? 'mm');
+  const [error, setError] = useState<string | null>(null);
+
+  // 在畫布上選取單一線段時，自動帶入成參考線段
+  useEffect(() => {
+    if (selectedLineIds.size === 1) {
+      setLineId(Array.from(selectedLineIds)[0]);
+    }
+  }, [selectedLineIds]);
+
+  // 參考線段被刪除時清掉下拉選單的值
+  useEffect(() => {
+    if (lineId && !lines.some(l => l.id === lineId)) {
+      setLineId('');
+    }
+  }, [lines, lineId]);
+
+  const referenceLine = lines.find(l => l.id === lineId);
+  const calibratedLine = calibration ? lines.find(l => l.id === calibration.referenceLineId) : undefined;
+
+  const handleApply = () => {
+    if (!lineId) return;
+    try {
+      onCalibrate(lineId, parseFloat(realLength), unit);
+      setError(null);
+      setRealLength('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        單位校正
+      </h3>
+
+      {calibration && (
+        <div className="flex items-start justify-between gap-2 px-3 py-2 rounded-lg border border-emerald-500/30 bg-emerald-500/10">
+          <div className="text-xs leading-relaxed">
+            <p className="font-bold text-emerald-300">
+              {calibratedLine ? `依 ${calibratedLine.label} 線段校正` : '已校正'}
+            </p>
+            <p className="font-mono text-slate-300">
+              1 px = {getUnitsPerPixel(calibration).toPrecision(4)} {calibration.unit}
+            </p>
+          </div>
+          <button
+            onClick={onClear}
+            className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            title="取消校正"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {lines.length === 0 ? (
+        <p className="text-xs text-toolbar-foreground/50 italic">
+          先畫一條已知長度的線段再進行校正
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={lineId}
+              onChange={(e) => setLineId(e.target.value)}
+              className="flex-1 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm text-toolbar-foreground"
+            >
+              <option value="" className="text-slate-900">選擇線段</option>
+              {lines.map(line => (
+                <option key={line.id} value={line.id} className="text-slate-900">
+                  {line.label}（{calculateLength(line).toFixed(1)} px）
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={realLength}
+              onChange={(e) => setRealLength(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleApply();
+              }}
+              placeholder="實際長度"
+              className="flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm font-mono text-toolbar-foreground placeholder:text-slate-500"
+            />
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as LengthUnit)}
+              className="w-16 h-8 rounded-md bg-white/5 border border-white/20 px-1 text-sm text-toolbar-foreground"
+            >
+              {LENGTH_UNITS.map(u => (
+                <option key={u} value={u} className="text-slate-900">{u}</option>
+              ))}
+            </select>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="w-full"
+            disabled={!referenceLine || !realLength}
+            onClick={handleApply}
+          >
+            <Scaling size={16} className="mr-2" />
+            {calibration ? '重新校正' : '套用校正'}
+          </Button>
+          {error && (
+            <p className="text-xs text-red-400">{error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { Settings } from 'lucide-react';
+import { AngleSnapIncrement, CanvasRenderer, CanvasSettings } from '@/types/drawing';
+import { SNAP_TARGET_KINDS, SNAP_TARGET_LABELS } from '@/lib/snapping';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+
+const LOUPE_MAGNIFICATIONS = [2, 4, 8];
+const ANGLE_SNAP_INCREMENTS: AngleSnapIncrement[] = [15, 45, 90];
+const RENDERERS: { value: CanvasRenderer; label: string }[] = [
+  { value: 'svg', label: 'SVG' },
+  { value: 'canvas', label: 'Canvas' },
+];
+
+interface CanvasSettingsPopoverProps {
+  settings: CanvasSettings;
+  onChange: (updates: Partial<CanvasSettings>) => void;
+}
+
+export const CanvasSettingsPopover = ({ settings, onChange }: CanvasSettingsPopoverProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="畫布設定">
+          <Settings size={16} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" align="end" className="w-64 space-y-3 max-h-[80vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="canvas-settings-loupe">放大鏡</Label>
+          <Switch
+            id="canvas-settings-loupe"
+            checked={settings.loupeEnabled}
+            onCheckedChange={(checked) => onChange({ loupeEnabled: checked })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">放點或拖曳點時，在游標旁顯示放大的畫面</p>
+        <div className="flex items-center justify-between">
+          <span className="text-sm">倍率</span>
+          <div className="flex gap-1">
+            {LOUPE_MAGNIFICATIONS.map(magnification => (
+              <Button
+                key={magnification}
+                variant={settings.loupeMagnification === magnification ? 'default' : 'secondary'}
+                size="sm"
+                className="h-7 px-2 font-mono text-xs"
+                disabled={!settings.loupeEnabled}
+                onClick={() => onChange({ loupeMagnification: magnification })}
+              >
+                {magnification}×
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-border pt-3 space-y-2">
+          <p className="text-sm font-medium">吸附</p>
+          {SNAP_TARGET_KINDS.map(kind => (
+            <div key={kind} className="flex items-center justify-between">
+              <Label htmlFor={`canvas-settings-snap-${kind}`} className="font-normal">
+                {SNAP_TARGET_LABELS[kind]}
+              </Label>
+              <Switch
+                id={`canvas-settings-snap-${kind}`}
+                checked={settings.snapTargets[kind]}
+                onCheckedChange={(checked) => onChange({ snapTargets: { ...settings.snapTargets, [kind]: checked } })}
+              />
+            </div>
+          ))}
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-sm" title="畫線時按住 Shift，方向鎖定為這個角度的倍數">Shift 鎖定角度</span>
+            <div className="flex gap-1">
+              {ANGLE_SNAP_INCREMENTS.map(increment => (
+                <Button
+                  key={increment}
+                  variant={settings.angleSnapIncrement === increment ? 'default' : 'secondary'}
+                  size="sm"
+                  className="h-7 px-2 font-mono text-xs"
+                  onClick={() => onChange({ angleSnapIncrement: increment })}
+                >
+                  {increment}°
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="border-t border-border pt-3 space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">繪製方式</span>
+            <div className="flex gap-1">
+              {RENDERERS.map(renderer => (
+                <Button
+                  key={renderer.value}
+                  variant={settings.renderer === renderer.value ? 'default' : 'secondary'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => onChange({ renderer: renderer.value })}
+                >
+                  {renderer.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">標記數量很多、操作變慢時改用 Canvas</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,49 @@
+import { Bounds } from '@/lib/viewport';
+
+interface CropOverlayProps {
+  region: Bounds;
+  imageWidth: number;
+  imageHeight: number;
+  scale: number;
+}
+
+// 裁切工具的框選範圍：範圍外蓋一層半透明黑色，框線與尺寸標示不受縮放影響
+export const CropOverlay = ({ region, imageWidth, imageHeight, scale }: CropOverlayProps) => {
+  const width = region.maxX - region.minX;
+  const height = region.maxY - region.minY;
+  const fontSize = 12 / scale;
+  // 範圍貼齊圖片上緣時，尺寸標示改放在框內
+  const labelY = region.minY > fontSize * 2 ? region.minY - 6 / scale : region.minY + fontSize + 4 / scale;
+
+  return (
+    <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+      {/* 外框減掉裁切範圍（evenodd），只有範圍外變暗 */}
+      <path
+        d={`M 0 0 H ${imageWidth} V ${imageHeight} H 0 Z M ${region.minX} ${region.minY} v ${height} h ${width} v ${-height} Z`}
+        fill="black"
+        fillOpacity={0.5}
+        fillRule="evenodd"
+      />
+      <rect
+        x={region.minX}
+        y={region.minY}
+        width={width}
+        height={height}
+        fill="none"
+        stroke="white"
+        strokeWidth={1.5 / scale}
+        strokeDasharray={`${6 / scale},${4 / scale}`}
+      />
+      <text
+        x={region.minX + 4 / scale}
+        y={labelY}
+        fill="white"
+        fontSize={fontSize}
+        fontWeight="bold"
+        style={{ paintOrder: 'stroke', stroke: 'black', strokeWidth: 3 / scale }}
+      >
+        {Math.round(width)} × {Math.round(height)} px
+      </text>
+    </g>
+  );
+};
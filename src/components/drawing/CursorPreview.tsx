@@ -0,0 +1,196 @@
+import { CircleToolMode, ToolType } from '@/types/drawing';
+import { Vec2 } from '@/lib/geometry';
+import { FittedCircle, circleFromDiameter, circleFromThreePoints, fitCircleLeastSquares } from '@/lib/circleFit';
+import { getAngleArc } from '@/lib/angleGeometry';
+
+interface CursorPreviewProps {
+  // 游標位置（已套用吸附與角度鎖定）；滑鼠不在畫布上時為 null
+  cursor: Vec2 | null;
+  activePoint: Vec2 | null;
+  currentTool: ToolType;
+  circleToolMode: CircleToolMode;
+  circleDraftPoints: Vec2[];
+  angleDraftPositions: Vec2[];
+  polygonDraftPositions: Vec2[];
+}
+
+// 跟著游標變動的繪製預覽。只有這個元件拿到游標位置，滑鼠移動時標記圖層不用跟著重新渲染
+export const CursorPreview = ({
+  cursor,
+  activePoint,
+  currentTool,
+  circleToolMode,
+  circleDraftPoints,
+  angleDraftPositions,
+  polygonDraftPositions,
+}: CursorPreviewProps) => {
+  // 點選定圓的即時預覽：把滑鼠位置當成下一個點
+  const getCircleDraftPreview = (): FittedCircle | null => {
+    if (currentTool !== 'circle' || circleDraftPoints.length === 0 || !cursor) return null;
+    const candidate = [...circleDraftPoints, cursor];
+    if (circleToolMode === 'diameter') return circleFromDiameter(candidate[0], candidate[1]);
+    if (circleToolMode === 'threePoint') {
+      return candidate.length === 3 ? circleFromThreePoints(candidate[0], candidate[1], candidate[2]) : null;
+    }
+    return fitCircleLeastSquares(candidate);
+  };
+
+  return (
+    <>
+      {/* Active line (being drawn) */}
+      {activePoint && cursor && (
+        <line
+          data-export-ignore="true"
+          x1={activePoint.x}
+          y1={activePoint.y}
+          x2={cursor.x}
+          y2={cursor.y}
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          strokeDasharray="5,5"
+          className="animate-pulse-glow"
+        />
+      )}
+
+      {/* 點選定圓預覽：已點的位置用小十字標示，滿足條件時畫出預覽圓 */}
+      {currentTool === 'circle' && circleDraftPoints.length > 0 && (() => {
+        const preview = getCircleDraftPreview();
+        return (
+          <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+            {circleToolMode === 'diameter' && cursor && (
+              <line
+                x1={circleDraftPoints[0].x}
+                y1={circleDraftPoints[0].y}
+                x2={cursor.x}
+                y2={cursor.y}
+                stroke="#ef4444"
+                strokeWidth={1.5}
+                strokeDasharray="5,5"
+              />
+            )}
+            {preview && (
+              <>
+                <circle
+                  cx={preview.centerX}
+                  cy={preview.centerY}
+                  r={preview.radius}
+                  fill="none"
+                  stroke="#ef4444"
+                  strokeWidth={2}
+                  strokeDasharray="5,5"
+                  className="animate-pulse-glow"
+                />
+                <circle cx={preview.centerX} cy={preview.centerY} r={2} fill="#ef4444" />
+              </>
+            )}
+            {circleDraftPoints.map((p, index) => (
+              <g key={index} stroke="#ef4444" strokeWidth={2}>
+                <line x1={p.x - 6} y1={p.y - 6} x2={p.x + 6} y2={p.y + 6} />
+                <line x1={p.x - 6} y1={p.y + 6} x2={p.x + 6} y2={p.y - 6} />
+              </g>
+            ))}
+          </g>
+        );
+      })()}
+
+      {/* 三點量角預覽：第一點→頂點，頂點→滑鼠；選好頂點後同時預覽圓弧 */}
+      {angleDraftPositions.length > 0 && (() => {
+        const [first, vertex] = angleDraftPositions;
+        const previewArc = vertex && cursor
+          ? getAngleArc({ vertex, arm1: first, arm2: cursor })
+          : null;
+
+        return (
+          <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+            {vertex ? (
+              <line
+                x1={first.x}
+                y1={first.y}
+                x2={vertex.x}
+                y2={vertex.y}
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+              />
+            ) : cursor && (
+              <line
+                x1={first.x}
+                y1={first.y}
+                x2={cursor.x}
+                y2={cursor.y}
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                strokeDasharray="5,5"
+              />
+            )}
+            {vertex && cursor && (
+              <line
+                x1={vertex.x}
+                y1={vertex.y}
+                x2={cursor.x}
+                y2={cursor.y}
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                strokeDasharray="5,5"
+              />
+            )}
+            {previewArc && (
+              <>
+                <path d={previewArc.fillPath} fill="#2dd4bf" fillOpacity={0.2} />
+                <path d={previewArc.path} fill="none" stroke="hsl(var(--primary))" strokeWidth={2} />
+                <text
+                  x={previewArc.labelX}
+                  y={previewArc.labelY}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-primary text-xs font-bold select-none"
+                >
+                  {previewArc.degrees.toFixed(1)}°
+                </text>
+              </>
+            )}
+          </g>
+        );
+      })()}
+
+      {/* 正在繪製的多邊形：已點的頂點連線 + 到滑鼠位置的預覽虛線 */}
+      {polygonDraftPositions.length > 0 && (() => {
+        const last = polygonDraftPositions[polygonDraftPositions.length - 1];
+        const first = polygonDraftPositions[0];
+
+        return (
+          <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+            <polyline
+              points={polygonDraftPositions.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke="#f59e0b"
+              strokeWidth={2}
+            />
+            {cursor && (
+              <line
+                x1={last.x}
+                y1={last.y}
+                x2={cursor.x}
+                y2={cursor.y}
+                stroke="#f59e0b"
+                strokeWidth={2}
+                strokeDasharray="5,5"
+              />
+            )}
+            {/* 滿三個頂點後，標示起點提示可以點它封閉區域 */}
+            {polygonDraftPositions.length >= 3 && (
+              <circle
+                cx={first.x}
+                cy={first.y}
+                r={12}
+                fill="none"
+                stroke="#f59e0b"
+                strokeWidth={2}
+                strokeDasharray="3,3"
+              />
+            )}
+          </g>
+        );
+      })()}
+    </>
+  );
+};
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Pencil, Trash2, X } from 'lucide-react';
+import { DerivedMeasurement } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+import { DerivedMeasurementResult } from '@/lib/measurementExport';
+import { evaluateFormula } from '@/lib/formula';
+
+interface DerivedMeasurementPanelProps {
+  derivedMeasurements: DerivedMeasurement[];
+  results: DerivedMeasurementResult[]; // 與 derivedMeasurements 同順序
+  variables: Map<string, number>;     // 線段、角度等測量值，不含衍生測量
+  onAdd: (label: string, formula: string) => void;
+  onUpdate: (id: string, label: string, formula: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const inputClassName = 'w-full min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm text-toolbar-foreground placeholder:text-slate-500';
+
+const formatValue = (value: number) => value.toFixed(3);
+
+export const DerivedMeasurementPanel = ({
+  derivedMeasurements,
+  results,
+  variables,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: DerivedMeasurementPanelProps) => {
+  const [label, setLabel] = useState('');
+  const [formula, setFormula] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 公式只能引用排在前面的衍生測量：編輯中的那一項看得到它之前的，新增的排在最後，看得到全部
+  const editingIndex = editingId ? derivedMeasurements.findIndex(d => d.id === editingId) : -1;
+  const visibleResults = editingIndex === -1 ? results : results.slice(0, editingIndex);
+  const previewVariables = new Map(variables);
+  visibleResults.forEach(result => {
+    if (result.value !== null) previewVariables.set(result.label, result.value);
+  });
+
+  // 輸入時即時試算；名稱還不存在的公式也可以先存，之後畫好對應的標記就會有數值
+  const preview = (() => {
+    if (!formula.trim()) return null;
+    try {
+      return { value: evaluateFormula(formula, previewVariables), error: null };
+    } catch (err) {
+      return { value: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  })();
+
+  const resetForm = () => {
+    setLabel('');
+    setFormula('');
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    try {
+      if (editingId) {
+        onUpdate(editingId, label, formula);
+      } else {
+        onAdd(label, formula);
+      }
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const startEditing = (measurement: DerivedMeasurement) => {
+    setEditingId(measurement.id);
+    setLabel(measurement.label);
+    setFormula(measurement.formula);
+    setError(null);
+  };
+
+  const insertVariable = (name: string) => {
+    setFormula(prev => prev + name);
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        衍生測量
+      </h3>
+
+      {derivedMeasurements.map((measurement, index) => {
+        const result = results[index];
+        return (
+          <div
+            key={measurement.id}
+            className={`group flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-slate-300 ${
+              measurement.id === editingId ? 'border border-orange-500/40 bg-orange-500/10' : 'border border-white/5'
+            }`}
+          >
+            <div className="min-w-0 text-xs">
+              <span className="font-mono font-bold mr-1.5">{measurement.label}</span>
+              <span className="font-mono opacity-60 truncate">= {measurement.formula}</span>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              {result?.value !== null && result?.value !== undefined ? (
+                <span className="text-xs font-mono font-bold">{formatValue(result.value)}</span>
+              ) : (
+                <span className="text-xs text-red-400" title={result?.error ?? ''}>錯誤</span>
+              )}
+              <button
+                onClick={() => startEditing(measurement)}
+                className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+                title="編輯公式"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={() => {
+                  if (measurement.id === editingId) resetForm();
+                  onDelete(measurement.id);
+                }}
+                className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-red-400 transition-colors"
+                title="刪除衍生測量"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="名稱"
+          className={`${inputClassName} !w-20 shrink-0`}
+        />
+        <input
+          type="text"
+          value={formula}
+          onChange={(e) => setFormula(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+          }}
+          placeholder="公式，例如 (A+B)/C*100"
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+
+      {preview && (
+        preview.error
+          ? <p className="text-xs text-red-400 pl-2">{preview.error}</p>
+          : <p className="text-xs font-mono text-emerald-400 pl-2">= {formatValue(preview.value)}</p>
+      )}
+
+      {previewVariables.size > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {Array.from(previewVariables.keys()).map(name => (
+            <button
+              key={name}
+              onClick={() => insertVariable(name)}
+              className="px-1.5 py-0.5 rounded bg-white/5 hover:bg-white/10 border border-white/10 text-[11px] font-mono text-toolbar-foreground/80"
+              title={`${name} = ${formatValue(previewVariables.get(name))}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="flex-1"
+          disabled={!label.trim() || !formula.trim()}
+          onClick={handleSubmit}
+        >
+          {editingId ? '更新' : '新增衍生測量'}
+        </Button>
+        {editingId && (
+          <button
+            onClick={resetForm}
+            className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            title="取消編輯"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      <p className="text-[11px] text-toolbar-foreground/50">
+        可用 + - * / ^、括號與 sin、cos、tan、asin、acos、atan、sqrt、abs、min、max、pow，角度以度為單位
+      </p>
+
+      {error && (
+        <p className="text-xs text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
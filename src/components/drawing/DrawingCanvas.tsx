@@ -1,6 +1,39 @@
-import { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { Point, Line, Angle, Circle, ToolType } from '@/types/drawing';
+import { useRef, useEffect, useLayoutEffect, useMemo, useState, useImperativeHandle, forwardRef } from 'react';
+import { Point, Line, Angle, AngleDisplayMode, AngleToolMode, Circle, CircleToolMode, Polygon, ToolType, Calibration, CanvasSettings, ImageExportOptions, LensCorrection, Rectification } from '@/types/drawing';
+import { flushSync } from 'react-dom';
 import { X } from 'lucide-react';
+import { Vec2 } from '@/lib/geometry';
+import {
+  Bounds,
+  HIT_TOLERANCE,
+  LINE_HIT_WIDTH,
+  POINT_HIT_RADIUS,
+  STROKE_HIT_WIDTH,
+  ZOOM_STEP,
+  clampScale,
+  expandBounds,
+  getBounds,
+  getScaleToFit,
+  toImageDistance,
+} from '@/lib/viewport';
+import { SpatialIndex, createSpatialIndex, getPointBounds } from '@/lib/spatialIndex';
+import { getAngleDisplay } from '@/lib/annotationStyle';
+import { AngleModeContextMenu } from '@/components/drawing/AngleModeContextMenu';
+import { AnnotationSvgHandlers, AnnotationSvgLayer } from '@/components/drawing/AnnotationSvgLayer';
+import { CursorPreview } from '@/components/drawing/CursorPreview';
+import { MagnifierLoupe } from '@/components/drawing/MagnifierLoupe';
+import { SnapIndicator } from '@/components/drawing/SnapIndicator';
+import { AnnotationCanvasLayer } from '@/components/drawing/AnnotationCanvasLayer';
+import { CropOverlay } from '@/components/drawing/CropOverlay';
+import { RectificationOverlay } from '@/components/drawing/RectificationOverlay';
+import { LensGridOverlay } from '@/components/drawing/LensGridOverlay';
+import { DisplayShape, buildDisplayList } from '@/lib/canvasRenderer';
+import { AnnotationHit, HitTestScene, createHitIndexes, findAnnotationAt, findCircleBoxAt } from '@/lib/hitTesting';
+import { SnapResult, SnapSegment, constrainToAngle, findSnapTarget, getSnapSegments } from '@/lib/snapping';
+import { clampCropRegion, getAnnotationBounds } from '@/lib/imageTransform';
+
+// 底圖與所有標記所在的群組，放大鏡用 <use> 引用它
+const CONTENT_GROUP_ID = 'drawing-canvas-content';
 
 interface DrawingCanvasProps {
   image: string | null;
@@ -8,39 +41,119 @@ interface DrawingCanvasProps {
   lines: Line[];
   angles: Angle[];
   circles: Circle[];
+  polygons: Polygon[];
   selectedCircleIds: Set<string>;
+  circleToolMode: CircleToolMode;
+  circleDraftPoints: Vec2[];
+  selectedPolygonIds: Set<string>;
+  polygonDraftPointIds: string[];
   activePointId: string | null;
   angleFirstLineId: string | null;
+  angleToolMode: AngleToolMode;
+  angleDraftPointIds: string[];
   selectedPointIds: Set<string>;
   selectedLineIds: Set<string>;
   selectedAngleIds: Set<string>;
   currentTool: ToolType;
-  mousePosition: { x: number; y: number } | null;
   showLengthLabels: boolean;
-  onCanvasClick: (x: number, y: number) => void;
+  calibration: Calibration | null;
+  settings: CanvasSettings;
+  // 裁切工具框選的範圍（圖片座標）
+  cropRegion: Bounds | null;
+  onCropRegionChange: (region: Bounds | null) => void;
+  rectification: Rectification | null;
+  rectificationDraftCorners: Vec2[];
+  onRectifyToolClick: (x: number, y: number) => void;
+  // 有鏡頭校正時，標籤上的長度、面積與角度用還原畸變後的位置量
+  lensCorrection: LensCorrection | null;
+  lensGridDraftPoints: Vec2[];
+  lensGridColumns: number;
+  onLensGridToolClick: (x: number, y: number) => void;
+  // tolerance：多近算點到既有的點（圖片像素，已依縮放比例換算）
+  onCanvasClick: (x: number, y: number, tolerance: number) => void;
   onCircleToolClick: (x: number, y: number) => void;
-  onMouseMove: (x: number, y: number) => void;
-  onMouseLeave: () => void;
+  onPolygonToolClick: (x: number, y: number, tolerance: number) => void;
+  onLandmarkToolClick: (x: number, y: number, tolerance: number) => void;
   onPointClick: (pointId: string, ctrlKey: boolean) => void;
   onLineClick: (lineId: string, ctrlKey: boolean) => void;
   onAngleClick: (angleId: string, ctrlKey: boolean) => void;
+  onAngleDisplayModeChange: (angleId: string, mode: AngleDisplayMode) => void;
   onCircleClick: (circleId: string, ctrlKey: boolean) => void;
+  onPolygonClick: (polygonId: string, ctrlKey: boolean) => void;
   onCircleResize: (circleId: string, updates: Partial<Circle>) => void;
   onAngleToolLineClick: (lineId: string) => void;
+  onAngleToolPointClick: (x: number, y: number, tolerance: number) => void;
   onClearSelection: () => void;
   onPointDrag: (pointId: string, x: number, y: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
   getPointById: (id: string) => Point | undefined;
   calculateLineLength: (line: Line) => number;
   onResetAll: () => void;
   scale: number;
+  onScaleChange: (scale: number) => void;
   showZoomLabel: boolean;
   onImageLoad: (fitScale: number) => void;
 } 
 
 // 定義暴露給父組件的方法介面
 export interface DrawingCanvasRef {
-  exportImage: () => void;
-  copyImage: () => Promise<void>;
+  // 不給 options 時輸出整張圖片
+  exportImage: (options?: ImageExportOptions) => void;
+  copyImage: (options?: ImageExportOptions) => Promise<void>;
+  // 以螢幕座標為錨點縮放（不給就以可視區域中心為準），錨點下的圖片位置保持不動
+  zoomBy: (factor: number, anchor?: { clientX: number; clientY: number }) => void;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  zoomToFit: () => void;
+  zoomToActualSize: () => void;
+  zoomToSelection: () => void;
+}
+
+// 游標位置經過吸附或 Shift 角度鎖定之後的結果
+interface PointerResolution {
+  position: Vec2;
+  snap: SnapResult | null;
+  angleOrigin: Vec2 | null; // Shift 鎖定角度時的起點
+}
+
+// 吸附與點選用的空間索引，以及建立它們時的標記內容
+interface SnapIndexes {
+  points: Point[];
+  lines: Line[];
+  circles: Circle[];
+  segments: SnapSegment[];
+  pointIndex: SpatialIndex<Point>;
+  segmentIndex: SpatialIndex<SnapSegment>;
+  circleIndex: SpatialIndex<Circle>;
+}
+
+// canvas 繪製方式點選用的標籤與外框索引，以及建立它們時的繪圖指令
+interface HitIndexes extends Pick<HitTestScene, 'labelIndex' | 'outlineIndex'> {
+  shapes: DisplayShape[];
+}
+
+// 拖曳中的點在索引裡的目前狀態，每一步只更新它與連著它的線段
+interface PointDragIndex {
+  point: Point;
+  segments: SnapSegment[];
+}
+
+const getSegmentBounds = (segment: SnapSegment) => getBounds([segment.start, segment.end]);
+
+const getCircleBounds = (circle: Circle): Bounds => ({
+  minX: circle.centerX - circle.radius,
+  minY: circle.centerY - circle.radius,
+  maxX: circle.centerX + circle.radius,
+  maxY: circle.centerY + circle.radius,
+});
+
+// 縮放後要維持在某個螢幕位置的圖片座標
+interface ZoomAnchor {
+  imageX: number;
+  imageY: number;
+  clientX: number;
+  clientY: number;
 }
 
 export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((props, ref) => {
@@ -50,31 +163,54 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
     lines,
     angles,
     circles,
+    polygons,
     selectedCircleIds,
+    circleToolMode,
+    circleDraftPoints,
+    selectedPolygonIds,
+    polygonDraftPointIds,
     activePointId,
     angleFirstLineId,
+    angleToolMode,
+    angleDraftPointIds,
     selectedPointIds,
     selectedLineIds,
     selectedAngleIds,
     currentTool,
-    mousePosition,
     showLengthLabels,
+    calibration,
+    settings,
+    cropRegion,
+    onCropRegionChange,
+    rectification,
+    rectificationDraftCorners,
+    onRectifyToolClick,
+    lensCorrection,
+    lensGridDraftPoints,
+    lensGridColumns,
+    onLensGridToolClick,
     onCanvasClick,
     onCircleToolClick,
-    onMouseMove,
-    onMouseLeave,
+    onPolygonToolClick,
+    onLandmarkToolClick,
     onPointClick,
     onLineClick,
     onAngleClick,
+    onAngleDisplayModeChange,
     onCircleClick,
+    onPolygonClick,
     onCircleResize,
     onAngleToolLineClick,
+    onAngleToolPointClick,
     onClearSelection,
     onPointDrag,
+    onDragStart,
+    onDragEnd,
     getPointById,
     calculateLineLength,
     onResetAll,
     scale,
+    onScaleChange,
     showZoomLabel,
     onImageLoad,
   } = props;
@@ -104,8 +240,145 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
     circleCenterY: number;
   } | null>(null);
 
+  // 裁切工具拖曳框選的起點
+  const [cropStart, setCropStart] = useState<Vec2 | null>(null);
+
   const lastDragEndTimeRef = useRef<number>(0);
 
+  // 縮放錨點：改變 scale 之後，要等 DOM 套用新尺寸才能算出捲動位置
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  // 按住空白鍵或滑鼠中鍵拖曳畫面
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [panStart, setPanStart] = useState<{
+    clientX: number;
+    clientY: number;
+    scrollLeft: number;
+    scrollTop: number;
+  } | null>(null);
+
+  // 這些工具是在圖片上點出新的位置
+  const isPlacingTool = currentTool === 'marker' || currentTool === 'circle' || currentTool === 'polygon' || currentTool === 'landmark' || currentTool === 'rectify' || currentTool === 'lensGrid' || (currentTool === 'angle' && angleToolMode === 'points');
+
+  // 目前游標的吸附結果，只用來畫提示；實際座標在點擊、拖曳時重新計算
+  const [pointerSnap, setPointerSnap] = useState<PointerResolution | null>(null);
+  // 放置工具的游標位置（已套用吸附），只給繪製預覽與放大鏡用
+  const [cursorPosition, setCursorPosition] = useState<Vec2 | null>(null);
+  // canvas 繪製方式下游標停在可點選的標記上時的游標樣式（SVG 熱區會自己設定）
+  const [hoverCursorClass, setHoverCursorClass] = useState<string | null>(null);
+  // canvas 繪製方式下按右鍵時游標底下的角度標籤
+  const [contextMenuAngleId, setContextMenuAngleId] = useState<string | null>(null);
+
+  // 命中範圍以螢幕像素定義，換算成目前縮放比例下的圖片像素
+  const hitTolerance = toImageDistance(HIT_TOLERANCE, scale);
+  const pointHitRadius = toImageDistance(POINT_HIT_RADIUS, scale);
+  const strokeHitWidth = toImageDistance(STROKE_HIT_WIDTH, scale);
+  const lineHitWidth = toImageDistance(LINE_HIT_WIDTH, scale);
+
+  // 吸附用的空間索引：滑鼠每移動一次只檢查游標附近的點、線段與圓。
+  // 標記改變後第一次用到時才建立；拖曳點的期間不重建，只更新被拖曳的點與連著它的線段
+  const snapIndexesRef = useRef<SnapIndexes | null>(null);
+  const pointDragIndexRef = useRef<PointDragIndex | null>(null);
+
+  const getSnapIndexes = (): SnapIndexes => {
+    const cached = snapIndexesRef.current;
+    if (cached && (pointDragIndexRef.current || (cached.points === points && cached.lines === lines && cached.circles === circles))) {
+      return cached;
+    }
+    const segments = getSnapSegments(points, lines);
+    const indexes: SnapIndexes = {
+      points,
+      lines,
+      circles,
+      segments,
+      pointIndex: createSpatialIndex<Point>(points, getPointBounds),
+      segmentIndex: createSpatialIndex<SnapSegment>(segments, getSegmentBounds),
+      circleIndex: createSpatialIndex<Circle>(circles, getCircleBounds),
+    };
+    snapIndexesRef.current = indexes;
+    return indexes;
+  };
+
+  const startPointDragIndex = (point: Point) => {
+    const { segments } = getSnapIndexes();
+    pointDragIndexRef.current = {
+      point,
+      segments: segments.filter(({ start, end }) => start.id === point.id || end.id === point.id),
+    };
+  };
+
+  const moveDraggedPointInIndex = (x: number, y: number) => {
+    const drag = pointDragIndexRef.current;
+    const indexes = snapIndexesRef.current;
+    if (!drag || !indexes) return;
+    const moved = { ...drag.point, x, y };
+    indexes.pointIndex.update(drag.point, moved);
+    drag.segments = drag.segments.map(segment => {
+      const next = {
+        ...segment,
+        start: segment.start.id === moved.id ? moved : segment.start,
+        end: segment.end.id === moved.id ? moved : segment.end,
+      };
+      indexes.segmentIndex.update(segment, next);
+      return next;
+    });
+    drag.point = moved;
+  };
+
+  // 拖曳結束後，索引跟新的標記內容不一致，下次用到時重建
+  const endPointDragIndex = () => {
+    if (!pointDragIndexRef.current) return;
+    pointDragIndexRef.current = null;
+    snapIndexesRef.current = null;
+  };
+
+  // Canvas 繪製方式下，標記平常畫在 canvas 圖層；匯出的瞬間切回完整的 SVG，
+  // 兩種繪製方式都走同一條匯出流程，輸出的圖片完全一樣
+  const [isExporting, setIsExporting] = useState(false);
+  const svgGeometry = settings.renderer === 'svg' || isExporting;
+
+  // 只在標記、選取或標籤設定改變時重建，滑鼠移動不會觸發重畫
+  const displayShapes = useMemo(() => {
+    if (settings.renderer !== 'canvas') return [];
+    return buildDisplayList({
+      points,
+      lines,
+      angles,
+      circles,
+      polygons,
+      selectedPointIds,
+      selectedLineIds,
+      selectedAngleIds,
+      selectedCircleIds,
+      selectedPolygonIds,
+      activePointId,
+      angleFirstLineId,
+      showLengthLabels,
+      calibration,
+      lensCorrection,
+    });
+  }, [
+    settings.renderer, points, lines, angles, circles, polygons,
+    selectedPointIds, selectedLineIds, selectedAngleIds, selectedCircleIds, selectedPolygonIds,
+    activePointId, angleFirstLineId, showLengthLabels, calibration, lensCorrection,
+  ]);
+
+  // canvas 繪製方式沒有每個標記各自的熱區：點、線段、圓用吸附的索引，標籤與外框的索引第一次用到時才建立
+  const hitIndexesRef = useRef<HitIndexes | null>(null);
+
+  const findAnnotationAtPosition = (position: Vec2): AnnotationHit | null => {
+    if (hitIndexesRef.current?.shapes !== displayShapes) {
+      hitIndexesRef.current = { shapes: displayShapes, ...createHitIndexes(displayShapes, points, lines, angles, polygons) };
+    }
+    const { labelIndex, outlineIndex } = hitIndexesRef.current;
+    const { pointIndex, segmentIndex, circleIndex } = getSnapIndexes();
+    return findAnnotationAt(position, { pointIndex, segmentIndex, circleIndex, labelIndex, outlineIndex }, {
+      pointRadius: pointHitRadius,
+      lineWidth: lineHitWidth,
+      strokeWidth: strokeHitWidth,
+      includeCircles: currentTool === 'cursor',
+    });
+  };
+
   // 匯出時需要寫死的樣式屬性清單。之所以要一項項列出來，是因為匯出的 SVG
   // 會脫離網頁本身獨立渲染，讀不到 Tailwind 的 class 規則，也讀不到
   // hsl(var(--accent)) 這類 CSS 變數，所以每個節點「目前實際套用的樣式」
@@ -153,8 +426,14 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
     const liveSvg = svgRef.current;
     if (!liveSvg || !imageSize) return null;
 
+    if (settings.renderer === 'canvas') {
+      flushSync(() => setIsExporting(true));
+    }
     const clone = liveSvg.cloneNode(true) as SVGSVGElement;
     inlineComputedStyles(liveSvg, clone);
+    if (settings.renderer === 'canvas') {
+      setIsExporting(false);
+    }
 
     clone.querySelectorAll('[data-export-ignore="true"]').forEach(el => el.remove());
 
@@ -165,10 +444,27 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
     return new XMLSerializer().serializeToString(clone);
   };
 
+  // 輸出範圍：整張圖，或標記涵蓋的範圍加上邊距（沒有標記時仍輸出整張圖）
+  const getExportRegion = (options?: ImageExportOptions): Bounds | null => {
+    if (!imageSize) return null;
+    const fullImage = { minX: 0, minY: 0, maxX: imageSize.width, maxY: imageSize.height };
+    if (!options?.cropToAnnotations) return fullImage;
+    const bounds = getAnnotationBounds({ points, circles });
+    if (!bounds) return fullImage;
+    const padding = Math.max(0, options.padding);
+    return clampCropRegion({
+      minX: bounds.minX - padding,
+      minY: bounds.minY - padding,
+      maxX: bounds.maxX + padding,
+      maxY: bounds.maxY + padding,
+    }, imageSize.width, imageSize.height) ?? fullImage;
+  };
+
   // 把整理好的 SVG 畫成 canvas，供「匯出圖片」跟「複製圖片」共用
-  const renderSvgToCanvas = async (): Promise<HTMLCanvasElement | null> => {
+  const renderSvgToCanvas = async (options?: ImageExportOptions): Promise<HTMLCanvasElement | null> => {
     const svgString = buildExportSvgString();
-    if (!svgString || !imageSize) return null;
+    const region = getExportRegion(options);
+    if (!svgString || !region) return null;
 
     const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
     const url = URL.createObjectURL(svgBlob);
@@ -182,11 +478,11 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
       });
 
       const canvas = document.createElement('canvas');
-      canvas.width = imageSize.width;
-      canvas.height = imageSize.height;
+      canvas.width = region.maxX - region.minX;
+      canvas.height = region.maxY - region.minY;
       const ctx = canvas.getContext('2d');
       if (!ctx) return null;
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, region.minX, region.minY, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
       return canvas;
     } finally {
       URL.revokeObjectURL(url);
@@ -194,8 +490,8 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
   };
   
   // 匯出圖片
-  const handleExportImage = async () => {
-    const canvas = await renderSvgToCanvas();
+  const handleExportImage = async (options?: ImageExportOptions) => {
+    const canvas = await renderSvgToCanvas(options);
     if (!canvas) return;
   
     const link = document.createElement('a');
@@ -205,8 +501,8 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
   };
   
   // 複製圖片到剪貼簿
-  const handleCopyImage = async () => {
-    const canvas = await renderSvgToCanvas();
+  const handleCopyImage = async (options?: ImageExportOptions) => {
+    const canvas = await renderSvgToCanvas(options);
     if (!canvas) return;
   
     try {
@@ -224,10 +520,177 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
   };
   
   // 暴露方法
+  // 把錨點的圖片座標捲回原本的螢幕位置
+  const scrollToAnchor = (anchor: ZoomAnchor, currentScale: number) => {
+    const container = containerRef.current;
+    const svg = svgRef.current;
+    if (!container || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    container.scrollLeft += rect.left + anchor.imageX * currentScale - anchor.clientX;
+    container.scrollTop += rect.top + anchor.imageY * currentScale - anchor.clientY;
+  };
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    zoomAnchorRef.current = null;
+    if (anchor) scrollToAnchor(anchor, scale);
+  }, [scale]);
+
+  const getViewportCenter = () => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+  };
+
+  // 縮放到 nextScale，並讓 anchor 這個螢幕位置（預設為可視區域中心）底下的圖片座標維持原位；
+  // 也可以直接指定縮放後要放在 anchor 位置的圖片座標（縮放到選取範圍時用）
+  const zoomTo = (
+    nextScale: number,
+    anchor = getViewportCenter(),
+    imagePoint?: { x: number; y: number },
+  ) => {
+    const svg = svgRef.current;
+    if (!svg || !anchor) return;
+    const rect = svg.getBoundingClientRect();
+    const target: ZoomAnchor = {
+      imageX: imagePoint ? imagePoint.x : (anchor.clientX - rect.left) / scale,
+      imageY: imagePoint ? imagePoint.y : (anchor.clientY - rect.top) / scale,
+      clientX: anchor.clientX,
+      clientY: anchor.clientY,
+    };
+    const clamped = clampScale(nextScale);
+    if (clamped === scale) {
+      // 比例沒變就不會重新渲染，直接捲動
+      scrollToAnchor(target, scale);
+      return;
+    }
+    zoomAnchorRef.current = target;
+    onScaleChange(clamped);
+  };
+
+  // 不主動放大過小的圖片，避免畫面模糊
+  const getFitScale = (size: { width: number; height: number }) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return Math.min(getScaleToFit(rect, size), 1);
+  };
+
+  const zoomToBounds = (bounds: Bounds) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const area = expandBounds(bounds, 80);
+    const nextScale = getScaleToFit(rect, { width: area.maxX - area.minX, height: area.maxY - area.minY });
+    zoomTo(nextScale, getViewportCenter(), {
+      x: (area.minX + area.maxX) / 2,
+      y: (area.minY + area.maxY) / 2,
+    });
+  };
+
+  // 目前選取項目涵蓋的範圍（圖片座標）
+  const getSelectionBounds = (): Bounds | null => {
+    const positions: { x: number; y: number }[] = [];
+    const addPoint = (id: string) => {
+      const point = getPointById(id);
+      if (point) positions.push(point);
+    };
+    selectedPointIds.forEach(addPoint);
+    lines.filter(l => selectedLineIds.has(l.id)).forEach(line => {
+      addPoint(line.startPointId);
+      addPoint(line.endPointId);
+    });
+    angles.filter(a => selectedAngleIds.has(a.id)).forEach(angle => {
+      const arc = getAngleDisplay(angle, getPointById, lines);
+      if (arc) positions.push({ x: arc.labelX, y: arc.labelY });
+      if (angle.vertexPointId) addPoint(angle.vertexPointId);
+    });
+    polygons.filter(p => selectedPolygonIds.has(p.id)).forEach(polygon => polygon.pointIds.forEach(addPoint));
+    circles.filter(c => selectedCircleIds.has(c.id)).forEach(circle => {
+      positions.push({ x: circle.centerX - circle.radius, y: circle.centerY - circle.radius });
+      positions.push({ x: circle.centerX + circle.radius, y: circle.centerY + circle.radius });
+    });
+    return getBounds(positions);
+  };
+
   useImperativeHandle(ref, () => ({
     exportImage: handleExportImage,
-    copyImage: handleCopyImage
+    copyImage: handleCopyImage,
+    zoomBy: (factor, anchor) => zoomTo(scale * factor, anchor ?? getViewportCenter()),
+    zoomIn: () => zoomTo(scale * ZOOM_STEP),
+    zoomOut: () => zoomTo(scale / ZOOM_STEP),
+    zoomToFit: () => {
+      if (!imageSize) return;
+      const fitScale = getFitScale(imageSize);
+      if (fitScale !== null) {
+        zoomTo(fitScale, getViewportCenter(), { x: imageSize.width / 2, y: imageSize.height / 2 });
+      }
+    },
+    zoomToActualSize: () => zoomTo(1),
+    zoomToSelection: () => {
+      const bounds = getSelectionBounds();
+      if (bounds) zoomToBounds(bounds);
+    },
   }));
+
+  // 空白鍵按住時進入平移模式（在輸入框打字時不算）
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault(); // 避免整頁往下捲
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // 平移中：滑鼠移出畫布也要繼續跟著動，所以掛在 window 上
+  useEffect(() => {
+    if (!panStart) return;
+    const handleMove = (e: MouseEvent) => {
+      const container = containerRef.current;
+      if (!container) return;
+      container.scrollLeft = panStart.scrollLeft - (e.clientX - panStart.clientX);
+      container.scrollTop = panStart.scrollTop - (e.clientY - panStart.clientY);
+    };
+    const handleUp = () => {
+      setPanStart(null);
+      // 放開時瀏覽器還會送出 click，不要當成在畫布上點擊
+      lastDragEndTimeRef.current = Date.now();
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [panStart]);
+
+  // 在捕獲階段攔下平移手勢，點、線、圓的拖曳處理就不會收到這次按下
+  const handlePanMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!container || !(e.button === 1 || (e.button === 0 && isSpaceHeld))) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPanStart({
+      clientX: e.clientX,
+      clientY: e.clientY,
+      scrollLeft: container.scrollLeft,
+      scrollTop: container.scrollTop,
+    });
+  };
   
   useEffect(() => {
     if (image) {
@@ -238,18 +701,9 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
         // 計算「適應可視區域」的初始縮放比例，行為類似 Photoshop / Affinity 的
         // Fit to Window：讓圖片一上傳就完整顯示在畫布容器內，而不是直接以
         // 原始像素尺寸（可能遠大於或遠小於螢幕）當作畫布大小。
-        if (containerRef.current) {
-          const containerRect = containerRef.current.getBoundingClientRect();
-          // 對應容器的 p-8（2rem，即上下左右各 32px）留白
-          const PADDING = 64;
-          const availableWidth = Math.max(containerRect.width - PADDING, 100);
-          const availableHeight = Math.max(containerRect.height - PADDING, 100);
-          const fitScale = Math.min(
-            availableWidth / img.width,
-            availableHeight / img.height,
-            1 // 不主動放大過小的圖片，避免畫面模糊
-          );
-          onImageLoad(Math.max(fitScale, 0.05));
+        const fitScale = getFitScale({ width: img.width, height: img.height });
+        if (fitScale !== null) {
+          onImageLoad(fitScale);
         }
       };
       img.src = image;
@@ -258,29 +712,169 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
 
   const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
     if (draggingPointId || draggingHandle || isDraggingCircle) return; // Don't trigger click during drag
+
+    const svg = e.currentTarget;
+    const rect = svg.getBoundingClientRect();
+    const raw = {
+      x: (e.clientX - rect.left) / scale,
+      y: (e.clientY - rect.top) / scale,
+    };
+
+    // SVG 熱區的點擊比畫布本身先收到，也不受下面拖曳剛結束的判斷影響
+    if (!svgGeometry) {
+      const hit = findAnnotationAtPosition(raw);
+      if (hit && handleAnnotationClick(hit, e)) return;
+      if (currentTool === 'circle' && circleToolMode === 'click') {
+        const circle = findCircleBoxAt(raw, getSnapIndexes().circleIndex);
+        if (circle) {
+          onCircleClick(circle.id, e.ctrlKey || e.metaKey);
+          return;
+        }
+      }
+    }
+
+    if (isSpaceHeld || panStart) return;
     const now = Date.now();
     if (now - lastDragEndTimeRef.current < 200) {
       return;
     }
 
-    const svg = e.currentTarget;
-    const rect = svg.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / scale;
-    const y = (e.clientY - rect.top) / scale;
+    const { x, y } = resolvePointer(raw, e.shiftKey).position;
     
     if (currentTool === 'marker') {
-      onCanvasClick(x, y);
+      onCanvasClick(x, y, hitTolerance);
     } else if (currentTool === 'cursor') {
       onClearSelection();
     } else if (currentTool === 'circle') {
       onCircleToolClick(x, y);
+    } else if (currentTool === 'polygon') {
+      onPolygonToolClick(x, y, hitTolerance);
+    } else if (currentTool === 'landmark') {
+      onLandmarkToolClick(x, y, hitTolerance);
+    } else if (currentTool === 'angle' && angleToolMode === 'points') {
+      onAngleToolPointClick(x, y, hitTolerance);
+    } else if (currentTool === 'rectify') {
+      onRectifyToolClick(x, y);
+    } else if (currentTool === 'lensGrid') {
+      onLensGridToolClick(x, y);
     }
   };
 
+  // canvas 繪製方式：照 SVG 熱區的規則處理點到的標記，回傳 true 表示點擊被標記接走，不再當成點在畫布上
+  const handleAnnotationClick = ({ target, onLabel }: AnnotationHit, e: React.MouseEvent): boolean => {
+    const ctrlKey = e.ctrlKey || e.metaKey;
+    const isCursor = currentTool === 'cursor';
+    switch (target.kind) {
+      case 'point':
+        if (isCursor) onPointClick(target.id, ctrlKey);
+        return isCursor;
+      case 'line':
+        if (isPickingAngleLines) {
+          onAngleToolLineClick(target.id);
+          return true;
+        }
+        if (isCursor) {
+          onLineClick(target.id, ctrlKey);
+          return true;
+        }
+        // 線段標籤除了三點量角以外都會攔下點擊
+        return onLabel && currentTool !== 'angle';
+      case 'angle':
+        if (isCursor) onAngleClick(target.id, ctrlKey);
+        return isCursor || onLabel;
+      case 'polygon':
+        if (isCursor) onPolygonClick(target.id, ctrlKey);
+        return isCursor;
+      case 'circle':
+        onCircleClick(target.id, ctrlKey);
+        return true;
+    }
+  };
+
+  // 正在畫的線段起點：按住 Shift 時以它為中心鎖定角度
+  const getConstraintOrigin = (): Vec2 | null => {
+    if (currentTool === 'marker') return activePoint ?? null;
+    if (currentTool === 'polygon' && polygonDraftPointIds.length > 0) {
+      return getPointById(polygonDraftPointIds[polygonDraftPointIds.length - 1]) ?? null;
+    }
+    if (currentTool === 'angle' && angleToolMode === 'points' && angleDraftPositions.length > 0) {
+      return angleDraftPositions[angleDraftPositions.length - 1];
+    }
+    if (currentTool === 'circle' && circleToolMode === 'diameter' && circleDraftPoints.length === 1) {
+      return circleDraftPoints[0];
+    }
+    return null;
+  };
+
+  // Shift 角度鎖定優先於吸附；兩者都不適用時維持原本的座標
+  const resolvePointer = (raw: Vec2, shiftKey: boolean, excludePointId: string | null = null): PointerResolution => {
+    const origin = shiftKey ? getConstraintOrigin() : null;
+    if (origin) {
+      return { position: constrainToAngle(origin, raw, settings.angleSnapIncrement), snap: null, angleOrigin: origin };
+    }
+    const { pointIndex, segmentIndex, circleIndex } = getSnapIndexes();
+    const scene = {
+      points: pointIndex.queryRadius(raw, hitTolerance),
+      segments: segmentIndex.queryRadius(raw, hitTolerance),
+      circles: circleIndex.queryRadius(raw, hitTolerance),
+    };
+    const snap = findSnapTarget(raw, scene, { targets: settings.snapTargets, tolerance: hitTolerance, excludePointId });
+    return { position: snap ? { x: snap.x, y: snap.y } : raw, snap, angleOrigin: null };
+  };
+
+  // 框選範圍限制在圖片內
+  const clampToImage = ({ x, y }: Vec2): Vec2 => ({
+    x: Math.min(Math.max(x, 0), nativeWidth),
+    y: Math.min(Math.max(y, 0), nativeHeight),
+  });
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = { x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale };
+
+    // canvas 繪製方式：按在點上開始拖曳、按在圓的外框內開始移動圓，對應 SVG 熱區的 onMouseDown
+    if (!svgGeometry && currentTool === 'cursor') {
+      const hit = findAnnotationAtPosition(position);
+      const point = hit?.target.kind === 'point' ? getPointById(hit.target.id) : undefined;
+      if (point) handlePointMouseDown(e, point);
+      return;
+    }
+    if (!svgGeometry && currentTool === 'circle' && circleToolMode === 'click') {
+      const circle = findCircleBoxAt(position, getSnapIndexes().circleIndex);
+      if (circle) handleCircleAreaMouseDown(e, circle);
+      return;
+    }
+
+    if (currentTool !== 'crop') return;
+    setCropStart(clampToImage(position));
+    onCropRegionChange(null);
+  };
+
+  // canvas 繪製方式沒有角度標籤的元素可以掛右鍵選單：按下時先找出游標底下的角度標籤，
+  // 沒有的話選單停用，讓瀏覽器顯示原本的右鍵選單
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (svgGeometry) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const hit = findAnnotationAtPosition({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+    setContextMenuAngleId(hit?.onLabel && hit.target.kind === 'angle' ? hit.target.id : null);
+  };
+
   const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
     const rect = e.currentTarget.getBoundingClientRect();
     const x = (e.clientX - rect.left) / scale;
     const y = (e.clientY - rect.top) / scale;
+
+    if (cropStart) {
+      const end = clampToImage({ x, y });
+      onCropRegionChange({
+        minX: Math.min(cropStart.x, end.x),
+        minY: Math.min(cropStart.y, end.y),
+        maxX: Math.max(cropStart.x, end.x),
+        maxY: Math.max(cropStart.y, end.y),
+      });
+      return;
+    }
     
     // Handle circle move dragging
     if (isDraggingCircle && circleMoveStart && draggingCircleId) {
@@ -290,7 +884,6 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
         centerX: circleMoveStart.circleCenterX + deltaX,
         centerY: circleMoveStart.circleCenterY + deltaY,
       });
-      onMouseMove(x, y);
       return;
     }
     
@@ -338,28 +931,56 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
       }
       
       onCircleResize(draggingCircleId, { centerX: newCenterX, centerY: newCenterY, radius: newRadius });
-      onMouseMove(x, y);
       return;
     }
     
     if (!draggingPointId || currentTool !== 'cursor') {
-      onMouseMove(x, y);
+      if (!isPlacingTool) {
+        setPointerSnap(null);
+        setCursorPosition(null);
+        // canvas 繪製方式：游標停在可點選的標記上時換成手形，跟 SVG 熱區一樣
+        if (!svgGeometry && currentTool === 'cursor') {
+          const hit = findAnnotationAtPosition({ x, y });
+          setHoverCursorClass(hit ? (hit.target.kind === 'point' ? 'cursor-grab' : 'cursor-pointer') : null);
+        }
+        return;
+      }
+      const resolved = resolvePointer({ x, y }, e.shiftKey);
+      setPointerSnap(resolved);
+      setCursorPosition(resolved.position);
       return;
     }
+
+    // 拖曳中的點也會吸附，但不會吸附到自己或連著它的線段
+    const resolved = resolvePointer({ x, y }, e.shiftKey, draggingPointId);
+    const { x: dragX, y: dragY } = resolved.position;
+    setPointerSnap(resolved);
   
     // 1. 優先更新本地位置 (視覺最快)
-    setDragPosition({ x, y });
+    setDragPosition({ x: dragX, y: dragY });
+    moveDraggedPointInIndex(dragX, dragY);
     
     // 2. 同步通知父組件 (讓線段跟上)
-    onPointDrag(draggingPointId, x, y);
-    
-    onMouseMove(x, y);
+    onPointDrag(draggingPointId, dragX, dragY);
   };
 
   const handleMouseUp = () => {
+    if (cropStart) {
+      setCropStart(null);
+      // 只是點一下（沒有拉出範圍）就清掉框選
+      if (cropRegion && !clampCropRegion(cropRegion, nativeWidth, nativeHeight)) {
+        onCropRegionChange(null);
+      }
+    }
+    if (draggingPointId) {
+      setPointerSnap(null);
+      endPointDragIndex();
+    }
     if (isDraggingCircle || draggingHandle || draggingPointId) {
       // 記錄拖曳結束的瞬間
       lastDragEndTimeRef.current = Date.now();
+      // 整段拖曳合併成一筆復原紀錄
+      onDragEnd();
     }
     setDraggingPointId(null);
     setDraggingHandle(null);
@@ -400,6 +1021,7 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
       anchorX = circle.centerX - circle.radius;
     }
     
+    onDragStart();
     setDraggingHandle(handleId);
     setDraggingCircleId(circle.id);
     setCircleDragState({
@@ -413,6 +1035,8 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
   const handlePointMouseDown = (e: React.MouseEvent, point: Point) => {
     if (currentTool === 'cursor') {
       e.stopPropagation();
+      onDragStart();
+      startPointDragIndex(point);
       setDraggingPointId(point.id);
       setDragPosition({ x: point.x, y: point.y });
     }
@@ -436,6 +1060,7 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
     const x = (e.clientX - rect.left) / scale;
     const y = (e.clientY - rect.top) / scale;
     
+    onDragStart();
     setIsDraggingCircle(true);
     setDraggingCircleId(circle.id);
     setCircleMoveStart({
@@ -470,116 +1095,47 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
 
   const activePoint = activePointId ? getPointById(activePointId) : null;
 
-  // Get point position considering drag state
-  const getPointPosition = (point: Point): { x: number; y: number } => {
-    if (draggingPointId === point.id && dragPosition) {
-      return dragPosition;
-    }
-    return { x: point.x, y: point.y };
-  };
+  // 三點量角：已點的點（拖曳中不會發生，直接用儲存的座標）
+  const angleDraftPositions = angleDraftPointIds
+    .map(id => getPointById(id))
+    .filter((p): p is Point => p !== undefined);
 
-  const getLineCenter = (line: Line) => {
-    const start = getPointById(line.startPointId);
-    const end = getPointById(line.endPointId);
-    if (!start || !end) return null;
-    const startPos = getPointPosition(start);
-    const endPos = getPointPosition(end);
-    return {
-      x: (startPos.x + endPos.x) / 2,
-      y: (startPos.y + endPos.y) / 2,
-    };
-  };
+  const polygonDraftPositions = polygonDraftPointIds
+    .map(id => getPointById(id))
+    .filter((p): p is Point => p !== undefined);
 
-  const getLineColor = (lineId: string) => {
-    const selectedArray = Array.from(selectedLineIds);
-    const index = selectedArray.indexOf(lineId);
+  // 點選線段建立角度只在「線段」模式；三點模式下點到線段要穿透到畫布本身
+  const isPickingAngleLines = currentTool === 'angle' && angleToolMode === 'lines';
 
-    if (angleFirstLineId === lineId) return 'hsl(var(--primary))';
-    
-    if (index === -1) return 'hsl(var(--accent))'; // 未選取：翡翠綠
-    
-    // 第一條選取：天藍色，第二條選取：深藍色
-    return index === 0 ? '#7dd3fc' : '#0369a1'; 
-  };
-
-  // Calculate line length considering drag position
-  const getLineLengthWithDrag = (line: Line): number => {
-    const start = getPointById(line.startPointId);
-    const end = getPointById(line.endPointId);
-    if (!start || !end) return 0;
-    const startPos = getPointPosition(start);
-    const endPos = getPointPosition(end);
-    return Math.sqrt((endPos.x - startPos.x) ** 2 + (endPos.y - startPos.y) ** 2);
+  // 標記圖層用 memo 包起來；事件處理函式每次渲染都會重建，透過 ref 轉成固定的參考傳下去
+  const svgLayerHandlersRef = useRef<AnnotationSvgHandlers | null>(null);
+  svgLayerHandlersRef.current = {
+    onPointMouseDown: handlePointMouseDown,
+    onPointClick,
+    onLineClick,
+    onAngleClick,
+    onAngleDisplayModeChange,
+    onCircleClick,
+    onPolygonClick,
+    onAngleToolLineClick,
   };
+  const svgLayerHandlers = useMemo<AnnotationSvgHandlers>(() => ({
+    onPointMouseDown: (e, point) => svgLayerHandlersRef.current?.onPointMouseDown(e, point),
+    onPointClick: (pointId, ctrlKey) => svgLayerHandlersRef.current?.onPointClick(pointId, ctrlKey),
+    onLineClick: (lineId, ctrlKey) => svgLayerHandlersRef.current?.onLineClick(lineId, ctrlKey),
+    onAngleClick: (angleId, ctrlKey) => svgLayerHandlersRef.current?.onAngleClick(angleId, ctrlKey),
+    onAngleDisplayModeChange: (angleId, mode) => svgLayerHandlersRef.current?.onAngleDisplayModeChange(angleId, mode),
+    onCircleClick: (circleId, ctrlKey) => svgLayerHandlersRef.current?.onCircleClick(circleId, ctrlKey),
+    onPolygonClick: (polygonId, ctrlKey) => svgLayerHandlersRef.current?.onPolygonClick(polygonId, ctrlKey),
+    onAngleToolLineClick: (lineId) => svgLayerHandlersRef.current?.onAngleToolLineClick(lineId),
+  }), []);
 
-  const getDisplayLabel = (line: Line) => {
-    if (showLengthLabels) {
-      return getLineLengthWithDrag(line).toFixed(1);
-    }
-    return line.label;
-  };
+  // 圓心工具點選放置模式的控制框；canvas 繪製方式只畫選取中的圓，其他圓靠空間索引抓取
+  const editableCircles = currentTool === 'circle' && circleToolMode === 'click'
+    ? svgGeometry ? circles : circles.filter(c => selectedCircleIds.has(c.id))
+    : [];
 
-  const getLabelWidth = (label: string) => {
-    const charCount = label.length;
-    return Math.max(24, charCount * 10 + 8);
-  };
-
-  // Calculate angle arc path for display
-  const getAngleArc = (angle: Angle) => {
-    const vertex = getPointById(angle.vertexPointId);
-    const line1 = lines.find(l => l.id === angle.line1Id);
-    const line2 = lines.find(l => l.id === angle.line2Id);
-    
-    if (!vertex || !line1 || !line2) return null;
-  
-    const vertexPos = getPointPosition(vertex);
-    const p1Id = line1.startPointId === angle.vertexPointId ? line1.endPointId : line1.startPointId;
-    const p2Id = line2.startPointId === angle.vertexPointId ? line2.endPointId : line2.startPointId;
-    
-    const p1 = getPointById(p1Id);
-    const p2 = getPointById(p2Id);
-    if (!p1 || !p2) return null;
-  
-    const p1Pos = getPointPosition(p1);
-    const p2Pos = getPointPosition(p2);
-  
-    // --- 新增：動態半徑計算 ---
-    const dist1 = Math.sqrt((p1Pos.x - vertexPos.x) ** 2 + (p1Pos.y - vertexPos.y) ** 2);
-    const dist2 = Math.sqrt((p2Pos.x - vertexPos.x) ** 2 + (p2Pos.y - vertexPos.y) ** 2);
-    // 取短線的 30% 作為半徑，但最小不小於 20，最大不超過 50
-    const radius = Math.max(20, Math.min(50, Math.min(dist1, dist2) * 0.3));
-    // -----------------------
-  
-    const angle1 = Math.atan2(p1Pos.y - vertexPos.y, p1Pos.x - vertexPos.x);
-    const angle2 = Math.atan2(p2Pos.y - vertexPos.y, p2Pos.x - vertexPos.x);
-  
-    const startX = vertexPos.x + radius * Math.cos(angle1);
-    const startY = vertexPos.y + radius * Math.sin(angle1);
-    const endX = vertexPos.x + radius * Math.cos(angle2);
-    const endY = vertexPos.y + radius * Math.sin(angle2);
-  
-    let sweepAngle = angle2 - angle1;
-    if (sweepAngle > Math.PI) sweepAngle -= 2 * Math.PI;
-    if (sweepAngle < -Math.PI) sweepAngle += 2 * Math.PI;
-    const largeArc = Math.abs(sweepAngle) > Math.PI ? 1 : 0;
-    const sweep = sweepAngle > 0 ? 1 : 0;
-  
-    const midAngle = angle1 + sweepAngle / 2;
-    const labelX = vertexPos.x + (radius + 20) * Math.cos(midAngle); // 標籤離動態圓弧遠一點
-    const labelY = vertexPos.y + (radius + 20) * Math.sin(midAngle);
-  
-    const degrees = Math.abs(sweepAngle) * (180 / Math.PI);
-  
-    return {
-      // 圓弧路徑
-      path: `M ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${endX} ${endY}`,
-      // 新增：扇形填充路徑 (從起點畫弧，再連回頂點，最後封閉)
-      fillPath: `M ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${endX} ${endY} L ${vertexPos.x} ${vertexPos.y} Z`,
-      labelX,
-      labelY,
-      degrees,
-    };
-  };
+  const contextMenuAngle = contextMenuAngleId ? angles.find(a => a.id === contextMenuAngleId) : undefined;
 
   // 實際顯示尺寸 = 原始像素尺寸 × 縮放比例。
   // 這個尺寸會直接套用在 <svg> 的 width/height 上（而不是用 CSS transform 假縮放），
@@ -589,18 +1145,40 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
   const displayWidth = nativeWidth * scale;
   const displayHeight = nativeHeight * scale;
 
+  // 平移模式的游標優先於各工具的游標
+  const cursorClass = panStart
+    ? 'cursor-grabbing'
+    : isSpaceHeld
+      ? 'cursor-grab'
+      : isPlacingTool || currentTool === 'crop'
+        ? 'cursor-crosshair'
+        : currentTool === 'angle'
+          ? 'cursor-pointer'
+          : draggingPointId || draggingHandle
+            ? 'cursor-grabbing'
+            : (currentTool === 'cursor' && !svgGeometry && hoverCursorClass) || 'cursor-default';
+
+  // 放大鏡只在放點與拖曳點的時候出現，平移畫面時不顯示
+  const loupeTarget = !settings.loupeEnabled || isSpaceHeld || panStart
+    ? null
+    : draggingPointId && dragPosition
+      ? dragPosition
+      : isPlacingTool ? cursorPosition : null;
+
   return (
+    // 不用 items-center/justify-center 置中：圖片比容器大時左、上方會被裁掉捲不到，改用子元素 m-auto
     <div 
       ref={containerRef}
-      className="canvas-container flex-1 flex items-center justify-center p-8 overflow-auto"
+      className="canvas-container flex-1 flex p-8 overflow-auto"
+      onMouseDownCapture={handlePanMouseDown}
     >
       {!image ? (
-        <div className="text-center text-muted-foreground">
+        <div className="m-auto text-center text-muted-foreground">
           <p className="text-lg">點擊右側按鈕或直接 <kbd className="px-2 py-1 bg-slate-100 rounded border shadow-sm text-sm">Ctrl + V</kbd> 貼上圖片開始繪圖</p>
         </div>
       ) : (
         /* 1. 確保這個 div 有 'group' 類名，這樣才能控制內部的按鈕顯示 */
-        <div className="relative inline-block shadow-2xl rounded-lg overflow-hidden group">
+        <div className="relative inline-block m-auto shrink-0 shadow-2xl rounded-lg overflow-hidden group">
 
           {/* --- 新增：顯示比例標籤 --- */}
           <div 
@@ -615,106 +1193,100 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
           <button
             onClick={(e) => {
               e.stopPropagation(); // 防止點擊按鈕時觸發畫布的 onClick
-              if (window.confirm("確定要清空所有標記並移除圖片嗎？")) {
+              if (window.confirm("確定要移除這張圖片與上面的所有標記嗎？")) {
                 onResetAll();
               }
             }}
             /* 關鍵樣式：opacity-0 group-hover:opacity-100 實現平時隱藏、移入顯示 */
             className="absolute top-4 right-4 z-50 p-2 bg-black/50 hover:bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 backdrop-blur-md shadow-lg"
-            title="重置畫布"
+            title="移除這張圖片"
           >
             {/* 這裡使用 lucide-react 的 X 圖標，若沒 import 記得補上 */}
             <X size={20} /> 
           </button>
 
-            <svg
-              ref={svgRef}
-              width={displayWidth}
-              height={displayHeight}
-              viewBox={`0 0 ${nativeWidth} ${nativeHeight}`}
-              style={{ transition: 'width 0.1s ease-out, height 0.1s ease-out' }}
-              className={`${currentTool === 'marker' || currentTool === 'circle' ? 'cursor-crosshair' : currentTool === 'angle' ? 'cursor-pointer' : draggingPointId || draggingHandle ? 'cursor-grabbing' : 'cursor-default'}`}
-              onClick={handleClick}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={() => {
-                if (draggingPointId && dragPosition) {
-                  onPointDrag(draggingPointId, dragPosition.x, dragPosition.y);
-                }
-                setDraggingPointId(null);
-                setDragPosition(null);
-                setDraggingHandle(null);
-                setCircleDragState(null);
-                setIsDraggingCircle(false);
-                setCircleMoveStart(null);
-                onMouseLeave();
+            {/* canvas 繪製方式的角度標籤沒有自己的元素，右鍵選單掛在整張畫布上，按下時才決定是哪個角度 */}
+            <AngleModeContextMenu
+              mode={contextMenuAngle?.displayMode ?? 'interior'}
+              onChange={(mode) => {
+                if (contextMenuAngle) onAngleDisplayModeChange(contextMenuAngle.id, mode);
               }}
+              disabled={!contextMenuAngle}
             >
-              {/* Background image */}
-              <image
-                href={image}
-                width={nativeWidth}
-                height={nativeHeight}
-              />
-  
-              {/* --- 圓心參考線與十字準星 (最底層渲染) --- */}
-              {circles.map((circle) => {
-                const isSelected = selectedCircleIds.has(circle.id);
-                const bbox = getCircleBoundingBox(circle);
-                
-                return (
-                  <g key={circle.id}>
-                    {/* 1. 外觀層：虛線圓圈與十字準星 (不論什麼工具模式都顯示，但不可點擊) */}
-                    <g style={{ pointerEvents: 'none' }}>
-                      {/* 參考圓圈本體 */}
-                      <circle
-                        cx={circle.centerX}
-                        cy={circle.centerY}
-                        r={circle.radius}
-                        fill="none"
-                        stroke="#ef4444"
-                        strokeWidth={2}
-                        strokeDasharray="4,2"
-                        style={{ opacity: 0.8 }}
-                      />
-                      
-                      {/* 十字準星 - 水平線 */}
-                      <line 
-                        x1={circle.centerX - 12} y1={circle.centerY} 
-                        x2={circle.centerX + 12} y2={circle.centerY} 
-                        stroke="#ef4444" strokeWidth={1.5} 
-                      />
-                      {/* 十字準星 - 垂直線 */}
-                      <line 
-                        x1={circle.centerX} y1={circle.centerY - 12} 
-                        x2={circle.centerX} y2={circle.centerY + 12} 
-                        stroke="#ef4444" strokeWidth={1.5} 
-                      />
-                      {/* 中心避讓白點：讓十字中心在雜亂背景中依然清晰 */}
-                      <circle 
-                        cx={circle.centerX} cy={circle.centerY} r={2} 
-                        fill="white" stroke="#ef4444" strokeWidth={1} 
-                      />
-                    </g>
-                
-                    {/* 2. 控制層：僅在「圓心工具」模式下顯示控制框與感應區 */}
-                    {currentTool === 'circle' && (
-                      <g data-export-ignore="true">
-                        {/* 整體抓取區域 */}
-                        <rect
-                          x={bbox.left}
-                          y={bbox.top}
-                          width={bbox.right - bbox.left}
-                          height={bbox.bottom - bbox.top}
-                          fill="transparent"
-                          style={{ cursor: isDraggingCircle && draggingCircleId === circle.id ? 'grabbing' : 'move' }}
-                          onClick={(e) => handleCircleAreaClick(e, circle.id)}
-                          onMouseDown={(e) => {
-                            e.stopPropagation();
-                            handleCircleAreaMouseDown(e, circle);
-                          }}
-                        />
-                        
+              <svg
+                ref={svgRef}
+                width={displayWidth}
+                height={displayHeight}
+                viewBox={`0 0 ${nativeWidth} ${nativeHeight}`}
+                className={`${panStart || isSpaceHeld ? `${cursorClass} [&_*]:!cursor-[inherit]` : cursorClass}`}
+                onClick={handleClick}
+                onPointerDown={handlePointerDown}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={() => {
+                  if (draggingPointId && dragPosition) {
+                    onPointDrag(draggingPointId, dragPosition.x, dragPosition.y);
+                  }
+                  if (draggingPointId || draggingHandle || isDraggingCircle) {
+                    onDragEnd();
+                  }
+                  endPointDragIndex();
+                  setDraggingPointId(null);
+                  setDragPosition(null);
+                  setDraggingHandle(null);
+                  setCircleDragState(null);
+                  setIsDraggingCircle(false);
+                  setCircleMoveStart(null);
+                  setPointerSnap(null);
+                  setCursorPosition(null);
+                  setHoverCursorClass(null);
+                  setCropStart(null);
+                }}
+              >
+                <g id={CONTENT_GROUP_ID}>
+                  {/* Background image */}
+                  <image
+                    href={image}
+                    width={nativeWidth}
+                    height={nativeHeight}
+                  />
+
+                  {/* Canvas 繪製方式：標記畫在這一層，SVG 只留選取中的圓的控制框與繪製預覽，點選改用空間索引判斷 */}
+                  {!svgGeometry && (
+                    <AnnotationCanvasLayer
+                      shapes={displayShapes}
+                      nativeWidth={nativeWidth}
+                      nativeHeight={nativeHeight}
+                      scale={scale}
+                      viewportRef={containerRef}
+                    />
+                  )}
+
+                  {/* 圓心工具點選放置模式的控制框與縮放手把 */}
+                  {editableCircles.map((circle) => {
+                    const isSelected = selectedCircleIds.has(circle.id);
+                    const bbox = getCircleBoundingBox(circle);
+
+                    return (
+                      <g key={circle.id} data-export-ignore="true">
+                        {/* 整體抓取區域；canvas 繪製方式改用空間索引判斷 */}
+                        {svgGeometry && (
+                          <rect
+                            x={bbox.left}
+                            y={bbox.top}
+                            width={bbox.right - bbox.left}
+                            height={bbox.bottom - bbox.top}
+                            fill="transparent"
+                            style={{ cursor: isDraggingCircle && draggingCircleId === circle.id ? 'grabbing' : 'move' }}
+                            onClick={(e) => handleCircleAreaClick(e, circle.id)}
+                            onMouseDown={(e) => {
+                              e.stopPropagation();
+                              handleCircleAreaMouseDown(e, circle);
+                            }}
+                          />
+                        )}
+
                         {/* 藍色尺寸控制框 (Visual Box) */}
                         <rect
                           x={bbox.left}
@@ -727,7 +1299,7 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
                           strokeDasharray="4,4"
                           style={{ pointerEvents: 'none' }}
                         />
-            
+
                         {/* 縮放手把 (Handles) */}
                         {bbox.handles.map((handle) => (
                           <rect
@@ -747,243 +1319,93 @@ export const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>((p
                           />
                         ))}
                       </g>
-                    )}
-                  </g>
-                );
-              })}
-              
-              {/* Completed lines */}
-              {lines.map(line => {
-                const startPoint = getPointById(line.startPointId);
-                const endPoint = getPointById(line.endPointId);
-                if (!startPoint || !endPoint) return null;
-  
-                const isSelected = selectedLineIds.has(line.id);
-                const isAngleFirstLine = angleFirstLineId === line.id;
-                const startPos = getPointPosition(startPoint);
-                const endPos = getPointPosition(endPoint);
-                const center = getLineCenter(line);
-                const displayLabel = getDisplayLabel(line);
-                const labelWidth = getLabelWidth(displayLabel);
-                const strokeColor = getLineColor(line.id); // 取得動態顏色
-  
-                return (
-                  <g key={line.id}>
-                    {/* Invisible wider line for easier click detection */}
-                    <line
-                      data-export-ignore="true"
-                      x1={startPos.x}
-                      y1={startPos.y}
-                      x2={endPos.x}
-                      y2={endPos.y}
-                      stroke="transparent"
-                      strokeWidth={16}
-                      onClick={(e) => {
-                        if (currentTool === 'angle') {
-                          e.stopPropagation();
-                          onAngleToolLineClick(line.id);
-                        } else if (currentTool === 'cursor' && !draggingPointId) {
-                          e.stopPropagation();
-                          onLineClick(line.id, e.ctrlKey || e.metaKey);
-                        }
-                      }}
-                      style={{ cursor: currentTool === 'cursor' || currentTool === 'angle' ? 'pointer' : 'inherit' }}
-                    />
-                    {/* Visible line */}
-                    <line
-                      x1={startPos.x}
-                      y1={startPos.y}
-                      x2={endPos.x}
-                      y2={endPos.y}
-                      // 關鍵：移除 className 中的 'stroke-primary'
-                      className="measurement-line transition-all duration-200" 
-                      stroke={strokeColor} // 這裡會被 inline style 覆蓋
-                      strokeWidth={isSelected || isAngleFirstLine ? 3 : 2}
-                      style={{ 
-                        pointerEvents: 'none', 
-                        stroke: strokeColor // 強制套用動態顏色
-                      }}
-                    />
-                    {/* Line label */}
-                    {center && (
-                      <g 
-                        transform={`translate(${center.x}, ${center.y})`}
-                        style={{ cursor: 'pointer' }}
-                        onClick={(e) => {
-                          e.stopPropagation(); // 阻止事件冒泡到畫布
-                    
-                          // 關鍵修正：判斷目前的工具模式
-                          if (currentTool === 'angle') {
-                            // 如果是角度工具，點擊標籤等於點擊該線段來建立角度
-                            onAngleToolLineClick(line.id);
-                          } else if (currentTool === 'cursor' && !draggingPointId) {
-                            // 如果是選取工具，點擊標籤等於選取線段
-                            onLineClick(line.id, e.ctrlKey || e.metaKey);
-                          }
-                        }}
-                      >
-                        <rect
-                          x={-labelWidth / 2}
-                          y="-10"
-                          width={labelWidth}
-                          height="20"
-                          rx="4"
-                          fill={strokeColor} 
-                          style={{ transition: 'fill 0.2s' }}
-                          pointerEvents="all" // 強制所有部分都可點擊
-                        />
-                        <text
-                          textAnchor="middle"
-                          dominantBaseline="central"
-                          className="fill-white text-xs font-bold select-none"
-                          style={{ pointerEvents: 'none' }}
-                        >
-                          {displayLabel}
-                        </text>
-                      </g>
-                    )}
-                  </g>
-                );
-              })}
-  
-              {/* Angle arcs */}
-              {angles.map(angle => {
-                const arcData = getAngleArc(angle);
-                if (!arcData) return null;
-                
-                const isSelected = selectedAngleIds.has(angle.id);
-  
-                return (
-                  <g key={angle.id}>
-                    {/* 新增：半透明扇形填充層 */}
-                    <path
-                      d={arcData.fillPath}
-                      fill="#2dd4bf" // 直接先用 Teal 色碼測試 (Tailwind teal-400)
-                      fillOpacity={0.3} // 提高一點透明度到 30% 看看
-                      style={{ 
-                        pointerEvents: 'none',
-                        display: 'block' // 確保沒有被 CSS 隱藏
-                      }}
-                    />
-                    
-                    {/* Invisible wider arc for click detection */}
-                    <path
-                      data-export-ignore="true"
-                      d={arcData.path}
-                      fill="none"
-                      stroke="transparent"
-                      strokeWidth={12}
-                      onClick={(e) => {
-                        if (currentTool === 'cursor' && !draggingPointId) {
-                          e.stopPropagation();
-                          onAngleClick(angle.id, e.ctrlKey || e.metaKey);
-                        }
-                      }}
-                      style={{ cursor: currentTool === 'cursor' ? 'pointer' : 'inherit' }}
-                    />
-                    {/* Visible arc */}
-                    <path
-                      d={arcData.path}
-                      fill="none"
-                      stroke={isSelected ? 'hsl(var(--primary))' : 'hsl(var(--accent))'}
-                      strokeWidth={isSelected ? 3 : 2}
-                      style={{ pointerEvents: 'none' }}
-                    />
-                    {/* Angle label */}
-                    <g 
-                      transform={`translate(${arcData.labelX}, ${arcData.labelY})`}
-                      style={{ cursor: 'pointer' }}
-                      onClick={(e) => {
-                        e.stopPropagation(); 
-                        if (currentTool === 'cursor' && !draggingPointId) {
-                          onAngleClick(angle.id, e.ctrlKey || e.metaKey);
-                        }
-                      }}
-                    >
-                      <rect
-                        x="-25" // 稍微加寬感應區
-                        y="-12" // 稍微加高感應區
-                        width="50"
-                        height="24"
-                        rx="4"
-                        fill={isSelected ? 'hsl(var(--primary))' : 'hsl(var(--accent))'}
-                        pointerEvents="all"
-                      />
-                      <text
-                        textAnchor="middle"
-                        dominantBaseline="central"
-                        className="fill-white text-xs font-bold select-none"
-                        style={{ pointerEvents: 'none' }}
-                      >
-                        {arcData.degrees.toFixed(1)}°
-                      </text>
-                    </g>
-                  </g>
-                );
-              })}
-  
-              {/* Active line (being drawn) */}
-              {activePoint && mousePosition && (
-                <line
-                  data-export-ignore="true"
-                  x1={activePoint.x}
-                  y1={activePoint.y}
-                  x2={mousePosition.x}
-                  y2={mousePosition.y}
-                  stroke="hsl(var(--primary))"
-                  strokeWidth={2}
-                  strokeDasharray="5,5"
-                  className="animate-pulse-glow"
-                />
-              )}
-  
-              {/* Points */}
-              {/* 找到渲染 Points 的地方 */}
-              {points.map(point => {
-                const isActive = activePointId === point.id;
-                const isSelected = selectedPointIds.has(point.id);
-                const isDragging = draggingPointId === point.id;
-                const pos = getPointPosition(point);
-              
-                return (
-                  <g 
-                    key={point.id}
-                    // 關鍵修改：將座標套用在 group 的 style 上，並使用 transform
-                    // 這樣可以強迫 GPU 處理位移，不經過 React 的屬性計算
-                    style={{
-                      transform: `translate(${pos.x}px, ${pos.y}px)`,
-                      transition: isDragging ? 'none' : 'transform 0.1s ease-out', // 拖曳時關閉延遲
-                      willChange: 'transform'
-                    }}
-                  >
-                    {/* 這裡的 cx, cy 全部改為 0，因為位置由上面的 translate 控制 */}
-                    <circle
-                      data-export-ignore="true"
-                      cx={0}
-                      cy={0}
-                      r={20}
-                      fill="transparent"
-                      style={{ cursor: currentTool === 'cursor' ? (isDragging ? 'grabbing' : 'grab') : 'inherit' }}
-                      onMouseDown={(e) => handlePointMouseDown(e, point)}
-                      onClick={(e) => {
-                        if (currentTool === 'cursor' && !draggingPointId) {
-                          e.stopPropagation();
-                          onPointClick(point.id, e.ctrlKey || e.metaKey);
-                        }
-                      }}
+                    );
+                  })}
+
+                  {svgGeometry && (
+                    <AnnotationSvgLayer
+                      points={points}
+                      lines={lines}
+                      angles={angles}
+                      circles={circles}
+                      polygons={polygons}
+                      selectedPointIds={selectedPointIds}
+                      selectedLineIds={selectedLineIds}
+                      selectedAngleIds={selectedAngleIds}
+                      selectedCircleIds={selectedCircleIds}
+                      selectedPolygonIds={selectedPolygonIds}
+                      activePointId={activePointId}
+                      angleFirstLineId={angleFirstLineId}
+                      currentTool={currentTool}
+                      angleToolMode={angleToolMode}
+                      showLengthLabels={showLengthLabels}
+                      calibration={calibration}
+                      lensCorrection={lensCorrection}
+                      draggingPointId={draggingPointId}
+                      dragPosition={dragPosition}
+                      scale={scale}
+                      handlers={svgLayerHandlers}
                     />
-                    <circle
-                      cx={0}
-                      cy={0}
-                      r={isActive || isSelected ? 8 : 6}
-                      className={`marker-point ${isSelected ? 'selected' : ''}`}
-                      fill={isActive ? 'hsl(var(--accent))' : 'hsl(var(--marker-color))'}
-                      style={{ pointerEvents: 'none' }}
+                  )}
+
+                  <CursorPreview
+                    cursor={cursorPosition}
+                    activePoint={activePoint ?? null}
+                    currentTool={currentTool}
+                    circleToolMode={circleToolMode}
+                    circleDraftPoints={circleDraftPoints}
+                    angleDraftPositions={angleDraftPositions}
+                    polygonDraftPositions={polygonDraftPositions}
+                  />
+
+                  {/* 吸附提示：放在內容群組裡，放大鏡也看得到 */}
+                  {pointerSnap && (isPlacingTool || draggingPointId) && (
+                    <SnapIndicator
+                      snap={pointerSnap.snap}
+                      angleOrigin={pointerSnap.angleOrigin}
+                      position={pointerSnap.position}
+                      scale={scale}
                     />
-                  </g>
-                );
-              })}
-            </svg>
+                  )}
+                </g>
+
+                {/* 點選中的四個角；點滿之前或重新點選時，沒有草稿就顯示目前生效的四邊形 */}
+                {currentTool === 'rectify' && (
+                  <RectificationOverlay
+                    corners={rectificationDraftCorners.length > 0 ? rectificationDraftCorners : rectification?.corners ?? []}
+                    preview={rectificationDraftCorners.length > 0 && rectificationDraftCorners.length < 4 ? cursorPosition : null}
+                    scale={scale}
+                  />
+                )}
+
+                {currentTool === 'lensGrid' && (
+                  <LensGridOverlay
+                    points={lensGridDraftPoints}
+                    columns={lensGridColumns}
+                    scale={scale}
+                  />
+                )}
+
+                {currentTool === 'crop' && cropRegion && (
+                  <CropOverlay
+                    region={cropRegion}
+                    imageWidth={nativeWidth}
+                    imageHeight={nativeHeight}
+                    scale={scale}
+                  />
+                )}
+
+                {loupeTarget && (
+                  <MagnifierLoupe
+                    contentId={CONTENT_GROUP_ID}
+                    target={loupeTarget}
+                    scale={scale}
+                    magnification={settings.loupeMagnification}
+                    shapes={svgGeometry ? undefined : displayShapes}
+                  />
+                )}
+              </svg>
+            </AngleModeContextMenu>
         </div>
       )}
     </div>
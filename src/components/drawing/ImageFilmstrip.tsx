@@ -0,0 +1,99 @@
+import { useRef } from 'react';
+import { ImageOff, Plus, X } from 'lucide-react';
+import { ProjectImage } from '@/lib/projectFile';
+import { readFileAsDataUrl } from '@/lib/download';
+import { ImageSource } from '@/hooks/useProjectImages';
+
+interface ImageFilmstripProps {
+  images: ProjectImage[];
+  activeImageId: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onAdd: (images: ImageSource[]) => void;
+}
+
+const countAnnotations = ({ document }: ProjectImage) =>
+  document.lines.length + document.angles.length + document.circles.length + document.polygons.length;
+
+// 畫布下方的縮圖列：點縮圖切換圖片，雙擊名稱改名，最後一格新增圖片
+export const ImageFilmstrip = ({ images, activeImageId, onSelect, onRemove, onRename, onAdd }: ImageFilmstripProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    onAdd(await Promise.all(files.map(async file => ({ src: await readFileAsDataUrl(file), name: file.name }))));
+  };
+
+  return (
+    <div className="h-24 flex-shrink-0 border-t border-border bg-card flex items-center gap-2 px-3 overflow-x-auto">
+      {images.map(entry => {
+        const isActive = entry.id === activeImageId;
+        const annotationCount = countAnnotations(entry);
+        return (
+          <div
+            key={entry.id}
+            onClick={() => onSelect(entry.id)}
+            className={`group relative w-24 h-[72px] flex-shrink-0 rounded-md overflow-hidden border-2 cursor-pointer transition-colors ${
+              isActive ? 'border-primary' : 'border-transparent hover:border-white/30'
+            }`}
+            title={entry.name}
+          >
+            {entry.image ? (
+              <img src={entry.image} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full bg-muted flex items-center justify-center">
+                <ImageOff size={18} className="text-muted-foreground" />
+              </div>
+            )}
+            <p
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                const name = window.prompt('圖片名稱', entry.name)?.trim();
+                if (name) onRename(entry.id, name);
+              }}
+              className="absolute bottom-0 inset-x-0 px-1 py-0.5 bg-black/60 text-[10px] text-white truncate"
+            >
+              {entry.name}
+            </p>
+            {annotationCount > 0 && (
+              <span className="absolute top-1 left-1 px-1 rounded bg-black/60 text-[10px] font-mono text-white">
+                {annotationCount}
+              </span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                if (annotationCount === 0 || window.confirm(`確定要移除「${entry.name}」與上面的所有標記嗎？`)) {
+                  onRemove(entry.id);
+                }
+              }}
+              className="absolute top-1 right-1 p-0.5 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 hover:bg-red-500 transition-opacity"
+              title="移除這張圖片"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+
+      <input
+        type="file"
+        ref={inputRef}
+        accept="image/*"
+        multiple
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="w-24 h-[72px] flex-shrink-0 rounded-md border-2 border-dashed border-white/20 hover:border-white/40 text-muted-foreground hover:text-foreground flex flex-col items-center justify-center gap-1 text-xs transition-colors"
+        title="新增圖片（也可以直接貼上）"
+      >
+        <Plus size={18} />
+        新增圖片
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { FlipHorizontal2, FlipVertical2, RefreshCw, RotateCcw, RotateCw, Ruler } from 'lucide-react';
+import { ImageOrientationChange } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+
+interface ImageTransformPanelProps {
+  canStraighten: boolean;
+  onOrientationChange: (change: ImageOrientationChange) => void;
+  onStraighten: () => void;
+}
+
+const ORIENTATION_ACTIONS: { change: ImageOrientationChange; icon: typeof RotateCw; title: string }[] = [
+  { change: 'rotateCounterClockwise', icon: RotateCcw, title: '逆時針旋轉 90°' },
+  { change: 'rotateClockwise', icon: RotateCw, title: '順時針旋轉 90°' },
+  { change: 'rotate180', icon: RefreshCw, title: '旋轉 180°' },
+  { change: 'flipHorizontal', icon: FlipHorizontal2, title: '水平翻轉' },
+  { change: 'flipVertical', icon: FlipVertical2, title: '垂直翻轉' },
+];
+
+// 旋轉、翻轉與拉正圖片；所有標記會跟著移動，測量結果不變
+export const ImageTransformPanel = ({ canStraighten, onOrientationChange, onStraighten }: ImageTransformPanelProps) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {ORIENTATION_ACTIONS.map(({ change, icon: Icon, title }) => (
+          <Button
+            key={change}
+            variant="outline"
+            size="sm"
+            className="flex-1 px-0 bg-white/5 border-white/20 hover:bg-white/10 text-toolbar-foreground"
+            onClick={() => onOrientationChange(change)}
+            title={title}
+          >
+            <Icon size={16} />
+          </Button>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full bg-white/5 border-white/20 hover:bg-white/10 text-toolbar-foreground"
+        disabled={!canStraighten}
+        onClick={onStraighten}
+        title={canStraighten ? '旋轉圖片，讓選取的線段變成水平或垂直' : '先選取一條線段'}
+      >
+        <Ruler size={16} className="mr-2" />
+        依線段拉正
+      </Button>
+    </div>
+  );
+};
@@ -1,25 +1,23 @@
 import { Upload } from 'lucide-react';
 import { useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { readFileAsDataUrl } from '@/lib/download';
+import { ImageSource } from '@/hooks/useProjectImages';
 
 interface ImageUploaderProps {
-  onImageUpload: (imageUrl: string) => void;
+  onImageUpload: (images: ImageSource[]) => void;
   hasImage: boolean;
 }
 
 export const ImageUploader = ({ onImageUpload, hasImage }: ImageUploaderProps) => {
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const result = event.target?.result as string;
-        onImageUpload(result);
-      };
-      reader.readAsDataURL(file);
-    }
+  // 可以一次選多張圖片（批次量測），每張都會成為專案裡的一張圖片
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    onImageUpload(await Promise.all(files.map(async file => ({ src: await readFileAsDataUrl(file), name: file.name }))));
   };
 
   return (
@@ -31,6 +29,7 @@ export const ImageUploader = ({ onImageUpload, hasImage }: ImageUploaderProps) =
         type="file"
         ref={inputRef}
         accept="image/*"
+        multiple
         onChange={handleFileChange}
         className="hidden"
       />
@@ -41,15 +40,13 @@ export const ImageUploader = ({ onImageUpload, hasImage }: ImageUploaderProps) =
         onClick={() => inputRef.current?.click()}
       >
         <Upload size={16} className="mr-2" />
-        {hasImage ? '更換圖片' : '上傳圖片'}
+        {hasImage ? '新增圖片' : '上傳圖片'}
       </Button>
 
       {/* 新增的提示文字 */}
-      {!hasImage && (
-        <p className="text-[11px] text-slate-500 text-center mt-2 italic font-medium">
-          或直接按下 <kbd className="px-1 py-0.5 bg-slate-800 rounded border border-slate-700 text-slate-300 font-sans not-italic">Ctrl + V</kbd> 貼上圖片
-        </p>
-      )}
+      <p className="text-[11px] text-slate-500 text-center mt-2 italic font-medium">
+        或直接按下 <kbd className="px-1 py-0.5 bg-slate-800 rounded border border-slate-700 text-slate-300 font-sans not-italic">Ctrl + V</kbd> 貼上圖片
+      </p>
     </div>
   );
 };
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Aperture, Trash2, X } from 'lucide-react';
+import { CameraProfile, LensCorrection } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+import { LensCalibrationResult, MIN_GRID_SIZE } from '@/lib/lensDistortion';
+
+interface LensCalibrationPanelProps {
+  lensCorrection: LensCorrection | null;
+  profiles: CameraProfile[];
+  isPicking: boolean;
+  gridPointCount: number;
+  gridRows: number;
+  gridColumns: number;
+  onGridSizeChange: (rows: number, columns: number) => void;
+  onStartPicking: () => void;
+  onRemoveLastPoint: () => void;
+  onClearPoints: () => void;
+  onEstimate: () => Promise<LensCalibrationResult>;
+  onSaveProfile: (name: string, result: LensCalibrationResult) => Promise<void>;
+  onApplyProfile: (profile: CameraProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onUndistortImage: () => void;
+  onClear: () => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm font-mono text-toolbar-foreground placeholder:text-slate-500';
+
+const formatCoefficient = (value: number) => value.toFixed(4);
+
+export const LensCalibrationPanel = ({
+  lensCorrection,
+  profiles,
+  isPicking,
+  gridPointCount,
+  gridRows,
+  gridColumns,
+  onGridSizeChange,
+  onStartPicking,
+  onRemoveLastPoint,
+  onClearPoints,
+  onEstimate,
+  onSaveProfile,
+  onApplyProfile,
+  onDeleteProfile,
+  onUndistortImage,
+  onClear,
+}: LensCalibrationPanelProps) => {
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [result, setResult] = useState<LensCalibrationResult | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const expectedCount = gridRows * gridColumns;
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId) ?? profiles[0];
+
+  const handleGridSizeChange = (rows: string, columns: string) => {
+    // 打字途中可能暫時小於下限，估計時才檢查
+    onGridSizeChange(Math.max(1, parseInt(rows, 10) || 1), Math.max(1, parseInt(columns, 10) || 1));
+    setResult(null);
+  };
+
+  const handleEstimate = async () => {
+    try {
+      setResult(await onEstimate());
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = async () => {
+    const name = profileName.trim();
+    if (!result || !name) return;
+    try {
+      await onSaveProfile(name, result);
+      setResult(null);
+      setProfileName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        鏡頭校正
+      </h3>
+
+      {lensCorrection && (
+        <div className="space-y-2">
+          <div className="flex items-start justify-between gap-2 px-3 py-2 rounded-lg border border-cyan-500/30 bg-cyan-500/10">
+            <div className="text-xs leading-relaxed">
+              <p className="font-bold text-cyan-300">已套用：{lensCorrection.profileName}</p>
+              <p className="font-mono text-slate-300">
+                k1 {formatCoefficient(lensCorrection.coefficients.k1)}・k2 {formatCoefficient(lensCorrection.coefficients.k2)}
+              </p>
+            </div>
+            <button
+              onClick={onClear}
+              className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+              title="取消鏡頭校正"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <Button variant="secondary" size="sm" className="w-full" onClick={onUndistortImage}>
+            把校正套用到圖片
+          </Button>
+          <p className="text-[11px] text-toolbar-foreground/50">
+            測量數據與標籤已改用還原畸變後的位置；套用到圖片後，圖片與標記會一起拉直
+          </p>
+        </div>
+      )}
+
+      {profiles.length > 0 ? (
+        <div className="flex gap-2">
+          <select
+            value={selectedProfile?.id ?? ''}
+            onChange={(e) => setSelectedProfileId(e.target.value)}
+            className="flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-1 text-sm text-toolbar-foreground"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id} className="text-slate-900">{profile.name}</option>
+            ))}
+          </select>
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={!selectedProfile}
+            onClick={() => selectedProfile && onApplyProfile(selectedProfile)}
+          >
+            套用
+          </Button>
+          <button
+            onClick={() => selectedProfile && onDeleteProfile(selectedProfile.id)}
+            className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-red-400 transition-colors"
+            title="刪除相機設定檔"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-toolbar-foreground/50 pl-2">尚無相機設定檔，先用棋盤格照片建立一個</p>
+      )}
+
+      <Button
+        variant={isPicking ? 'default' : 'secondary'}
+        size="sm"
+        className="w-full"
+        onClick={onStartPicking}
+      >
+        <Aperture size={16} className="mr-2" />
+        點選棋盤格角點
+      </Button>
+
+      {isPicking && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs text-toolbar-foreground/70">
+            <input
+              type="number"
+              min={MIN_GRID_SIZE}
+              step="1"
+              value={gridRows}
+              onChange={(e) => handleGridSizeChange(e.target.value, String(gridColumns))}
+              className={inputClassName}
+              title="列數（由上而下）"
+            />
+            <span>列 ×</span>
+            <input
+              type="number"
+              min={MIN_GRID_SIZE}
+              step="1"
+              value={gridColumns}
+              onChange={(e) => handleGridSizeChange(String(gridRows), e.target.value)}
+              className={inputClassName}
+              title="每列的角點數"
+            />
+            <span>行</span>
+          </div>
+          <p className="text-xs text-primary/80 pl-2">
+            {gridPointCount < expectedCount
+              ? `由上而下逐列、每列由左而右點選內側角點（${gridPointCount}/${expectedCount}）`
+              : `已點選 ${expectedCount} 個角點，可以估計畸變係數`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" className="flex-1" disabled={gridPointCount === 0} onClick={onRemoveLastPoint}>
+              移除最後一點
+            </Button>
+            <Button variant="secondary" size="sm" className="flex-1" disabled={gridPointCount === 0} onClick={onClearPoints}>
+              清除
+            </Button>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="w-full"
+            disabled={gridPointCount !== expectedCount}
+            onClick={handleEstimate}
+          >
+            估計畸變係數
+          </Button>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="px-3 py-2 rounded-lg border border-white/10 bg-white/5 text-xs font-mono text-slate-300 leading-relaxed">
+            <p>k1 {formatCoefficient(result.coefficients.k1)}・k2 {formatCoefficient(result.coefficients.k2)}</p>
+            <p>p1 {formatCoefficient(result.coefficients.p1)}・p2 {formatCoefficient(result.coefficients.p2)}</p>
+            <p>殘差 {result.rmsError.toFixed(2)} px</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              placeholder="相機設定檔名稱"
+              className={inputClassName}
+            />
+            <Button variant="secondary" size="sm" disabled={!profileName.trim()} onClick={handleSave}>
+              儲存
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
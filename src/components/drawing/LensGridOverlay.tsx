@@ -0,0 +1,48 @@
+import { Vec2 } from '@/lib/geometry';
+
+interface LensGridOverlayProps {
+  points: Vec2[];
+  columns: number; // 每列幾個角點，用來把點好的角點逐列連起來
+  scale: number;
+}
+
+const OVERLAY_COLOR = '#06b6d4';
+
+// 鏡頭校正的棋盤格角點：同一列的角點連成折線，畸變越明顯，折線彎得越厲害
+export const LensGridOverlay = ({ points, columns, scale }: LensGridOverlayProps) => {
+  const rows: Vec2[][] = [];
+  for (let start = 0; start < points.length; start += Math.max(1, columns)) {
+    rows.push(points.slice(start, start + Math.max(1, columns)));
+  }
+  const fontSize = 9 / scale;
+
+  return (
+    <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+      {rows.map((row, r) => row.length > 1 && (
+        <path
+          key={r}
+          d={row.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')}
+          fill="none"
+          stroke={OVERLAY_COLOR}
+          strokeWidth={1.5 / scale}
+          strokeDasharray={`${4 / scale},${3 / scale}`}
+        />
+      ))}
+      {points.map((p, i) => (
+        <g key={i}>
+          <circle cx={p.x} cy={p.y} r={4 / scale} fill={OVERLAY_COLOR} stroke="white" strokeWidth={1 / scale} />
+          <text
+            x={p.x + 6 / scale}
+            y={p.y - 6 / scale}
+            fill="white"
+            fontSize={fontSize}
+            fontWeight="bold"
+            style={{ paintOrder: 'stroke', stroke: OVERLAY_COLOR, strokeWidth: 2.5 / scale }}
+          >
+            {i + 1}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+};
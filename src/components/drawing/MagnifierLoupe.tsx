@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react';
+import { Vec2 } from '@/lib/geometry';
+import { DisplayShape, createCssColorResolver, drawDisplayList } from '@/lib/canvasRenderer';
+
+interface MagnifierLoupeProps {
+  // 要放大的 SVG 群組 id（底圖與所有標記，不能包含放大鏡自己）
+  contentId: string;
+  // 游標（或正在拖曳的點）的圖片座標
+  target: Vec2;
+  scale: number;
+  magnification: number;
+  // Canvas 繪製方式下標記畫在 canvas 上，<use> 複製出來是空白的，要另外畫進放大鏡
+  shapes?: DisplayShape[];
+}
+
+// 以下尺寸都是螢幕像素，畫的時候要除以 scale 換回圖片座標
+const LOUPE_RADIUS = 64;
+const LOUPE_GAP = 24;        // 放大鏡與游標之間的距離，避免擋住正要點的位置
+const CROSSHAIR_GAP = 4;     // 十字線中心留空，才看得到正中央的像素
+const CLIP_PATH_ID = 'drawing-canvas-loupe-clip';
+
+interface LoupeCanvasProps {
+  shapes: DisplayShape[];
+  center: Vec2;
+  radius: number; // 圖片座標
+  target: Vec2;
+  scale: number;
+  magnification: number;
+}
+
+// 放大鏡範圍內的標記：canvas 以螢幕像素建立，放大後的線條與文字仍然清楚
+const LoupeCanvas = ({ shapes, center, radius, target, scale, magnification }: LoupeCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const size = LOUPE_RADIUS * 2;
+    canvas.width = Math.round(size * pixelRatio);
+    canvas.height = Math.round(size * pixelRatio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, size, size);
+    // 跟 SVG 版本相同的轉換：放大鏡中心對準 target
+    const zoom = scale * magnification;
+    ctx.translate(LOUPE_RADIUS, LOUPE_RADIUS);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-target.x, -target.y);
+    drawDisplayList(ctx, shapes, createCssColorResolver(canvas), getComputedStyle(canvas).fontFamily);
+  }, [shapes, target.x, target.y, scale, magnification]);
+
+  return (
+    <foreignObject x={center.x - radius} y={center.y - radius} width={radius * 2} height={radius * 2}>
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </foreignObject>
+  );
+};
+
+// 跟著游標的圓形放大鏡：用 <use> 複製整個畫布內容再放大，所以正在畫的預覽線、拖曳中的點都會一起出現
+export const MagnifierLoupe = ({ contentId, target, scale, magnification, shapes }: MagnifierLoupeProps) => {
+  const radius = LOUPE_RADIUS / scale;
+  const gap = LOUPE_GAP / scale;
+  const stroke = 1 / scale;
+
+  // 預設放在游標正上方，太靠近圖片頂端時改放下方
+  const above = target.y - gap - radius * 2 >= 0;
+  const cx = target.x;
+  const cy = above ? target.y - gap - radius : target.y + gap + radius;
+
+  const crosshairGap = CROSSHAIR_GAP / scale;
+
+  return (
+    <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+      <defs>
+        <clipPath id={CLIP_PATH_ID}>
+          <circle cx={cx} cy={cy} r={radius} />
+        </clipPath>
+      </defs>
+      <circle cx={cx} cy={cy} r={radius} fill="white" />
+      <g clipPath={`url(#${CLIP_PATH_ID})`}>
+        <g transform={`translate(${cx} ${cy}) scale(${magnification}) translate(${-target.x} ${-target.y})`}>
+          <use href={`#${contentId}`} />
+        </g>
+        {shapes && (
+          <LoupeCanvas
+            shapes={shapes}
+            center={{ x: cx, y: cy }}
+            radius={radius}
+            target={target}
+            scale={scale}
+            magnification={magnification}
+          />
+        )}
+        <g stroke="#ef4444" strokeWidth={stroke}>
+          <line x1={cx - radius} y1={cy} x2={cx - crosshairGap} y2={cy} />
+          <line x1={cx + crosshairGap} y1={cy} x2={cx + radius} y2={cy} />
+          <line x1={cx} y1={cy - radius} x2={cx} y2={cy - crosshairGap} />
+          <line x1={cx} y1={cy + crosshairGap} x2={cx} y2={cy + radius} />
+        </g>
+      </g>
+      <circle cx={cx} cy={cy} r={radius} fill="none" stroke="white" strokeWidth={3 * stroke} />
+      <circle cx={cx} cy={cy} r={radius} fill="none" stroke="#334155" strokeWidth={stroke} />
+    </g>
+  );
+};
@@ -1,32 +1,125 @@
-import { Line, Angle } from '@/types/drawing';
-import { ArrowUpDown, Hash } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Point, Line, Angle, AngleDisplayMode, Circle, Polygon, Calibration, Rectification, LineRatio, DerivedMeasurement } from '@/types/drawing';
+import { ArrowUpDown, Hash, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { formatArea, formatLength, formatRealArea, formatRealLength } from '@/lib/calibration';
+import { ANGLE_DISPLAY_MODES, formatAngleDegrees, measureAngle, resolveAngleGeometry } from '@/lib/angleGeometry';
+import { createRectifiedMeasurer } from '@/lib/rectification';
+import { DerivedMeasurementResult } from '@/lib/measurementExport';
+import { AngleModeContextMenu } from '@/components/drawing/AngleModeContextMenu';
 
 interface MeasurementTableProps {
+  points: Point[];
   lines: Line[];
   angles: Angle[];
+  polygons: Polygon[];
+  circles: Circle[];
+  ratios: LineRatio[];
+  derivedMeasurements: DerivedMeasurement[];
+  derivedResults: DerivedMeasurementResult[]; // 與 derivedMeasurements 同順序
   calculateLength: (line: Line) => number;
+  calculatePolygonArea: (polygon: Polygon) => number;
+  calculatePolygonPerimeter: (polygon: Polygon) => number;
+  calibration: Calibration | null;
+  rectification: Rectification | null;
   selectedLineIds: Set<string>;
   selectedAngleIds: Set<string>;
+  selectedPolygonIds: Set<string>;
+  selectedCircleIds: Set<string>;
+  selectedPointIds: Set<string>;
+  onSelectPoint: (pointId: string, ctrlKey: boolean) => void;
+  onRenamePoint: (pointId: string, label: string) => void;
   onSelectLine: (lineId: string, ctrlKey: boolean) => void;
   onSelectAngle: (angleId: string, ctrlKey: boolean) => void;
+  onAngleDisplayModeChange: (angleId: string, mode: AngleDisplayMode) => void;
+  onSelectPolygon: (polygonId: string, ctrlKey: boolean) => void;
+  onSelectCircle: (circleId: string, ctrlKey: boolean) => void;
+  onDeleteRatio: (ratioId: string) => void;
+  onDeleteDerived: (id: string) => void;
   showLengthLabels: boolean;
   onToggleLengthLabels: () => void;
   getLineColor: (lineId: string) => string;
 }
 
+// 角度列上的簡短模式標籤
+const ANGLE_MODE_TAGS: Record<AngleDisplayMode, string> = {
+  interior: '內角',
+  reflex: '優角',
+  supplementary: '補角',
+  signedClockwise: '順時針',
+  signedCounterClockwise: '逆時針',
+};
+
+// 標記點名稱輸入框：離開焦點或按 Enter 才送出，避免每打一個字就多一筆復原紀錄
+const LandmarkLabelInput = ({ label, onRename }: { label: string; onRename: (label: string) => void }) => {
+  const [value, setValue] = useState(label);
+
+  useEffect(() => {
+    setValue(label);
+  }, [label]);
+
+  return (
+    <input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={() => {
+        if (value.trim()) {
+          onRename(value);
+        } else {
+          setValue(label);
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setValue(label);
+          e.currentTarget.blur();
+        }
+      }}
+      className="w-20 bg-transparent border-b border-transparent hover:border-white/20 focus:border-orange-400 outline-none font-mono font-black text-lg"
+    />
+  );
+};
+
 export const MeasurementTable = ({ 
+  points,
   lines, 
   angles,
+  polygons,
+  circles,
+  ratios,
+  derivedMeasurements,
+  derivedResults,
   calculateLength, 
+  calculatePolygonArea,
+  calculatePolygonPerimeter,
+  calibration,
+  rectification,
   selectedLineIds,
   selectedAngleIds,
+  selectedPolygonIds,
+  selectedCircleIds,
+  selectedPointIds,
+  onSelectPoint,
+  onRenamePoint,
   onSelectLine,
   onSelectAngle,
+  onAngleDisplayModeChange,
+  onSelectPolygon,
+  onSelectCircle,
+  onDeleteRatio,
+  onDeleteDerived,
   showLengthLabels,
   onToggleLengthLabels,
   getLineColor,
 }: MeasurementTableProps) => {
+  const landmarks = points.filter(p => p.isLandmark);
+  const pointById = new Map(points.map(p => [p.id, p]));
+  const lineById = new Map(lines.map(l => [l.id, l]));
+  // 透視校正後，長度、角度、面積另外顯示一行校正平面上的數值
+  const rectified = rectification ? createRectifiedMeasurer(rectification) : null;
+
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between mb-3">
@@ -54,20 +147,56 @@ export const MeasurementTable = ({
         </Button>
       </div>
       
-      {lines.length === 0 && angles.length === 0 ? (
+      {landmarks.length === 0 && lines.length === 0 && angles.length === 0 && polygons.length === 0 && circles.length === 0 && ratios.length === 0 && derivedMeasurements.length === 0 ? (
         <p className="text-sm text-toolbar-foreground/50 italic">
           尚無測量資料
         </p>
       ) : (
         <div className="space-y-1 max-h-[300px] overflow-y-auto">
+          {/* Landmarks section */}
+          {landmarks.length > 0 && (
+            <>
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-1">
+                標記點
+              </p>
+              {landmarks.map(point => {
+                const isSelected = selectedPointIds.has(point.id);
+
+                return (
+                  <div
+                    key={point.id}
+                    onClick={(e) => onSelectPoint(point.id, e.ctrlKey || e.metaKey)}
+                    className={`flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all duration-150 mb-1 ${
+                      isSelected ? 'text-white shadow-md' : 'hover:bg-white/5 text-slate-300'
+                    }`}
+                    style={{
+                      backgroundColor: isSelected ? '#f97316' : 'transparent',
+                      border: isSelected ? 'none' : '1px solid rgba(255,255,255,0.05)'
+                    }}
+                  >
+                    <LandmarkLabelInput
+                      label={point.label ?? ''}
+                      onRename={(label) => onRenamePoint(point.id, label)}
+                    />
+                    <span className="text-xs font-mono font-bold">
+                      ({point.x.toFixed(1)}, {point.y.toFixed(1)})
+                    </span>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
           {/* Lines section */}
           {lines.length > 0 && (
             <>
-              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-1">
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-3">
                 線段
               </p>
               {lines.map(line => {
                 const length = calculateLength(line);
+                const start = pointById.get(line.startPointId);
+                const end = pointById.get(line.endPointId);
                 const isSelected = selectedLineIds.has(line.id);
                 const rowColor = getLineColor(line.id);
                 
@@ -92,9 +221,16 @@ export const MeasurementTable = ({
                     </div>
               
                     {/* 右側長度數值 */}
-                    <span className="text-sm font-mono font-bold">
-                      {length.toFixed(1)} px
-                    </span>
+                    <div className="text-right leading-tight">
+                      <p className="text-sm font-mono font-bold">
+                        {formatLength(length, calibration)}
+                      </p>
+                      {rectified && start && end && (
+                        <p className="text-[11px] font-mono text-purple-300" title="透視校正後">
+                          ⊡ {formatRealLength(rectified.length(start, end), rectified.unit)}
+                        </p>
+                      )}
+                    </div>
                   </div>
                 );
               })}
@@ -109,29 +245,226 @@ export const MeasurementTable = ({
               </p>
               {angles.map(angle => {
                 const isSelected = selectedAngleIds.has(angle.id);
+                const mode = angle.displayMode ?? 'interior';
+                const geometry = resolveAngleGeometry(angle, id => pointById.get(id), lines);
+                const isParallel = geometry?.kind === 'parallel';
+                const degrees = geometry?.kind === 'rays' ? measureAngle(geometry.rays, mode) : angle.degrees;
+                const rectifiedDegrees = rectified?.angle(angle, id => pointById.get(id), lines, mode) ?? null;
+                const nextMode = ANGLE_DISPLAY_MODES[(ANGLE_DISPLAY_MODES.indexOf(mode) + 1) % ANGLE_DISPLAY_MODES.length];
                 
                 return (
-                  <div
+                  <AngleModeContextMenu
                     key={angle.id}
-                    onClick={(e) => onSelectAngle(angle.id, e.ctrlKey || e.metaKey)}
+                    mode={mode}
+                    onChange={(value) => onAngleDisplayModeChange(angle.id, value)}
+                  >
+                    <div
+                      onClick={(e) => onSelectAngle(angle.id, e.ctrlKey || e.metaKey)}
+                      className={`flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all duration-150 mb-1 ${
+                        isSelected ? 'text-white shadow-lg' : 'text-slate-300 hover:bg-white/5'
+                      }`}
+                      style={{ 
+                        // 角度目前預設使用 accent 翡翠綠
+                        backgroundColor: isSelected ? 'hsl(var(--primary))' : 'transparent',
+                        border: isSelected ? 'none' : '1px solid rgba(255,255,255,0.05)'
+                      }}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-black text-lg">{angle.label}</span>
+                        <button
+                          className="text-xs font-bold opacity-70 tracking-widest uppercase hover:opacity-100 hover:underline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onAngleDisplayModeChange(angle.id, nextMode);
+                          }}
+                          title="點擊切換顯示方式，或按右鍵選擇"
+                        >
+                          {ANGLE_MODE_TAGS[mode]}
+                        </button>
+                      </div>
+                      <div className="text-right leading-tight">
+                        <p className="text-sm font-mono font-bold">
+                          {isParallel ? '平行 (0°)' : formatAngleDegrees(degrees, mode)}
+                        </p>
+                        {rectified && (
+                          <p className="text-[11px] font-mono text-purple-300" title="透視校正後">
+                            ⊡ {rectifiedDegrees !== null ? formatAngleDegrees(rectifiedDegrees, mode) : '平行 (0°)'}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </AngleModeContextMenu>
+                );
+              })}
+            </>
+          )}
+
+          {/* Polygons section */}
+          {polygons.length > 0 && (
+            <>
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-3">
+                面積
+              </p>
+              {polygons.map(polygon => {
+                const isSelected = selectedPolygonIds.has(polygon.id);
+                const vertices = polygon.pointIds
+                  .map(id => pointById.get(id))
+                  .filter((p): p is Point => p !== undefined);
+
+                return (
+                  <div
+                    key={polygon.id}
+                    onClick={(e) => onSelectPolygon(polygon.id, e.ctrlKey || e.metaKey)}
                     className={`flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all duration-150 mb-1 ${
                       isSelected ? 'text-white shadow-lg' : 'text-slate-300 hover:bg-white/5'
                     }`}
-                    style={{ 
-                      // 角度目前預設使用 accent 翡翠綠
+                    style={{
+                      backgroundColor: isSelected ? 'hsl(var(--primary))' : 'transparent',
+                      border: isSelected ? 'none' : '1px solid rgba(255,255,255,0.05)'
+                    }}
+                  >
+                    <span className="font-mono font-black text-lg">{polygon.label}</span>
+                    <div className="text-right leading-tight">
+                      <p className="text-sm font-mono font-bold">
+                        {formatArea(calculatePolygonArea(polygon), calibration)}
+                      </p>
+                      <p className="text-[11px] font-mono opacity-70">
+                        周長 {formatLength(calculatePolygonPerimeter(polygon), calibration)}
+                      </p>
+                      {rectified && (
+                        <p className="text-[11px] font-mono text-purple-300" title="透視校正後">
+                          ⊡ {formatRealArea(rectified.area(vertices), rectified.unit)}・周長 {formatRealLength(rectified.perimeter(vertices), rectified.unit)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          {/* Circles section */}
+          {circles.length > 0 && (
+            <>
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-3">
+                圓
+              </p>
+              {circles.map(circle => {
+                const isSelected = selectedCircleIds.has(circle.id);
+
+                return (
+                  <div
+                    key={circle.id}
+                    onClick={(e) => onSelectCircle(circle.id, e.ctrlKey || e.metaKey)}
+                    className={`flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer transition-all duration-150 mb-1 ${
+                      isSelected ? 'text-white shadow-lg' : 'text-slate-300 hover:bg-white/5'
+                    }`}
+                    style={{
                       backgroundColor: isSelected ? 'hsl(var(--primary))' : 'transparent',
                       border: isSelected ? 'none' : '1px solid rgba(255,255,255,0.05)'
                     }}
+                  >
+                    <span className="font-mono font-black text-lg">{circle.label}</span>
+                    <div className="text-right leading-tight">
+                      <p className="text-sm font-mono font-bold">
+                        ⌀ {formatLength(circle.radius * 2, calibration)}
+                      </p>
+                      <p className="text-[11px] font-mono opacity-70">
+                        r {formatLength(circle.radius, calibration)}
+                      </p>
+                      <p className="text-[11px] font-mono opacity-70">
+                        周長 {formatLength(2 * Math.PI * circle.radius, calibration)}
+                      </p>
+                      <p className="text-[11px] font-mono opacity-70">
+                        面積 {formatArea(Math.PI * circle.radius ** 2, calibration)}
+                      </p>
+                      {circle.fitResidual !== undefined && (
+                        <p className="text-[11px] font-mono opacity-70">
+                          擬合殘差 {formatLength(circle.fitResidual, calibration)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          {/* Ratios section */}
+          {ratios.length > 0 && (
+            <>
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-3">
+                比值
+              </p>
+              {ratios.map(ratio => {
+                const numerator = lineById.get(ratio.numeratorLineId);
+                const denominator = lineById.get(ratio.denominatorLineId);
+                if (!numerator || !denominator) return null;
+                const denominatorLength = calculateLength(denominator);
+
+                return (
+                  <div
+                    key={ratio.id}
+                    className="group flex items-center justify-between px-3 py-2 rounded-lg text-slate-300 mb-1"
+                    style={{ border: '1px solid rgba(255,255,255,0.05)' }}
                   >
                     <div className="flex items-center gap-2">
-                      <span className="font-mono font-black text-lg">{angle.label}</span>
-                      <span className="text-xs font-bold opacity-70 tracking-widest uppercase">
-                        角度
+                      <span className="font-mono font-black text-lg">{ratio.label}</span>
+                      <span className="text-xs font-mono opacity-70">{numerator.label} / {denominator.label}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm font-mono font-bold">
+                        {denominatorLength > 0 ? (calculateLength(numerator) / denominatorLength).toFixed(3) : '—'}
                       </span>
+                      <button
+                        onClick={() => onDeleteRatio(ratio.id)}
+                        className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-white/10 text-slate-400 hover:text-red-400 transition-opacity"
+                        title="刪除比值"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          {/* Derived measurements section */}
+          {derivedMeasurements.length > 0 && (
+            <>
+              <p className="text-xs text-toolbar-foreground/50 uppercase tracking-wider px-1 pt-3">
+                衍生測量
+              </p>
+              {derivedMeasurements.map((measurement, index) => {
+                const result = derivedResults[index];
+
+                return (
+                  <div
+                    key={measurement.id}
+                    className="group flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-slate-300 mb-1"
+                    style={{ border: '1px solid rgba(255,255,255,0.05)' }}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-mono font-black text-lg">{measurement.label}</span>
+                      <span className="text-xs font-mono opacity-70 truncate" title={measurement.formula}>{measurement.formula}</span>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {result?.value !== null && result?.value !== undefined ? (
+                        <span className="text-sm font-mono font-bold">{result.value.toFixed(3)}</span>
+                      ) : (
+                        <span className="text-xs text-red-400 max-w-[120px] truncate" title={result?.error ?? ''}>
+                          {result?.error ?? '—'}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => onDeleteDerived(measurement.id)}
+                        className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-white/10 text-slate-400 hover:text-red-400 transition-opacity"
+                        title="刪除衍生測量"
+                      >
+                        <X size={12} />
+                      </button>
                     </div>
-                    <span className="text-sm font-mono font-bold">
-                      {angle.degrees.toFixed(1)}°
-                    </span>
                   </div>
                 );
               })}
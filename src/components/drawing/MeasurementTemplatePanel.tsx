@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { ListChecks, Trash2, X } from 'lucide-react';
+import { MeasurementTemplate } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+
+interface MeasurementTemplatePanelProps {
+  templates: MeasurementTemplate[];
+  placingTemplate: MeasurementTemplate | null;
+  nextLandmark: string | null;
+  onApply: (template: MeasurementTemplate) => void;
+  onCancel: () => void;
+  onSave: (name: string) => Promise<MeasurementTemplate>;
+  onDelete: (id: string) => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm text-toolbar-foreground placeholder:text-slate-500';
+
+const describeTemplate = (template: MeasurementTemplate) =>
+  `${template.landmarks.length} 個標記點・${template.lines.length} 條線段・${template.angles.length} 個角度・${template.ratios.length} 個比值` +
+  (template.derived?.length ? `・${template.derived.length} 個衍生測量` : '');
+
+export const MeasurementTemplatePanel = ({
+  templates,
+  placingTemplate,
+  nextLandmark,
+  onApply,
+  onCancel,
+  onSave,
+  onDelete,
+}: MeasurementTemplatePanelProps) => {
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) ?? templates[0];
+
+  const handleSave = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    try {
+      const template = await onSave(name);
+      setSelectedTemplateId(template.id);
+      setTemplateName('');
+      setMessage(`已儲存「${template.name}」：${describeTemplate(template)}`);
+      setError(null);
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        量測範本
+      </h3>
+
+      {placingTemplate && (
+        <div className="flex items-start justify-between gap-2 px-3 py-2 rounded-lg border border-orange-500/30 bg-orange-500/10">
+          <div className="text-xs leading-relaxed">
+            <p className="font-bold text-orange-300">套用中：{placingTemplate.name}</p>
+            <p className="text-slate-300">
+              {placingTemplate.landmarks.map(name => (
+                <span key={name} className={name === nextLandmark ? 'font-bold text-white' : 'opacity-60'}>
+                  {name}{' '}
+                </span>
+              ))}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            title="停止套用範本"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {templates.length > 0 ? (
+        <>
+          <div className="flex gap-2">
+            <select
+              value={selectedTemplate?.id ?? ''}
+              onChange={(e) => setSelectedTemplateId(e.target.value)}
+              className="flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-1 text-sm text-toolbar-foreground"
+            >
+              {templates.map(template => (
+                <option key={template.id} value={template.id} className="text-slate-900">{template.name}</option>
+              ))}
+            </select>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={!selectedTemplate}
+              onClick={() => selectedTemplate && onApply(selectedTemplate)}
+            >
+              <ListChecks size={16} className="mr-1" />
+              套用
+            </Button>
+            <button
+              onClick={() => selectedTemplate && onDelete(selectedTemplate.id)}
+              className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-red-400 transition-colors"
+              title="刪除量測範本"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          {selectedTemplate && (
+            <p className="text-[11px] text-toolbar-foreground/50 pl-2">{describeTemplate(selectedTemplate)}</p>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-toolbar-foreground/50 pl-2">尚無範本，先放好命名的標記點與測量，再存成範本</p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+          }}
+          placeholder="範本名稱"
+          className={inputClassName}
+        />
+        <Button variant="secondary" size="sm" disabled={!templateName.trim()} onClick={handleSave}>
+          存成範本
+        </Button>
+      </div>
+      <p className="text-[11px] text-toolbar-foreground/50">
+        只會存入命名的標記點、連接這些標記點的線段、角度與比值，以及衍生測量的公式
+      </p>
+
+      {message && (
+        <p className="text-xs text-emerald-400">{message}</p>
+      )}
+      {error && (
+        <p className="text-xs text-red-400">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { FolderOpen, History, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ProjectActionsProps {
+  canSave: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  onShowSessions: () => void;
+}
+
+export const ProjectActions = ({ canSave, onSave, onOpen, onShowSessions }: ProjectActionsProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onOpen(file);
+    }
+    // 清掉值，讓同一個檔案可以再次開啟
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="file"
+          ref={inputRef}
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 bg-white/5 border-white/20 hover:bg-white/10 text-toolbar-foreground"
+          disabled={!canSave}
+          onClick={onSave}
+        >
+          <Save size={16} className="mr-2" />
+          儲存專案
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1 bg-white/5 border-white/20 hover:bg-white/10 text-toolbar-foreground"
+          onClick={() => inputRef.current?.click()}
+        >
+          <FolderOpen size={16} className="mr-2" />
+          開啟專案
+        </Button>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full text-toolbar-foreground/70 hover:bg-white/10 hover:text-toolbar-foreground"
+        onClick={onShowSessions}
+      >
+        <History size={16} className="mr-2" />
+        最近的工作階段
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { ImageOff, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SavedSession } from '@/lib/sessionStore';
+
+// recover：剛開啟頁面時詢問要不要恢復；browse：從側欄手動打開清單
+export type RecentSessionsDialogMode = 'recover' | 'browse';
+
+interface RecentSessionsDialogProps {
+  mode: RecentSessionsDialogMode | null;
+  sessions: SavedSession[];
+  currentSessionId: string;
+  onOpenSession: (session: SavedSession) => void;
+  onDeleteSession: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+const formatSavedTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('zh-TW', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const RecentSessionsDialog = ({
+  mode,
+  sessions,
+  currentSessionId,
+  onOpenSession,
+  onDeleteSession,
+  onClose,
+}: RecentSessionsDialogProps) => {
+  const isRecover = mode === 'recover';
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isRecover ? '要恢復上次的工作嗎？' : '最近的工作階段'}</DialogTitle>
+          <DialogDescription>
+            {isRecover
+              ? '偵測到先前自動儲存的工作階段，可以選擇一個繼續編輯。'
+              : '畫面上的圖片與標記會自動儲存在這個瀏覽器中。'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic py-6 text-center">
+            尚無自動儲存的工作階段
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-[360px] overflow-y-auto pr-1">
+            {sessions.map(session => {
+              const { summary } = session;
+              const isCurrent = session.id === currentSessionId;
+
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center gap-3 p-2 rounded-lg border border-border hover:bg-muted/60 transition-colors"
+                >
+                  <div className="w-20 h-14 flex-shrink-0 rounded bg-muted flex items-center justify-center overflow-hidden">
+                    {session.thumbnail ? (
+                      <img src={session.thumbnail} alt="" className="w-full h-full object-cover" />
+                    ) : (
+                      <ImageOff size={18} className="text-muted-foreground" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 text-sm">
+                    <p className="font-medium">
+                      {formatSavedTime(session.updatedAt)}
+                      {isCurrent && (
+                        <span className="ml-2 text-xs text-primary font-bold">目前</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {summary.imageCount > 1 && `${summary.imageCount} 張圖片・`}
+                      {summary.lineCount} 條線段・{summary.angleCount} 個角度・{summary.circleCount} 個圓
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    disabled={isCurrent}
+                    onClick={() => onOpenSession(session)}
+                  >
+                    開啟
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => onDeleteSession(session.id)}
+                    title="刪除這個工作階段"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {isRecover ? '開始新的工作' : '關閉'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,47 @@
+import { Vec2 } from '@/lib/geometry';
+import { RECTIFICATION_CORNER_LABELS } from '@/lib/rectification';
+
+interface RectificationOverlayProps {
+  corners: Vec2[];
+  preview: Vec2 | null; // 還沒點滿四個角時，滑鼠位置當作下一個角
+  scale: number;
+}
+
+const OVERLAY_COLOR = '#a855f7';
+
+// 透視校正的參考四邊形：角的編號對應面板上「左上、右上、右下、左下」的順序
+export const RectificationOverlay = ({ corners, preview, scale }: RectificationOverlayProps) => {
+  const outline = preview && corners.length < 4 ? [...corners, preview] : corners;
+  const isClosed = outline.length === 4;
+  const fontSize = 11 / scale;
+
+  return (
+    <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+      {outline.length > 1 && (
+        <path
+          d={outline.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + (isClosed ? ' Z' : '')}
+          fill={isClosed ? OVERLAY_COLOR : 'none'}
+          fillOpacity={0.12}
+          stroke={OVERLAY_COLOR}
+          strokeWidth={2 / scale}
+          strokeDasharray={`${6 / scale},${4 / scale}`}
+        />
+      )}
+      {corners.map((corner, i) => (
+        <g key={i}>
+          <circle cx={corner.x} cy={corner.y} r={5 / scale} fill={OVERLAY_COLOR} stroke="white" strokeWidth={1.5 / scale} />
+          <text
+            x={corner.x + 8 / scale}
+            y={corner.y - 8 / scale}
+            fill="white"
+            fontSize={fontSize}
+            fontWeight="bold"
+            style={{ paintOrder: 'stroke', stroke: OVERLAY_COLOR, strokeWidth: 3 / scale }}
+          >
+            {i + 1} {RECTIFICATION_CORNER_LABELS[i]}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Grid2x2, X } from 'lucide-react';
+import { LengthUnit, Rectification } from '@/types/drawing';
+import { Button } from '@/components/ui/button';
+import { LENGTH_UNITS } from '@/lib/calibration';
+import { RECTIFICATION_CORNER_LABELS } from '@/lib/rectification';
+
+interface RectificationPanelProps {
+  rectification: Rectification | null;
+  isPicking: boolean;
+  draftCornerCount: number;
+  onStartPicking: () => void;
+  onApply: (width: number, height: number, unit: LengthUnit) => void;
+  onClear: () => void;
+}
+
+const inputClassName = 'flex-1 min-w-0 h-8 rounded-md bg-white/5 border border-white/20 px-2 text-sm font-mono text-toolbar-foreground placeholder:text-slate-500';
+
+export const RectificationPanel = ({
+  rectification,
+  isPicking,
+  draftCornerCount,
+  onStartPicking,
+  onApply,
+  onClear,
+}: RectificationPanelProps) => {
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [unit, setUnit] = useState<LengthUnit>(rectification?.unit ?? 'mm');
+  const [error, setError] = useState<string | null>(null);
+
+  const canApply = draftCornerCount === 4 && width !== '' && height !== '';
+
+  const handleApply = () => {
+    if (!canApply) return;
+    try {
+      onApply(parseFloat(width), parseFloat(height), unit);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-toolbar-foreground/70 uppercase tracking-wider mb-3">
+        透視校正
+      </h3>
+
+      {rectification && (
+        <div className="flex items-start justify-between gap-2 px-3 py-2 rounded-lg border border-purple-500/30 bg-purple-500/10">
+          <div className="text-xs leading-relaxed">
+            <p className="font-bold text-purple-300">已設定參考長方形</p>
+            <p className="font-mono text-slate-300">
+              {rectification.width} × {rectification.height} {rectification.unit}
+            </p>
+          </div>
+          <button
+            onClick={onClear}
+            className="p-1 rounded hover:bg-white/10 text-slate-400 hover:text-white transition-colors"
+            title="取消透視校正"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      <Button
+        variant={isPicking ? 'default' : 'secondary'}
+        size="sm"
+        className="w-full"
+        onClick={onStartPicking}
+      >
+        <Grid2x2 size={16} className="mr-2" />
+        {rectification ? '重新點選四個角' : '點選四個角'}
+      </Button>
+
+      {isPicking && (
+        <p className="text-xs text-primary/80 pl-2">
+          {draftCornerCount < 4
+            ? `請點選長方形的${RECTIFICATION_CORNER_LABELS[draftCornerCount]}角（${draftCornerCount + 1}/4）`
+            : '已點選四個角，輸入長方形的實際尺寸後套用'}
+        </p>
+      )}
+
+      {isPicking && draftCornerCount === 4 && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={width}
+              onChange={(e) => setWidth(e.target.value)}
+              placeholder="寬（左上→右上）"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={height}
+              onChange={(e) => setHeight(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleApply();
+              }}
+              placeholder="高（右上→右下）"
+              className={inputClassName}
+            />
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as LengthUnit)}
+              className="w-16 h-8 rounded-md bg-white/5 border border-white/20 px-1 text-sm text-toolbar-foreground"
+            >
+              {LENGTH_UNITS.map(u => (
+                <option key={u} value={u} className="text-slate-900">{u}</option>
+              ))}
+            </select>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="w-full"
+            disabled={!canApply}
+            onClick={handleApply}
+          >
+            套用透視校正
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-400">{error}</p>
+      )}
+
+      {rectification && (
+        <p className="text-[11px] text-toolbar-foreground/50">
+          測量數據中紫色的數值為長方形所在平面上的實際長度、角度與面積
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { SnapTargetKind } from '@/types/drawing';
+import { Vec2 } from '@/lib/geometry';
+import { SNAP_TARGET_LABELS, SnapResult } from '@/lib/snapping';
+
+interface SnapIndicatorProps {
+  snap: SnapResult | null;
+  angleOrigin: Vec2 | null;
+  position: Vec2;
+  scale: number;
+}
+
+const SNAP_COLOR = '#d946ef';
+// 螢幕像素，畫的時候除以 scale，縮放時提示大小不變
+const MARKER_SIZE = 7;
+
+// 每種吸附對象用不同形狀標示（沿用 CAD 的慣例：方形端點、三角形中點、圓形圓心…）
+const renderMarker = (kind: SnapTargetKind, { x, y }: Vec2, size: number) => {
+  switch (kind) {
+    case 'point':
+      return <rect x={x - size} y={y - size} width={size * 2} height={size * 2} />;
+    case 'midpoint':
+      return <polygon points={`${x},${y - size} ${x + size},${y + size * 0.8} ${x - size},${y + size * 0.8}`} />;
+    case 'lineBody':
+      return (
+        <>
+          <line x1={x - size} y1={y - size} x2={x + size} y2={y + size} />
+          <line x1={x - size} y1={y + size} x2={x + size} y2={y - size} />
+        </>
+      );
+    case 'circleCenter':
+      return (
+        <>
+          <circle cx={x} cy={y} r={size} />
+          <line x1={x - size} y1={y} x2={x + size} y2={y} />
+          <line x1={x} y1={y - size} x2={x} y2={y + size} />
+        </>
+      );
+    case 'circumference':
+      return <polygon points={`${x},${y - size} ${x + size},${y} ${x},${y + size} ${x - size},${y}`} />;
+  }
+};
+
+export const SnapIndicator = ({ snap, angleOrigin, position, scale }: SnapIndicatorProps) => {
+  const size = MARKER_SIZE / scale;
+  const fontSize = 11 / scale;
+
+  if (angleOrigin) {
+    const degrees = (Math.atan2(-(position.y - angleOrigin.y), position.x - angleOrigin.x) * 180) / Math.PI;
+    return (
+      <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+        <line
+          x1={angleOrigin.x}
+          y1={angleOrigin.y}
+          x2={position.x}
+          y2={position.y}
+          stroke={SNAP_COLOR}
+          strokeWidth={1 / scale}
+          strokeDasharray={`${4 / scale},${4 / scale}`}
+        />
+        <text
+          x={position.x + size * 1.5}
+          y={position.y - size * 1.5}
+          fontSize={fontSize}
+          fill={SNAP_COLOR}
+          className="font-mono select-none"
+        >
+          {Math.round((degrees + 360) % 360)}°
+        </text>
+      </g>
+    );
+  }
+
+  if (!snap) return null;
+
+  return (
+    <g data-export-ignore="true" style={{ pointerEvents: 'none' }}>
+      <g fill="none" stroke={SNAP_COLOR} strokeWidth={1.5 / scale}>
+        {renderMarker(snap.kind, snap, size)}
+      </g>
+      <text
+        x={snap.x + size * 1.5}
+        y={snap.y - size * 1.5}
+        fontSize={fontSize}
+        fill={SNAP_COLOR}
+        className="select-none"
+      >
+        {SNAP_TARGET_LABELS[snap.kind]}
+      </text>
+    </g>
+  );
+};
@@ -1,6 +1,27 @@
-import { MousePointer2, Crosshair, Trash2, XCircle, Triangle, Circle } from 'lucide-react';
-import { ToolType } from '@/types/drawing';
+import { MousePointer2, Crosshair, MapPin, Trash2, XCircle, Triangle, Circle, Pentagon, Undo2, Redo2, Crop } from 'lucide-react';
+import { AngleToolMode, CircleToolMode, ToolType } from '@/types/drawing';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const CIRCLE_TOOL_MODES: [CircleToolMode, string][] = [
+  ['click', '點選放置'],
+  ['threePoint', '三點定圓'],
+  ['fit', '多點擬合'],
+  ['diameter', '兩點直徑'],
+];
+
+const getCircleToolHint = (mode: CircleToolMode, pointCount: number) => {
+  switch (mode) {
+    case 'threePoint':
+      return `請點選圓周上的第 ${pointCount + 1} 個點（共 3 點）`;
+    case 'fit':
+      return '沿圓周點選多個點，按 Enter 或「完成擬合」建立圓';
+    case 'diameter':
+      return pointCount === 0 ? '請點選直徑的一端' : '請點選直徑的另一端';
+    default:
+      return '點擊畫布生成圓圈，選取後可刪除';
+  }
+};
 
 interface ToolbarProps {
   currentTool: ToolType;
@@ -10,7 +31,23 @@ interface ToolbarProps {
   onClearAll: () => void;
   hasData: boolean;
   angleFirstLineId: string | null;
+  angleToolMode: AngleToolMode;
+  onAngleToolModeChange: (mode: AngleToolMode) => void;
+  angleDraftPointCount: number;
+  createAngleArms: boolean;
+  onCreateAngleArmsChange: (value: boolean) => void;
   hasCircles: boolean;
+  circleToolMode: CircleToolMode;
+  onCircleToolModeChange: (mode: CircleToolMode) => void;
+  circleDraftPointCount: number;
+  circleFitResidual: number | null;
+  onFinishCircleFit: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  hasCropRegion: boolean;
+  onApplyCrop: () => void;
 }
 
 export const Toolbar = ({ 
@@ -21,7 +58,23 @@ export const Toolbar = ({
   onClearAll,
   hasData,
   angleFirstLineId,
+  angleToolMode,
+  onAngleToolModeChange,
+  angleDraftPointCount,
+  createAngleArms,
+  onCreateAngleArmsChange,
   hasCircles,
+  circleToolMode,
+  onCircleToolModeChange,
+  circleDraftPointCount,
+  circleFitResidual,
+  onFinishCircleFit,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  hasCropRegion,
+  onApplyCrop,
 }: ToolbarProps) => {
   return (
     <div className="space-y-2">
@@ -45,6 +98,14 @@ export const Toolbar = ({
         <span>標點工具</span>
       </button>
 
+      <button
+        className={`tool-button w-full ${currentTool === 'landmark' ? 'active' : ''}`}
+        onClick={() => onToolChange('landmark')}
+      >
+        <MapPin size={18} />
+        <span>標記點工具</span>
+      </button>
+
       <button
         className={`tool-button w-full ${currentTool === 'angle' ? 'active' : ''}`}
         onClick={() => onToolChange('angle')}
@@ -61,19 +122,155 @@ export const Toolbar = ({
         <span>圓心工具</span>
       </button>
 
+      <button
+        className={`tool-button w-full ${currentTool === 'polygon' ? 'active' : ''}`}
+        onClick={() => onToolChange('polygon')}
+      >
+        <Pentagon size={18} />
+        <span>面積工具</span>
+      </button>
+
+      <button
+        className={`tool-button w-full ${currentTool === 'crop' ? 'active' : ''}`}
+        onClick={() => onToolChange('crop')}
+      >
+        <Crop size={18} />
+        <span>裁切工具</span>
+      </button>
+
       {currentTool === 'angle' && (
+        <div className="space-y-2 pl-2">
+          <div className="flex gap-1">
+            {([['lines', '選兩條線段'], ['points', '點選三點']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                className={`flex-1 text-xs rounded px-2 py-1 transition-colors ${
+                  angleToolMode === mode
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-white/5 text-toolbar-foreground/70 hover:bg-white/10'
+                }`}
+                onClick={() => onAngleToolModeChange(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {angleToolMode === 'lines' ? (
+            <p className="text-xs text-primary/80">
+              {angleFirstLineId ? '請選擇第二條線段' : '請選擇第一條線段'}
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-primary/80">
+                {['請點選第一條邊上的點', '請點選頂點', '請點選第二條邊上的點'][angleDraftPointCount]}
+              </p>
+              <label className="flex items-center gap-2 text-xs text-toolbar-foreground/70 cursor-pointer">
+                <Checkbox
+                  checked={createAngleArms}
+                  onCheckedChange={(checked) => onCreateAngleArmsChange(checked === true)}
+                />
+                同時建立兩條邊線
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      {currentTool === 'circle' && (
+        <div className="space-y-2 pl-2">
+          <div className="grid grid-cols-2 gap-1">
+            {CIRCLE_TOOL_MODES.map(([mode, label]) => (
+              <button
+                key={mode}
+                className={`text-xs rounded px-2 py-1 transition-colors ${
+                  circleToolMode === mode
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-white/5 text-toolbar-foreground/70 hover:bg-white/10'
+                }`}
+                onClick={() => onCircleToolModeChange(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-primary/80">
+            {getCircleToolHint(circleToolMode, circleDraftPointCount)}
+          </p>
+          {circleToolMode === 'fit' && circleDraftPointCount > 0 && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-mono text-toolbar-foreground/70">
+                {circleDraftPointCount} 點
+                {circleFitResidual !== null && `・殘差 ${circleFitResidual.toFixed(2)} px`}
+              </span>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="h-7 px-2 text-xs"
+                disabled={circleDraftPointCount < 3}
+                onClick={onFinishCircleFit}
+              >
+                完成擬合
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {currentTool === 'landmark' && (
         <p className="text-xs text-primary/80 pl-2">
-          {angleFirstLineId ? '請選擇第二條線段' : '請選擇第一條線段'}
+          點擊放置獨立標記點，可在測量數據中重新命名
         </p>
       )}
 
-      {currentTool === 'circle' && (
+      {currentTool === 'polygon' && (
         <p className="text-xs text-primary/80 pl-2">
-          點擊畫布生成圓圈，選取後可刪除
+          依序點選頂點，點回起點或按 Enter 封閉區域
         </p>
       )}
 
+      {currentTool === 'crop' && (
+        <div className="space-y-2 pl-2">
+          <p className="text-xs text-primary/80">
+            {hasCropRegion ? '按 Enter 或「套用裁切」裁切圖片，標記會跟著移動' : '在圖片上拖曳框選要保留的範圍'}
+          </p>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="w-full"
+            disabled={!hasCropRegion}
+            onClick={onApplyCrop}
+          >
+            套用裁切
+          </Button>
+        </div>
+      )}
+
       <div className="pt-4 border-t border-white/10 mt-4 space-y-2">
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            className="flex-1"
+            disabled={!canUndo}
+            onClick={onUndo}
+            title="復原 (Ctrl+Z)"
+          >
+            <Undo2 size={16} className="mr-2" />
+            復原
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="flex-1"
+            disabled={!canRedo}
+            onClick={onRedo}
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={16} className="mr-2" />
+            重做
+          </Button>
+        </div>
+
         <Button
           variant="destructive"
           size="sm"
@@ -98,7 +295,7 @@ export const Toolbar = ({
       </div>
       
       <p className="text-xs text-toolbar-foreground/50 pt-2">
-        按住 Ctrl 可多選，按 Delete 刪除
+        按住 Ctrl 可多選，按 Delete 刪除，Ctrl+Z 復原
       </p>
     </div>
   );
@@ -0,0 +1,68 @@
+import { ReactNode } from 'react';
+import { Maximize, Scan, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ZoomControlsProps {
+  scale: number;
+  hasSelection: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onZoomToFit: () => void;
+  onZoomToActualSize: () => void;
+  onZoomToSelection: () => void;
+  children?: ReactNode; // 接在縮放按鈕後面的其他畫布控制項
+}
+
+// 畫布右下角的縮放列；快捷鍵寫在 title 裡方便查
+export const ZoomControls = ({
+  scale,
+  hasSelection,
+  onZoomIn,
+  onZoomOut,
+  onZoomToFit,
+  onZoomToActualSize,
+  onZoomToSelection,
+  children,
+}: ZoomControlsProps) => {
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-50 flex items-center gap-0.5 rounded-lg border border-border bg-card/90 p-1 shadow-lg backdrop-blur-md"
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomOut} title="縮小 (Ctrl + -)">
+        <ZoomOut size={16} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-14 px-1 font-mono text-xs"
+        onClick={onZoomToActualSize}
+        title="實際大小 100% (Shift + 0)"
+      >
+        {Math.round(scale * 100)}%
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomIn} title="放大 (Ctrl + +)">
+        <ZoomIn size={16} />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onZoomToFit} title="符合視窗 (Shift + 1)">
+        <Maximize size={16} />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onZoomToSelection}
+        disabled={!hasSelection}
+        title="縮放至選取範圍 (Shift + 2)"
+      >
+        <Scan size={16} />
+      </Button>
+      {children && (
+        <>
+          <div className="mx-1 h-5 w-px bg-border" />
+          {children}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CameraProfile, LensDistortionCoefficients } from '@/types/drawing';
+import { deleteCameraProfile, listCameraProfiles, saveCameraProfile } from '@/lib/sessionStore';
+
+const generateProfileId = () => `camera-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+// 鏡頭校正的相機設定檔清單（存在 IndexedDB）。同名的設定檔會被覆蓋，方便重新校正同一台相機
+export const useCameraProfiles = () => {
+  const [profiles, setProfiles] = useState<CameraProfile[]>([]);
+
+  const refreshProfiles = useCallback(async () => {
+    try {
+      setProfiles(await listCameraProfiles());
+    } catch (err) {
+      console.warn('讀取相機設定檔失敗:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProfiles();
+  }, [refreshProfiles]);
+
+  const saveProfile = useCallback(async (
+    name: string,
+    coefficients: LensDistortionCoefficients,
+    rmsError: number,
+  ): Promise<CameraProfile> => {
+    const existing = profiles.find(p => p.name === name);
+    const profile: CameraProfile = {
+      id: existing?.id ?? generateProfileId(),
+      name,
+      coefficients,
+      rmsError,
+      createdAt: Date.now(),
+    };
+    await saveCameraProfile(profile);
+    await refreshProfiles();
+    return profile;
+  }, [profiles, refreshProfiles]);
+
+  const removeProfile = useCallback(async (id: string) => {
+    try {
+      await deleteCameraProfile(id);
+    } catch (err) {
+      console.warn('刪除相機設定檔失敗:', err);
+    }
+    await refreshProfiles();
+  }, [refreshProfiles]);
+
+  return {
+    profiles,
+    saveProfile,
+    removeProfile,
+  };
+};
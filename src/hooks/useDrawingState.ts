@@ -1,8 +1,40 @@
-import { useState, useCallback } from 'react';
-import { Point, Line, Angle, Circle, ToolType } from '@/types/drawing';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { Point, Line, Angle, AngleDisplayMode, AngleToolMode, Circle, CircleToolMode, Polygon, ToolType, Calibration, LengthUnit, DrawingDocument, Rectification, LensCorrection, LineRatio, MeasurementTemplate, DerivedMeasurement } from '@/types/drawing';
+import { createCalibration } from '@/lib/calibration';
+import { Vec2, distance, polygonArea, polygonPerimeter } from '@/lib/geometry';
+import { angleBetweenRays, resolveAngleRays } from '@/lib/angleGeometry';
+import { FittedCircle, circleFromDiameter, circleFromThreePoints, fitCircleLeastSquares } from '@/lib/circleFit';
+import { SpatialIndex, createSpatialIndex, getPointBounds } from '@/lib/spatialIndex';
+import { createRectification } from '@/lib/rectification';
+import { undistortDocument } from '@/lib/lensDistortion';
+import { applyTemplateMeasurements, findTemplateLandmarks, getNextTemplateLandmark } from '@/lib/measurementTemplate';
+import { isFormulaName, parseFormula } from '@/lib/formula';
+import { getDocumentFormulaVariables } from '@/lib/measurementExport';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 const DEFAULT_CIRCLE_RADIUS = 50;
+const MAX_HISTORY = 100;
+
+const isSameDocument = (a: DrawingDocument, b: DrawingDocument): boolean => {
+  return (Object.keys(a) as (keyof DrawingDocument)[]).every(key => a[key] === b[key]);
+};
+
+// Drop deleted vertices from polygons; a polygon left with fewer than 3 vertices is removed
+const removeVerticesFromPolygons = (polygons: Polygon[], deletedPointIds: Set<string>): Polygon[] => {
+  if (deletedPointIds.size === 0) return polygons;
+  return polygons
+    .map(polygon => ({ ...polygon, pointIds: polygon.pointIds.filter(id => !deletedPointIds.has(id)) }))
+    .filter(polygon => polygon.pointIds.length >= 3);
+};
+
+// Point-defined angles (no arm lines) are removed together with any of their three points
+const removeAnglesUsingPoints = (angles: Angle[], deletedPointIds: Set<string>): Angle[] => {
+  if (deletedPointIds.size === 0) return angles;
+  return angles.filter(angle =>
+    !angle.armPointIds ||
+    (!deletedPointIds.has(angle.vertexPointId) && !angle.armPointIds.some(id => deletedPointIds.has(id)))
+  );
+};
 
 const getNextLabel = (existingLabels: string[]): string => {
   const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
@@ -14,14 +46,23 @@ const getNextLabel = (existingLabels: string[]): string => {
   return `L${existingLabels.length + 1}`;
 };
 
-const getNextAngleLabel = (existingLabels: string[]): string => {
+// Ratios that use a deleted line go with it
+const removeRatiosUsingLines = (ratios: LineRatio[], deletedLineIds: Set<string>): LineRatio[] => {
+  if (deletedLineIds.size === 0) return ratios;
+  return ratios.filter(ratio =>
+    !deletedLineIds.has(ratio.numeratorLineId) && !deletedLineIds.has(ratio.denominatorLineId)
+  );
+};
+
+// Numbered labels such as θ1, θ2 for angles or P1, P2 for polygons
+const getNextNumberedLabel = (prefix: string, existingLabels: string[]): string => {
   for (let i = 1; i <= 99; i++) {
-    const label = `θ${i}`;
+    const label = `${prefix}${i}`;
     if (!existingLabels.includes(label)) {
       return label;
     }
   }
-  return `θ${existingLabels.length + 1}`;
+  return `${prefix}${existingLabels.length + 1}`;
 };
 
 export const useDrawingState = () => {
@@ -29,24 +70,125 @@ export const useDrawingState = () => {
   const [lines, setLines] = useState<Line[]>([]);
   const [angles, setAngles] = useState<Angle[]>([]);
   const [circles, setCircles] = useState<Circle[]>([]);
+  const [polygons, setPolygons] = useState<Polygon[]>([]);
+  const [selectedPolygonIds, setSelectedPolygonIds] = useState<Set<string>>(new Set());
+  // Vertices clicked so far for the polygon being drawn
+  const [polygonDraftPointIds, setPolygonDraftPointIds] = useState<string[]>([]);
   const [selectedCircleIds, setSelectedCircleIds] = useState<Set<string>>(new Set());
+  const [circleToolMode, setCircleToolModeInternal] = useState<CircleToolMode>('click');
+  // Positions clicked so far for the point-based circle modes (not stored as points)
+  const [circleDraftPoints, setCircleDraftPoints] = useState<Vec2[]>([]);
   const [currentTool, setCurrentToolInternal] = useState<ToolType>('marker');
   const [activePointId, setActivePointId] = useState<string | null>(null);
   const [selectedPointIds, setSelectedPointIds] = useState<Set<string>>(new Set());
   const [selectedLineIds, setSelectedLineIds] = useState<Set<string>>(new Set());
   const [selectedAngleIds, setSelectedAngleIds] = useState<Set<string>>(new Set());
-  const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
   const [angleFirstLineId, setAngleFirstLineId] = useState<string | null>(null);
+  const [angleToolMode, setAngleToolModeInternal] = useState<AngleToolMode>('lines');
+  // Also create the two arm lines when measuring an angle from three points
+  const [createAngleArms, setCreateAngleArms] = useState(true);
+  // Points clicked so far in three-point mode: [arm1, vertex]
+  const [angleDraftPointIds, setAngleDraftPointIds] = useState<string[]>([]);
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [rectification, setRectification] = useState<Rectification | null>(null);
+  // Corners clicked so far with the rectify tool (image positions, not stored as points)
+  const [rectificationDraftCorners, setRectificationDraftCorners] = useState<Vec2[]>([]);
+  const [lensCorrection, setLensCorrection] = useState<LensCorrection | null>(null);
+  // Checkerboard corners clicked so far with the lens grid tool, row by row
+  const [lensGridDraftPoints, setLensGridDraftPoints] = useState<Vec2[]>([]);
+  const [ratios, setRatios] = useState<LineRatio[]>([]);
+  const [derivedMeasurements, setDerivedMeasurements] = useState<DerivedMeasurement[]>([]);
+  // Template being applied: its landmarks are placed one by one with the landmark tool,
+  // mapped by name to the points placed (or reused) so far
+  const [templatePlacement, setTemplatePlacement] = useState<{
+    template: MeasurementTemplate;
+    landmarkIds: Record<string, string>;
+  } | null>(null);
+  const [historyAvailability, setHistoryAvailability] = useState({ canUndo: false, canRedo: false });
+
+  const drawingDocument = useMemo<DrawingDocument>(
+    () => ({ points, lines, angles, circles, polygons, calibration, rectification, lensCorrection, ratios, derivedMeasurements }),
+    [points, lines, angles, circles, polygons, calibration, rectification, lensCorrection, ratios, derivedMeasurements],
+  );
+  // The document as measured: with a lens correction, every position is first moved to where
+  // it would be without distortion. Drawing and hit testing keep using the clicked positions.
+  const measurementDocument = useMemo<DrawingDocument>(
+    () => lensCorrection ? undistortDocument(drawingDocument, lensCorrection) : drawingDocument,
+    [drawingDocument, lensCorrection],
+  );
+  // Latest committed document, refreshed every render so history actions can
+  // snapshot it from event handlers without stale closures.
+  const documentRef = useRef<DrawingDocument>(drawingDocument);
+  documentRef.current = drawingDocument;
+  const undoStackRef = useRef<DrawingDocument[]>([]);
+  const redoStackRef = useRef<DrawingDocument[]>([]);
+  // Snapshot taken when a drag starts; the whole drag becomes one history entry
+  const transactionStartRef = useRef<DrawingDocument | null>(null);
+
+  const syncHistoryAvailability = useCallback(() => {
+    setHistoryAvailability({
+      canUndo: undoStackRef.current.length > 0,
+      canRedo: redoStackRef.current.length > 0,
+    });
+  }, []);
 
-  // Helper to find orphaned points (not connected to any line)
-  const findOrphanedPointIds = useCallback((currentLines: Line[], currentPoints: Point[]): string[] => {
+  const pushUndoSnapshot = useCallback((snapshot: DrawingDocument) => {
+    undoStackRef.current.push(snapshot);
+    if (undoStackRef.current.length > MAX_HISTORY) {
+      undoStackRef.current.shift();
+    }
+    redoStackRef.current = [];
+    syncHistoryAvailability();
+  }, [syncHistoryAvailability]);
+
+  // Call before any change to the document so it can be undone
+  const recordHistory = useCallback(() => {
+    // Inside a drag the snapshot from beginHistoryTransaction already covers it
+    if (transactionStartRef.current) return;
+    pushUndoSnapshot(documentRef.current);
+  }, [pushUndoSnapshot]);
+
+  const beginHistoryTransaction = useCallback(() => {
+    transactionStartRef.current = documentRef.current;
+  }, []);
+
+  const commitHistoryTransaction = useCallback(() => {
+    const snapshot = transactionStartRef.current;
+    transactionStartRef.current = null;
+    // A click without movement leaves the document untouched: nothing to record
+    if (!snapshot || isSameDocument(snapshot, documentRef.current)) return;
+    pushUndoSnapshot(snapshot);
+  }, [pushUndoSnapshot]);
+
+  const resetHistory = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    transactionStartRef.current = null;
+    syncHistoryAvailability();
+  }, [syncHistoryAvailability]);
+
+  // Helper to find orphaned points (not connected to any line or polygon)
+  const findOrphanedPointIds = useCallback((
+    currentLines: Line[],
+    currentPoints: Point[],
+    currentPolygons: Polygon[] = [],
+    currentAngles: Angle[] = [],
+  ): string[] => {
     const connectedPointIds = new Set<string>();
     currentLines.forEach(line => {
       connectedPointIds.add(line.startPointId);
       connectedPointIds.add(line.endPointId);
     });
+    currentPolygons.forEach(polygon => {
+      polygon.pointIds.forEach(id => connectedPointIds.add(id));
+    });
+    currentAngles.forEach(angle => {
+      if (!angle.armPointIds) return;
+      connectedPointIds.add(angle.vertexPointId);
+      angle.armPointIds.forEach(id => connectedPointIds.add(id));
+    });
     return currentPoints
-      .filter(p => !connectedPointIds.has(p.id))
+      .filter(p => !p.isLandmark && !connectedPointIds.has(p.id))
       .map(p => p.id);
   }, []);
 
@@ -56,51 +198,102 @@ export const useDrawingState = () => {
     if (tool !== 'circle') {
       setSelectedCircleIds(new Set());
     }
+    // An unfinished polygon or three-point angle is abandoned when switching tools
+    setPolygonDraftPointIds([]);
+    setAngleDraftPointIds([]);
+    setCircleDraftPoints([]);
+    setRectificationDraftCorners([]);
+    setLensGridDraftPoints([]);
+    setTemplatePlacement(null);
     
     if (tool === 'cursor') {
       // Cancel active point when switching to cursor
       setActivePointId(null);
       setAngleFirstLineId(null);
-      // Clean up orphaned points
-      setPoints(prevPoints => {
-        setLines(prevLines => {
-          const orphanedIds = findOrphanedPointIds(prevLines, prevPoints);
-          if (orphanedIds.length > 0) {
-            // Use setTimeout to avoid state update during render
-            setTimeout(() => {
-              setPoints(p => p.filter(point => !orphanedIds.includes(point.id)));
-            }, 0);
-          }
-          return prevLines;
-        });
-        return prevPoints;
-      });
+      // Clean up orphaned points as its own history step, so undo brings them back
+      const {
+        points: currentPoints,
+        lines: currentLines,
+        polygons: currentPolygons,
+        angles: currentAngles,
+      } = documentRef.current;
+      const orphanedIds = findOrphanedPointIds(currentLines, currentPoints, currentPolygons, currentAngles);
+      if (orphanedIds.length > 0) {
+        recordHistory();
+        setPoints(p => p.filter(point => !orphanedIds.includes(point.id)));
+      }
     } else if (tool === 'marker') {
       setAngleFirstLineId(null);
     } else if (tool === 'angle') {
       setActivePointId(null);
       setAngleFirstLineId(null);
-    } else if (tool === 'circle') {
+    } else if (tool === 'circle' || tool === 'polygon' || tool === 'landmark' || tool === 'crop' || tool === 'rectify' || tool === 'lensGrid') {
       setActivePointId(null);
       setAngleFirstLineId(null);
     }
     setCurrentToolInternal(tool);
-  }, [findOrphanedPointIds]);
+  }, [findOrphanedPointIds, recordHistory]);
 
   // Circle tool handlers
-  const handleCircleToolClick = useCallback((x: number, y: number) => {
+  const addCircle = useCallback((shape: Omit<Circle, 'id' | 'label'>) => {
+    recordHistory();
     const newCircle: Circle = {
       id: generateId(),
-      centerX: x,
-      centerY: y,
-      radius: DEFAULT_CIRCLE_RADIUS,
+      label: getNextNumberedLabel('C', circles.map(c => c.label)),
+      ...shape,
     };
     setCircles(prev => [...prev, newCircle]);
+  }, [recordHistory, circles]);
+
+  const addFittedCircle = useCallback((fit: FittedCircle, withResidual: boolean) => {
+    addCircle({
+      centerX: fit.centerX,
+      centerY: fit.centerY,
+      radius: fit.radius,
+      ...(withResidual ? { fitResidual: fit.residual } : {}),
+    });
+  }, [addCircle]);
+
+  const handleCircleToolClick = useCallback((x: number, y: number) => {
+    if (circleToolMode === 'click') {
+      addCircle({ centerX: x, centerY: y, radius: DEFAULT_CIRCLE_RADIUS });
+      return;
+    }
+
+    const draft = [...circleDraftPoints, { x, y }];
+    if (circleToolMode === 'diameter' && draft.length === 2) {
+      const fit = circleFromDiameter(draft[0], draft[1]);
+      if (fit) addFittedCircle(fit, false);
+      setCircleDraftPoints([]);
+    } else if (circleToolMode === 'threePoint' && draft.length === 3) {
+      const fit = circleFromThreePoints(draft[0], draft[1], draft[2]);
+      if (fit) {
+        addFittedCircle(fit, false);
+        setCircleDraftPoints([]);
+      } else {
+        // Collinear: keep the first two clicks and let the user pick another third point
+        setCircleDraftPoints(draft.slice(0, 2));
+      }
+    } else {
+      setCircleDraftPoints(draft);
+    }
+  }, [circleToolMode, circleDraftPoints, addCircle, addFittedCircle]);
+
+  // Finish a least-squares fit; needs at least three points
+  const finishCircleFit = useCallback(() => {
+    if (circleToolMode !== 'fit') return;
+    const fit = fitCircleLeastSquares(circleDraftPoints);
+    if (!fit) return;
+    addFittedCircle(fit, true);
+    setCircleDraftPoints([]);
+  }, [circleToolMode, circleDraftPoints, addFittedCircle]);
+
+  const setCircleToolMode = useCallback((mode: CircleToolMode) => {
+    setCircleToolModeInternal(mode);
+    setCircleDraftPoints([]);
   }, []);
 
   const selectCircle = useCallback((circleId: string, ctrlKey: boolean = false) => {
-    if (currentTool !== 'circle') return;
-    
     if (ctrlKey) {
       setSelectedCircleIds(prev => {
         const next = new Set(prev);
@@ -117,21 +310,23 @@ export const useDrawingState = () => {
       setSelectedPointIds(new Set());
       setSelectedLineIds(new Set());
       setSelectedAngleIds(new Set());
+      setSelectedPolygonIds(new Set());
     }
-  }, [currentTool]);
+  }, []);
 
   const updateCircle = useCallback((circleId: string, updates: Partial<Circle>) => {
     setCircles(prev => prev.map(c => c.id === circleId ? { ...c, ...updates } : c));
   }, []);
 
   const deleteCircle = useCallback((circleId: string) => {
+    recordHistory();
     setCircles(prev => prev.filter(c => c.id !== circleId));
     setSelectedCircleIds(prev => {
       const next = new Set(prev);
       next.delete(circleId);
       return next;
     });
-  }, []);
+  }, [recordHistory]);
 
   const addPoint = useCallback((x: number, y: number): string => {
     const newPoint: Point = { id: generateId(), x, y };
@@ -139,11 +334,26 @@ export const useDrawingState = () => {
     return newPoint.id;
   }, []);
 
-  const findPointAtPosition = useCallback((x: number, y: number, threshold = 15): Point | null => {
-    return points.find(p => {
-      const distance = Math.sqrt((p.x - x) ** 2 + (p.y - y) ** 2);
-      return distance <= threshold;
-    }) || null;
+  // Built on the first lookup after the points change, not on every change:
+  // dragging a point updates points every frame but never looks anything up
+  const pointIndexRef = useRef<{ points: Point[]; index: SpatialIndex<Point> } | null>(null);
+
+  // tolerance is in image pixels; the canvas converts its screen-pixel tolerance through the zoom scale
+  const findPointAtPosition = useCallback((x: number, y: number, tolerance: number): Point | null => {
+    if (pointIndexRef.current?.points !== points) {
+      pointIndexRef.current = { points, index: createSpatialIndex<Point>(points, getPointBounds) };
+    }
+    const position = { x, y };
+    let nearest: Point | null = null;
+    let nearestDistance = tolerance;
+    for (const p of pointIndexRef.current.index.queryRadius(position, tolerance)) {
+      const d = distance(p, position);
+      if (d <= nearestDistance) {
+        nearest = p;
+        nearestDistance = d;
+      }
+    }
+    return nearest;
   }, [points]);
 
   const lineExists = useCallback((pointId1: string, pointId2: string): boolean => {
@@ -153,28 +363,33 @@ export const useDrawingState = () => {
     );
   }, [lines]);
 
-  const handleCanvasClick = useCallback((x: number, y: number) => {
+  const handleCanvasClick = useCallback((x: number, y: number, tolerance: number) => {
     if (currentTool !== 'marker') return;
 
-    const existingPoint = findPointAtPosition(x, y);
+    const existingPoint = findPointAtPosition(x, y, tolerance);
 
     if (activePointId === null) {
       // No active point - start a new line
       if (existingPoint) {
         setActivePointId(existingPoint.id);
       } else {
+        recordHistory();
         const newPointId = addPoint(x, y);
         setActivePointId(newPointId);
       }
     } else {
       // Have an active point - complete the line
       let endPointId: string;
+
+      if (existingPoint?.id === activePointId) {
+        // Clicked same point, cancel
+        return;
+      }
+      if (!existingPoint || !lineExists(activePointId, existingPoint.id)) {
+        recordHistory();
+      }
       
       if (existingPoint) {
-        if (existingPoint.id === activePointId) {
-          // Clicked same point, cancel
-          return;
-        }
         endPointId = existingPoint.id;
       } else {
         endPointId = addPoint(x, y);
@@ -195,14 +410,192 @@ export const useDrawingState = () => {
       // Continue from the end point for continuous drawing
       setActivePointId(endPointId);
     }
-  }, [currentTool, activePointId, findPointAtPosition, addPoint, lineExists, lines]);
+  }, [currentTool, activePointId, findPointAtPosition, addPoint, lineExists, lines, recordHistory]);
+
+  const nextTemplateLandmark = useMemo(() => {
+    if (!templatePlacement) return null;
+    return getNextTemplateLandmark(templatePlacement.template, templatePlacement.landmarkIds, points);
+  }, [templatePlacement, points]);
+
+  // Create the template's lines, angles and ratios once all its landmarks are on the image
+  const applyTemplate = useCallback((
+    doc: DrawingDocument,
+    template: MeasurementTemplate,
+    landmarkIds: Record<string, string>,
+  ) => {
+    const next = applyTemplateMeasurements(doc, template, landmarkIds);
+    setLines(next.lines);
+    setAngles(next.angles);
+    setRatios(next.ratios);
+    setDerivedMeasurements(next.derivedMeasurements);
+    setTemplatePlacement(null);
+  }, []);
+
+  // Landmark tool: place a standalone named point, or promote an existing point to a landmark.
+  // While a template is being applied, the point is named after the template's next landmark
+  const handleLandmarkToolClick = useCallback((x: number, y: number, tolerance: number) => {
+    if (currentTool !== 'landmark') return;
+
+    const existingLabels = points.filter(p => p.isLandmark).map(p => p.label ?? '');
+    const label = nextTemplateLandmark ?? getNextNumberedLabel('M', existingLabels);
+    const existingPoint = findPointAtPosition(x, y, tolerance);
+    if (existingPoint?.isLandmark) return;
+
+    const placedPoint: Point = existingPoint
+      ? { ...existingPoint, isLandmark: true, label }
+      : { id: generateId(), x, y, isLandmark: true, label };
+    const nextPoints = existingPoint
+      ? points.map(p => p.id === existingPoint.id ? placedPoint : p)
+      : [...points, placedPoint];
+    recordHistory();
+    setPoints(nextPoints);
+
+    if (!templatePlacement || !nextTemplateLandmark) return;
+    const landmarkIds = { ...templatePlacement.landmarkIds, [nextTemplateLandmark]: placedPoint.id };
+    if (getNextTemplateLandmark(templatePlacement.template, landmarkIds, nextPoints)) {
+      setTemplatePlacement({ ...templatePlacement, landmarkIds });
+      return;
+    }
+    // The last landmark and the measurements it completes are one undo step
+    applyTemplate({ ...documentRef.current, points: nextPoints }, templatePlacement.template, landmarkIds);
+  }, [currentTool, points, nextTemplateLandmark, templatePlacement, findPointAtPosition, recordHistory, applyTemplate]);
+
+  // Landmarks already on the image under the template's names are reused; the rest are
+  // placed in order with the landmark tool
+  const startTemplatePlacement = useCallback((template: MeasurementTemplate) => {
+    const doc = documentRef.current;
+    const landmarkIds = findTemplateLandmarks(template, doc.points);
+    if (getNextTemplateLandmark(template, landmarkIds, doc.points)) {
+      setCurrentTool('landmark');
+      setTemplatePlacement({ template, landmarkIds });
+      return;
+    }
+    recordHistory();
+    applyTemplate(doc, template, landmarkIds);
+  }, [setCurrentTool, recordHistory, applyTemplate]);
+
+  const cancelTemplatePlacement = useCallback(() => {
+    setTemplatePlacement(null);
+  }, []);
+
+  // Store the length ratio of two lines as a named measurement
+  const addLineRatio = useCallback((numeratorLineId: string, denominatorLineId: string) => {
+    const exists = ratios.some(r => r.numeratorLineId === numeratorLineId && r.denominatorLineId === denominatorLineId);
+    if (exists || numeratorLineId === denominatorLineId) return;
+    recordHistory();
+    const newRatio: LineRatio = {
+      id: generateId(),
+      label: getNextNumberedLabel('R', ratios.map(r => r.label)),
+      numeratorLineId,
+      denominatorLineId,
+    };
+    setRatios(prev => [...prev, newRatio]);
+  }, [ratios, recordHistory]);
+
+  const deleteRatio = useCallback((ratioId: string) => {
+    recordHistory();
+    setRatios(prev => prev.filter(r => r.id !== ratioId));
+  }, [recordHistory]);
+
+  // Derived measurements only store the formula; values are computed from the current
+  // measurements, so a formula naming something that does not exist yet is still accepted.
+  // The name itself must be usable in later formulas and must not shadow a measurement
+  const validateDerivedMeasurement = useCallback((label: string, formula: string, ignoreId?: string) => {
+    if (!label) throw new Error('請輸入衍生測量的名稱');
+    if (!isFormulaName(label)) {
+      throw new Error(`「${label}」不能在公式裡引用，名稱只能用文字、數字與底線，並以文字開頭`);
+    }
+    if (getDocumentFormulaVariables(measurementDocument).has(label)) {
+      throw new Error(`「${label}」已經是線段、角度或其他測量的名稱`);
+    }
+    if (derivedMeasurements.some(d => d.id !== ignoreId && d.label === label)) {
+      throw new Error(`已經有名稱為「${label}」的衍生測量`);
+    }
+    parseFormula(formula);
+  }, [measurementDocument, derivedMeasurements]);
+
+  const addDerivedMeasurement = useCallback((label: string, formula: string) => {
+    const trimmedLabel = label.trim();
+    const trimmedFormula = formula.trim();
+    validateDerivedMeasurement(trimmedLabel, trimmedFormula);
+    recordHistory();
+    const measurement: DerivedMeasurement = { id: generateId(), label: trimmedLabel, formula: trimmedFormula };
+    setDerivedMeasurements(prev => [...prev, measurement]);
+    return measurement;
+  }, [validateDerivedMeasurement, recordHistory]);
+
+  const updateDerivedMeasurement = useCallback((id: string, label: string, formula: string) => {
+    const trimmedLabel = label.trim();
+    const trimmedFormula = formula.trim();
+    validateDerivedMeasurement(trimmedLabel, trimmedFormula, id);
+    recordHistory();
+    setDerivedMeasurements(prev => prev.map(d => d.id === id ? { ...d, label: trimmedLabel, formula: trimmedFormula } : d));
+  }, [validateDerivedMeasurement, recordHistory]);
+
+  const deleteDerivedMeasurement = useCallback((id: string) => {
+    recordHistory();
+    setDerivedMeasurements(prev => prev.filter(d => d.id !== id));
+  }, [recordHistory]);
+
+  const renamePoint = useCallback((pointId: string, label: string) => {
+    const trimmed = label.trim();
+    const point = points.find(p => p.id === pointId);
+    if (!point || !trimmed || point.label === trimmed) return;
+    recordHistory();
+    setPoints(prev => prev.map(p => p.id === pointId ? { ...p, label: trimmed } : p));
+  }, [points, recordHistory]);
+
+  // Close the polygon being drawn; needs at least three vertices
+  const finishPolygon = useCallback(() => {
+    if (polygonDraftPointIds.length < 3) return;
+    recordHistory();
+    const newPolygon: Polygon = {
+      id: generateId(),
+      label: getNextNumberedLabel('P', polygons.map(p => p.label)),
+      pointIds: polygonDraftPointIds,
+    };
+    setPolygons(prev => [...prev, newPolygon]);
+    setPolygonDraftPointIds([]);
+  }, [polygonDraftPointIds, polygons, recordHistory]);
+
+  const handlePolygonToolClick = useCallback((x: number, y: number, tolerance: number) => {
+    if (currentTool !== 'polygon') return;
+
+    const existingPoint = findPointAtPosition(x, y, tolerance);
+
+    // Clicking the first vertex again closes the polygon
+    if (existingPoint && polygonDraftPointIds.length >= 3 && existingPoint.id === polygonDraftPointIds[0]) {
+      finishPolygon();
+      return;
+    }
+    // A vertex can only be used once in the same polygon
+    if (existingPoint && polygonDraftPointIds.includes(existingPoint.id)) return;
+
+    let pointId: string;
+    if (existingPoint) {
+      pointId = existingPoint.id;
+    } else {
+      recordHistory();
+      pointId = addPoint(x, y);
+    }
+    setPolygonDraftPointIds(prev => [...prev, pointId]);
+  }, [currentTool, findPointAtPosition, polygonDraftPointIds, finishPolygon, recordHistory, addPoint]);
 
   // Helper to find orphaned points (used for deletion cleanup)
-  const findOrphanedPoints = useCallback((remainingLines: Line[], allPoints: Point[]): string[] => {
-    return findOrphanedPointIds(remainingLines, allPoints);
+  const findOrphanedPoints = useCallback((
+    remainingLines: Line[],
+    allPoints: Point[],
+    remainingPolygons: Polygon[],
+    remainingAngles: Angle[],
+  ): string[] => {
+    return findOrphanedPointIds(remainingLines, allPoints, remainingPolygons, remainingAngles);
   }, [findOrphanedPointIds]);
 
   const deletePoint = useCallback((pointId: string) => {
+    recordHistory();
+    const remainingPolygons = removeVerticesFromPolygons(polygons, new Set([pointId]));
+    setPolygons(remainingPolygons);
+    const remainingAngles = removeAnglesUsingPoints(angles, new Set([pointId]));
     setLines(prev => {
       const newLines = prev.filter(line => 
         line.startPointId !== pointId && line.endPointId !== pointId
@@ -210,7 +603,7 @@ export const useDrawingState = () => {
       // Clean up orphaned points after removing lines
       setPoints(prevPoints => {
         const remainingPoints = prevPoints.filter(p => p.id !== pointId);
-        const orphanedIds = findOrphanedPoints(newLines, remainingPoints);
+        const orphanedIds = findOrphanedPoints(newLines, remainingPoints, remainingPolygons, remainingAngles);
         return remainingPoints.filter(p => !orphanedIds.includes(p.id));
       });
       // Clean up angles that reference deleted lines
@@ -218,8 +611,10 @@ export const useDrawingState = () => {
         .filter(line => line.startPointId === pointId || line.endPointId === pointId)
         .map(l => l.id);
       setAngles(prevAngles => 
-        prevAngles.filter(a => !deletedLineIds.includes(a.line1Id) && !deletedLineIds.includes(a.line2Id))
+        removeAnglesUsingPoints(prevAngles, new Set([pointId]))
+          .filter(a => !deletedLineIds.includes(a.line1Id) && !deletedLineIds.includes(a.line2Id))
       );
+      setRatios(prevRatios => removeRatiosUsingLines(prevRatios, new Set(deletedLineIds)));
       return newLines;
     });
     
@@ -231,20 +626,22 @@ export const useDrawingState = () => {
       next.delete(pointId);
       return next;
     });
-  }, [activePointId, findOrphanedPoints]);
+  }, [activePointId, findOrphanedPoints, recordHistory, polygons, angles]);
 
   const deleteLine = useCallback((lineId: string) => {
+    recordHistory();
     setLines(prev => {
       const newLines = prev.filter(l => l.id !== lineId);
       // Clean up orphaned points after removing line
       setPoints(prevPoints => {
-        const orphanedIds = findOrphanedPoints(newLines, prevPoints);
+        const orphanedIds = findOrphanedPoints(newLines, prevPoints, polygons, angles);
         return prevPoints.filter(p => !orphanedIds.includes(p.id));
       });
       // Clean up angles that reference this line
       setAngles(prevAngles => 
         prevAngles.filter(a => a.line1Id !== lineId && a.line2Id !== lineId)
       );
+      setRatios(prevRatios => removeRatiosUsingLines(prevRatios, new Set([lineId])));
       return newLines;
     });
     setSelectedLineIds(prev => {
@@ -252,26 +649,44 @@ export const useDrawingState = () => {
       next.delete(lineId);
       return next;
     });
-  }, [findOrphanedPoints]);
+  }, [findOrphanedPoints, recordHistory, polygons, angles]);
 
   const deleteAngle = useCallback((angleId: string) => {
-    setAngles(prev => prev.filter(a => a.id !== angleId));
+    recordHistory();
+    const remainingAngles = angles.filter(a => a.id !== angleId);
+    setAngles(remainingAngles);
+    setPoints(prevPoints => {
+      const orphanedIds = findOrphanedPoints(lines, prevPoints, polygons, remainingAngles);
+      return prevPoints.filter(p => !orphanedIds.includes(p.id));
+    });
     setSelectedAngleIds(prev => {
       const next = new Set(prev);
       next.delete(angleId);
       return next;
     });
-  }, []);
+  }, [recordHistory, angles, lines, polygons, findOrphanedPoints]);
 
   const deleteSelected = useCallback(() => {
+    recordHistory();
+
     // Delete selected circles first
     if (selectedCircleIds.size > 0) {
       setCircles(prev => prev.filter(c => !selectedCircleIds.has(c.id)));
       setSelectedCircleIds(new Set());
     }
     
-    // Delete selected angles
-    setAngles(prev => prev.filter(a => !selectedAngleIds.has(a.id)));
+    // Delete selected angles, and point-defined angles that lose one of their points
+    const remainingAngles = removeAnglesUsingPoints(
+      angles.filter(a => !selectedAngleIds.has(a.id)),
+      selectedPointIds,
+    );
+
+    // Delete selected polygons, and drop selected points from the remaining ones
+    const remainingPolygons = removeVerticesFromPolygons(
+      polygons.filter(polygon => !selectedPolygonIds.has(polygon.id)),
+      selectedPointIds,
+    );
+    setPolygons(remainingPolygons);
     
     // Delete selected lines
     setLines(prev => {
@@ -289,14 +704,15 @@ export const useDrawingState = () => {
           selectedPointIds.has(line.startPointId) || selectedPointIds.has(line.endPointId)
         ).map(l => l.id)
       ]);
-      setAngles(prevAngles => 
-        prevAngles.filter(a => !deletedLineIds.has(a.line1Id) && !deletedLineIds.has(a.line2Id))
+      setAngles(
+        remainingAngles.filter(a => !deletedLineIds.has(a.line1Id) && !deletedLineIds.has(a.line2Id))
       );
+      setRatios(prevRatios => removeRatiosUsingLines(prevRatios, deletedLineIds));
       
       // Clean up orphaned points
       setPoints(prevPoints => {
         const remainingPoints = prevPoints.filter(p => !selectedPointIds.has(p.id));
-        const orphanedIds = findOrphanedPoints(newLines, remainingPoints);
+        const orphanedIds = findOrphanedPoints(newLines, remainingPoints, remainingPolygons, remainingAngles);
         return remainingPoints.filter(p => !orphanedIds.includes(p.id));
       });
       
@@ -312,20 +728,27 @@ export const useDrawingState = () => {
     setSelectedPointIds(new Set());
     setSelectedLineIds(new Set());
     setSelectedAngleIds(new Set());
-  }, [selectedLineIds, selectedPointIds, selectedAngleIds, activePointId, findOrphanedPoints, selectedCircleIds]);
+    setSelectedPolygonIds(new Set());
+  }, [selectedLineIds, selectedPointIds, selectedAngleIds, activePointId, findOrphanedPoints, selectedCircleIds, recordHistory, polygons, selectedPolygonIds, angles]);
 
   const clearAll = useCallback(() => {
+    recordHistory();
     setPoints([]);
     setLines([]);
     setAngles([]);
+    setPolygons([]);
+    setRatios([]);
+    setDerivedMeasurements([]);
     // setCircle(null);
     // setIsCircleSelected(false);
     setActivePointId(null);
     setAngleFirstLineId(null);
+    setPolygonDraftPointIds([]);
     setSelectedPointIds(new Set());
     setSelectedLineIds(new Set());
     setSelectedAngleIds(new Set());
-  }, []);
+    setSelectedPolygonIds(new Set());
+  }, [recordHistory]);
 
   const selectPoint = useCallback((pointId: string | null, ctrlKey: boolean = false) => {
     if (pointId === null) {
@@ -347,6 +770,8 @@ export const useDrawingState = () => {
       setSelectedPointIds(new Set([pointId]));
       setSelectedLineIds(new Set());
       setSelectedAngleIds(new Set());
+      setSelectedPolygonIds(new Set());
+      setSelectedCircleIds(new Set());
     }
   }, []);
 
@@ -370,6 +795,8 @@ export const useDrawingState = () => {
       setSelectedLineIds(new Set([lineId]));
       setSelectedPointIds(new Set());
       setSelectedAngleIds(new Set());
+      setSelectedPolygonIds(new Set());
+      setSelectedCircleIds(new Set());
     }
   }, []);
 
@@ -393,6 +820,33 @@ export const useDrawingState = () => {
       setSelectedAngleIds(new Set([angleId]));
       setSelectedPointIds(new Set());
       setSelectedLineIds(new Set());
+      setSelectedPolygonIds(new Set());
+      setSelectedCircleIds(new Set());
+    }
+  }, []);
+
+  const selectPolygon = useCallback((polygonId: string | null, ctrlKey: boolean = false) => {
+    if (polygonId === null) {
+      setSelectedPolygonIds(new Set());
+      return;
+    }
+
+    if (ctrlKey) {
+      setSelectedPolygonIds(prev => {
+        const next = new Set(prev);
+        if (next.has(polygonId)) {
+          next.delete(polygonId);
+        } else {
+          next.add(polygonId);
+        }
+        return next;
+      });
+    } else {
+      setSelectedPolygonIds(new Set([polygonId]));
+      setSelectedPointIds(new Set());
+      setSelectedLineIds(new Set());
+      setSelectedAngleIds(new Set());
+      setSelectedCircleIds(new Set());
     }
   }, []);
 
@@ -400,11 +854,19 @@ export const useDrawingState = () => {
     setSelectedPointIds(new Set());
     setSelectedLineIds(new Set());
     setSelectedAngleIds(new Set());
+    setSelectedPolygonIds(new Set());
+    setSelectedCircleIds(new Set());
   }, []);
 
   const cancelActivePoint = useCallback(() => {
     setActivePointId(null);
     setAngleFirstLineId(null);
+    setPolygonDraftPointIds([]);
+    setAngleDraftPointIds([]);
+    setCircleDraftPoints([]);
+    setRectificationDraftCorners([]);
+    setLensGridDraftPoints([]);
+    setTemplatePlacement(null);
   }, []);
 
   const getPointById = useCallback((id: string): Point | undefined => {
@@ -415,19 +877,110 @@ export const useDrawingState = () => {
     return lines.find(l => l.id === id);
   }, [lines]);
 
+  // Point positions used for measuring (lens-corrected when a correction is applied)
+  const measuredPointById = useMemo(
+    () => new Map(measurementDocument.points.map(p => [p.id, p])),
+    [measurementDocument],
+  );
+  const getMeasuredPointById = useCallback((id: string): Point | undefined => {
+    return measuredPointById.get(id);
+  }, [measuredPointById]);
+
   const calculateLineLength = useCallback((line: Line): number => {
-    const startPoint = getPointById(line.startPointId);
-    const endPoint = getPointById(line.endPointId);
+    const startPoint = getMeasuredPointById(line.startPointId);
+    const endPoint = getMeasuredPointById(line.endPointId);
     if (!startPoint || !endPoint) return 0;
     return Math.sqrt((endPoint.x - startPoint.x) ** 2 + (endPoint.y - startPoint.y) ** 2);
+  }, [getMeasuredPointById]);
+
+  const getPolygonVertices = useCallback((polygon: Polygon): Point[] => {
+    return polygon.pointIds
+      .map(id => getPointById(id))
+      .filter((p): p is Point => p !== undefined);
   }, [getPointById]);
 
+  const getMeasuredPolygonVertices = useCallback((polygon: Polygon): Point[] => {
+    return polygon.pointIds
+      .map(id => getMeasuredPointById(id))
+      .filter((p): p is Point => p !== undefined);
+  }, [getMeasuredPointById]);
+
+  const calculatePolygonArea = useCallback((polygon: Polygon): number => {
+    return polygonArea(getMeasuredPolygonVertices(polygon));
+  }, [getMeasuredPolygonVertices]);
+
+  const calculatePolygonPerimeter = useCallback((polygon: Polygon): number => {
+    return polygonPerimeter(getMeasuredPolygonVertices(polygon));
+  }, [getMeasuredPolygonVertices]);
+
   const updatePointPosition = useCallback((pointId: string, x: number, y: number) => {
     setPoints(prev => prev.map(p => 
       p.id === pointId ? { ...p, x, y } : p
     ));
   }, []);
 
+  // Calibrate real-world units from a reference line of known length.
+  // Throws when the line has zero length or the entered length is invalid.
+  const calibrateWithLine = useCallback((lineId: string, realLength: number, unit: LengthUnit) => {
+    const line = getLineById(lineId);
+    if (!line) {
+      throw new Error('找不到參考線段');
+    }
+    const next = createCalibration(lineId, calculateLineLength(line), realLength, unit);
+    recordHistory();
+    setCalibration(next);
+  }, [getLineById, calculateLineLength, recordHistory]);
+
+  const clearCalibration = useCallback(() => {
+    recordHistory();
+    setCalibration(null);
+  }, [recordHistory]);
+
+  // Rectify tool: collect the four rectangle corners; a fifth click starts over
+  const handleRectifyToolClick = useCallback((x: number, y: number) => {
+    if (currentTool !== 'rectify') return;
+    setRectificationDraftCorners(prev => prev.length >= 4 ? [{ x, y }] : [...prev, { x, y }]);
+  }, [currentTool]);
+
+  // Perspective rectification from the four clicked corners and the rectangle's real size.
+  // Throws when the corners or the entered size are invalid.
+  const applyRectification = useCallback((width: number, height: number, unit: LengthUnit) => {
+    const next = createRectification(rectificationDraftCorners, width, height, unit);
+    recordHistory();
+    setRectification(next);
+    setRectificationDraftCorners([]);
+  }, [rectificationDraftCorners, recordHistory]);
+
+  const clearRectification = useCallback(() => {
+    recordHistory();
+    setRectification(null);
+  }, [recordHistory]);
+
+  // Lens grid tool: checkerboard corners in reading order (top row first, left to right)
+  const handleLensGridToolClick = useCallback((x: number, y: number) => {
+    if (currentTool !== 'lensGrid') return;
+    setLensGridDraftPoints(prev => [...prev, { x, y }]);
+  }, [currentTool]);
+
+  const removeLastLensGridPoint = useCallback(() => {
+    setLensGridDraftPoints(prev => prev.slice(0, -1));
+  }, []);
+
+  const clearLensGridPoints = useCallback(() => {
+    setLensGridDraftPoints([]);
+  }, []);
+
+  // Measure through a camera profile's distortion correction from now on
+  const applyLensCorrection = useCallback((next: LensCorrection) => {
+    recordHistory();
+    setLensCorrection(next);
+  }, [recordHistory]);
+
+  const clearLensCorrection = useCallback(() => {
+    recordHistory();
+    setLensCorrection(null);
+  }, [recordHistory]);
+
   // Find common point between two lines
   const findCommonPoint = useCallback((line1: Line, line2: Line): string | null => {
     if (line1.startPointId === line2.startPointId || line1.startPointId === line2.endPointId) {
@@ -439,35 +992,11 @@ export const useDrawingState = () => {
     return null;
   }, []);
 
-  // Calculate angle between two lines at their common vertex
-  const calculateAngleBetweenLines = useCallback((line1: Line, line2: Line, vertexPointId: string): number => {
-    const vertex = getPointById(vertexPointId);
-    if (!vertex) return 0;
-
-    // Get the other point of each line (not the vertex)
-    const p1Id = line1.startPointId === vertexPointId ? line1.endPointId : line1.startPointId;
-    const p2Id = line2.startPointId === vertexPointId ? line2.endPointId : line2.startPointId;
-    
-    const p1 = getPointById(p1Id);
-    const p2 = getPointById(p2Id);
-    
-    if (!p1 || !p2) return 0;
-
-    // Calculate vectors from vertex to each point
-    const v1 = { x: p1.x - vertex.x, y: p1.y - vertex.y };
-    const v2 = { x: p2.x - vertex.x, y: p2.y - vertex.y };
-
-    // Calculate angle using dot product
-    const dot = v1.x * v2.x + v1.y * v2.y;
-    const mag1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
-    const mag2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y);
-    
-    if (mag1 === 0 || mag2 === 0) return 0;
-    
-    const cosAngle = Math.max(-1, Math.min(1, dot / (mag1 * mag2)));
-    const angleRad = Math.acos(cosAngle);
-    return angleRad * (180 / Math.PI);
-  }, [getPointById]);
+  // Measure an angle from its current geometry (arm lines or arm points)
+  const calculateAngleDegrees = useCallback((angle: Angle): number => {
+    const rays = resolveAngleRays(angle, getMeasuredPointById, lines);
+    return rays ? angleBetweenRays(rays) : 0;
+  }, [getMeasuredPointById, lines]);
 
   // Handle line click for angle tool
   const handleAngleToolLineClick = useCallback((lineId: string) => {
@@ -483,53 +1012,198 @@ export const useDrawingState = () => {
       const line2 = getLineById(lineId);
       
       if (line1 && line2) {
+        // Lines without a shared endpoint are measured at their virtual intersection
         const commonPointId = findCommonPoint(line1, line2);
+
+        // Check if angle already exists
+        const angleExists = angles.some(a => 
+          (a.line1Id === angleFirstLineId && a.line2Id === lineId) ||
+          (a.line1Id === lineId && a.line2Id === angleFirstLineId)
+        );
         
-        if (commonPointId) {
-          // Check if angle already exists
-          const angleExists = angles.some(a => 
-            (a.line1Id === angleFirstLineId && a.line2Id === lineId) ||
-            (a.line1Id === lineId && a.line2Id === angleFirstLineId)
-          );
-          
-          if (!angleExists) {
-            const degrees = calculateAngleBetweenLines(line1, line2, commonPointId);
-            const existingLabels = angles.map(a => a.label);
-            const newAngle: Angle = {
-              id: generateId(),
-              label: getNextAngleLabel(existingLabels),
-              line1Id: angleFirstLineId,
-              line2Id: lineId,
-              vertexPointId: commonPointId,
-              degrees,
-            };
-            setAngles(prev => [...prev, newAngle]);
-          }
+        if (!angleExists) {
+          recordHistory();
+          const existingLabels = angles.map(a => a.label);
+          const newAngle: Angle = {
+            id: generateId(),
+            label: getNextNumberedLabel('θ', existingLabels),
+            line1Id: angleFirstLineId,
+            line2Id: lineId,
+            vertexPointId: commonPointId ?? undefined,
+            degrees: 0,
+          };
+          newAngle.degrees = calculateAngleDegrees(newAngle);
+          setAngles(prev => [...prev, newAngle]);
         }
       }
       setAngleFirstLineId(null);
     }
-  }, [angleFirstLineId, getLineById, findCommonPoint, calculateAngleBetweenLines, angles]);
+  }, [angleFirstLineId, getLineById, findCommonPoint, calculateAngleDegrees, angles, recordHistory]);
+
+  // Three-point angle: click arm point, vertex, then the other arm point
+  const handleAngleToolPointClick = useCallback((x: number, y: number, tolerance: number) => {
+    if (currentTool !== 'angle' || angleToolMode !== 'points') return;
+
+    const existingPoint = findPointAtPosition(x, y, tolerance);
+    if (existingPoint && angleDraftPointIds.includes(existingPoint.id)) return;
+
+    const completesAngle = angleDraftPointIds.length === 2;
+    if (!existingPoint || completesAngle) {
+      recordHistory();
+    }
+    const pointPositions = new Map(points.map(p => [p.id, { x: p.x, y: p.y }]));
+    let pointId: string;
+    if (existingPoint) {
+      pointId = existingPoint.id;
+    } else {
+      pointId = addPoint(x, y);
+      pointPositions.set(pointId, { x, y });
+    }
+
+    const draft = [...angleDraftPointIds, pointId];
+    if (!completesAngle) {
+      setAngleDraftPointIds(draft);
+      return;
+    }
+
+    const [arm1Id, vertexId, arm2Id] = draft;
+    const newAngle: Angle = {
+      id: generateId(),
+      label: getNextNumberedLabel('θ', angles.map(a => a.label)),
+      vertexPointId: vertexId,
+      degrees: 0,
+    };
+
+    const newLines: Line[] = [];
+    if (createAngleArms) {
+      const existingLabels = lines.map(l => l.label);
+      const armLineId = (armId: string) => {
+        const existing = lines.find(line =>
+          (line.startPointId === vertexId && line.endPointId === armId) ||
+          (line.startPointId === armId && line.endPointId === vertexId)
+        );
+        if (existing) return existing.id;
+        const label = getNextLabel([...existingLabels, ...newLines.map(l => l.label)]);
+        const line: Line = { id: generateId(), label, startPointId: vertexId, endPointId: armId };
+        newLines.push(line);
+        return line.id;
+      };
+      newAngle.line1Id = armLineId(arm1Id);
+      newAngle.line2Id = armLineId(arm2Id);
+      setLines(prev => [...prev, ...newLines]);
+    } else {
+      newAngle.armPointIds = [arm1Id, arm2Id];
+    }
+
+    const rays = resolveAngleRays(newAngle, id => pointPositions.get(id), [...lines, ...newLines]);
+    newAngle.degrees = rays ? angleBetweenRays(rays) : 0;
+    setAngles(prev => [...prev, newAngle]);
+    setAngleDraftPointIds([]);
+  }, [currentTool, angleToolMode, findPointAtPosition, angleDraftPointIds, recordHistory, points, addPoint, angles, createAngleArms, lines]);
+
+  const setAngleDisplayMode = useCallback((angleId: string, mode: AngleDisplayMode) => {
+    const angle = angles.find(a => a.id === angleId);
+    if (!angle || (angle.displayMode ?? 'interior') === mode) return;
+    recordHistory();
+    setAngles(prev => prev.map(a => a.id === angleId ? { ...a, displayMode: mode } : a));
+  }, [angles, recordHistory]);
+
+  const setAngleToolMode = useCallback((mode: AngleToolMode) => {
+    setAngleToolModeInternal(mode);
+    setAngleFirstLineId(null);
+    setAngleDraftPointIds([]);
+  }, []);
 
   // Recalculate all angles when points change
   const recalculateAngles = useCallback(() => {
-    setAngles(prev => prev.map(angle => {
-      const line1 = getLineById(angle.line1Id);
-      const line2 = getLineById(angle.line2Id);
-      if (!line1 || !line2) return angle;
-      const degrees = calculateAngleBetweenLines(line1, line2, angle.vertexPointId);
-      return { ...angle, degrees };
-    }));
-  }, [getLineById, calculateAngleBetweenLines]);
+    setAngles(prev => prev.map(angle => ({ ...angle, degrees: calculateAngleDegrees(angle) })));
+  }, [calculateAngleDegrees]);
+
+  // Replace the whole document; selections may point at entities that no longer exist
+  const applyDocument = useCallback((doc: DrawingDocument) => {
+    setPoints(doc.points);
+    setLines(doc.lines);
+    setAngles(doc.angles);
+    setCircles(doc.circles);
+    setPolygons(doc.polygons);
+    setCalibration(doc.calibration);
+    setRectification(doc.rectification);
+    setLensCorrection(doc.lensCorrection);
+    setRatios(doc.ratios);
+    setDerivedMeasurements(doc.derivedMeasurements);
+    setActivePointId(null);
+    setAngleFirstLineId(null);
+    setSelectedPointIds(new Set());
+    setSelectedLineIds(new Set());
+    setSelectedAngleIds(new Set());
+    setSelectedCircleIds(new Set());
+    setSelectedPolygonIds(new Set());
+    setPolygonDraftPointIds([]);
+    setAngleDraftPointIds([]);
+    setCircleDraftPoints([]);
+    setRectificationDraftCorners([]);
+    setLensGridDraftPoints([]);
+  }, []);
+
+  const undo = useCallback(() => {
+    transactionStartRef.current = null;
+    const previous = undoStackRef.current.pop();
+    if (!previous) return;
+    redoStackRef.current.push(documentRef.current);
+    applyDocument(previous);
+    syncHistoryAvailability();
+  }, [applyDocument, syncHistoryAvailability]);
+
+  const redo = useCallback(() => {
+    transactionStartRef.current = null;
+    const next = redoStackRef.current.pop();
+    if (!next) return;
+    undoStackRef.current.push(documentRef.current);
+    applyDocument(next);
+    syncHistoryAvailability();
+  }, [applyDocument, syncHistoryAvailability]);
+
+  const getDocument = useCallback((): DrawingDocument => documentRef.current, []);
+
+  // Load a saved document (e.g. from a project file); previous history does not apply to it
+  const loadDocument = useCallback((doc: DrawingDocument) => {
+    applyDocument(doc);
+    setTemplatePlacement(null);
+    resetHistory();
+  }, [applyDocument, resetHistory]);
+
+  // The image itself was redrawn (rotated, flipped, cropped, undistorted): move every
+  // annotation with it. Undo/redo snapshots are remapped too, so they still line up with
+  // the new image; the change itself is not an undo step (rotating back restores the original).
+  const remapAllDocuments = useCallback((
+    remapDocument: (doc: DrawingDocument) => DrawingDocument,
+    remapPoint: (p: Vec2) => Vec2,
+  ) => {
+    transactionStartRef.current = null;
+    undoStackRef.current = undoStackRef.current.map(remapDocument);
+    redoStackRef.current = redoStackRef.current.map(remapDocument);
+    const next = remapDocument(documentRef.current);
+    setPoints(next.points);
+    setCircles(next.circles);
+    setRectification(next.rectification);
+    setLensCorrection(next.lensCorrection);
+    setCircleDraftPoints(prev => prev.map(remapPoint));
+    setRectificationDraftCorners(prev => prev.map(remapPoint));
+    setLensGridDraftPoints(prev => prev.map(remapPoint));
+  }, []);
 
-  const hasSelection = selectedPointIds.size > 0 || selectedLineIds.size > 0 || selectedAngleIds.size > 0 || selectedCircleIds.size > 0;
+  const hasSelection = selectedPointIds.size > 0 || selectedLineIds.size > 0 || selectedAngleIds.size > 0 ||
+    selectedCircleIds.size > 0 || selectedPolygonIds.size > 0;
 
   return {
     points,
     lines,
     angles,
     circles,
+    polygons,
     selectedCircleIds,
+    selectedPolygonIds,
+    polygonDraftPointIds,
     currentTool,
     setCurrentTool,
     activePointId,
@@ -537,15 +1211,39 @@ export const useDrawingState = () => {
     selectedPointIds,
     selectedLineIds,
     selectedAngleIds,
-    mousePosition,
-    setMousePosition,
     handleCanvasClick,
     handleCircleToolClick,
+    finishCircleFit,
+    circleToolMode,
+    setCircleToolMode,
+    circleDraftPoints,
     handleAngleToolLineClick,
+    handleAngleToolPointClick,
+    setAngleDisplayMode,
+    angleToolMode,
+    setAngleToolMode,
+    angleDraftPointIds,
+    createAngleArms,
+    setCreateAngleArms,
+    handlePolygonToolClick,
+    finishPolygon,
+    handleLandmarkToolClick,
+    templatePlacement,
+    nextTemplateLandmark,
+    startTemplatePlacement,
+    cancelTemplatePlacement,
+    renamePoint,
     deletePoint,
     deleteLine,
     deleteAngle,
     deleteCircle,
+    ratios,
+    addLineRatio,
+    deleteRatio,
+    derivedMeasurements,
+    addDerivedMeasurement,
+    updateDerivedMeasurement,
+    deleteDerivedMeasurement,
     deleteSelected,
     clearAll,
     setCircles,
@@ -554,14 +1252,45 @@ export const useDrawingState = () => {
     selectLine,
     selectAngle,
     selectCircle,
+    selectPolygon,
     updateCircle,
     clearSelection,
     cancelActivePoint,
     getPointById,
     getLineById,
     calculateLineLength,
+    getPolygonVertices,
+    calculatePolygonArea,
+    calculatePolygonPerimeter,
     updatePointPosition,
     recalculateAngles,
     hasSelection,
+    calibration,
+    calibrateWithLine,
+    clearCalibration,
+    rectification,
+    rectificationDraftCorners,
+    handleRectifyToolClick,
+    applyRectification,
+    clearRectification,
+    lensCorrection,
+    lensGridDraftPoints,
+    handleLensGridToolClick,
+    removeLastLensGridPoint,
+    clearLensGridPoints,
+    applyLensCorrection,
+    clearLensCorrection,
+    undo,
+    redo,
+    canUndo: historyAvailability.canUndo,
+    canRedo: historyAvailability.canRedo,
+    beginHistoryTransaction,
+    commitHistoryTransaction,
+    resetHistory,
+    drawingDocument,
+    measurementDocument,
+    getDocument,
+    loadDocument,
+    remapAllDocuments,
   };
 };
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MeasurementTemplate } from '@/types/drawing';
+import { MeasurementTemplateDefinition } from '@/lib/measurementTemplate';
+import { deleteMeasurementTemplate, listMeasurementTemplates, saveMeasurementTemplate } from '@/lib/sessionStore';
+
+const generateTemplateId = () => `template-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+// 量測範本清單（存在 IndexedDB）。同名的範本會被覆蓋，方便修改既有的流程
+export const useMeasurementTemplates = () => {
+  const [templates, setTemplates] = useState<MeasurementTemplate[]>([]);
+
+  const refreshTemplates = useCallback(async () => {
+    try {
+      setTemplates(await listMeasurementTemplates());
+    } catch (err) {
+      console.warn('讀取量測範本失敗:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  const saveTemplate = useCallback(async (definition: MeasurementTemplateDefinition): Promise<MeasurementTemplate> => {
+    const existing = templates.find(t => t.name === definition.name);
+    const template: MeasurementTemplate = {
+      ...definition,
+      id: existing?.id ?? generateTemplateId(),
+      createdAt: Date.now(),
+    };
+    await saveMeasurementTemplate(template);
+    await refreshTemplates();
+    return template;
+  }, [templates, refreshTemplates]);
+
+  const removeTemplate = useCallback(async (id: string) => {
+    try {
+      await deleteMeasurementTemplate(id);
+    } catch (err) {
+      console.warn('刪除量測範本失敗:', err);
+    }
+    await refreshTemplates();
+  }, [refreshTemplates]);
+
+  return {
+    templates,
+    saveTemplate,
+    removeTemplate,
+  };
+};
@@ -0,0 +1,133 @@
+import { useState, useCallback, useMemo } from 'react';
+import { DrawingDocument } from '@/types/drawing';
+import { EMPTY_DOCUMENT, ProjectImage, createProjectImage } from '@/lib/projectFile';
+
+interface UseProjectImagesOptions {
+  drawingDocument: DrawingDocument;
+  getDocument: () => DrawingDocument;
+  loadDocument: (doc: DrawingDocument) => void;
+}
+
+// 上傳或貼上的一張圖片；沒有檔名（例如貼上）時自動編號
+export interface ImageSource {
+  src: string;
+  name?: string;
+}
+
+interface ImageCollection {
+  images: ProjectImage[];
+  activeImageId: string;
+}
+
+const createCollection = (): ImageCollection => {
+  const first = createProjectImage(null, '圖片 1');
+  return { images: [first], activeImageId: first.id };
+};
+
+// 專案裡的所有圖片。正在編輯的那張以 image 狀態與 useDrawingState 的文件為準，
+// 清單裡存的那一份只在切換圖片時才更新；要存檔時用 projectImages（已換成最新的內容）。
+// 每張圖片各自有標記與校正，切換圖片時復原紀錄會重新開始
+export const useProjectImages = ({ drawingDocument, getDocument, loadDocument }: UseProjectImagesOptions) => {
+  const [image, setImage] = useState<string | null>(null);
+  const [collection, setCollection] = useState<ImageCollection>(createCollection);
+  const { images, activeImageId } = collection;
+
+  const projectImages = useMemo(
+    () => images.map(entry => entry.id === activeImageId ? { ...entry, image, document: drawingDocument } : entry),
+    [images, activeImageId, image, drawingDocument],
+  );
+
+  // 把目前這張的最新內容寫回清單，再切換到 next
+  const activate = useCallback((nextImages: ProjectImage[], next: ProjectImage) => {
+    setCollection({ images: nextImages, activeImageId: next.id });
+    loadDocument(next.document);
+    setImage(next.image);
+  }, [loadDocument]);
+
+  const storeActive = useCallback((): ProjectImage[] => {
+    return images.map(entry => entry.id === activeImageId ? { ...entry, image, document: getDocument() } : entry);
+  }, [images, activeImageId, image, getDocument]);
+
+  // 上傳或貼上的圖片一次加進來：目前這張還沒有圖片時，第一張直接放進來（保留已經畫好的標記），
+  // 其餘接在後面；否則全部新增，並切換到新增的第一張
+  const addImages = useCallback((sources: ImageSource[]) => {
+    if (sources.length === 0) return;
+    const stored = storeActive();
+    const fillsActive = image === null;
+    const appended = (fillsActive ? sources.slice(1) : sources).map((source, i) =>
+      createProjectImage(source.src, source.name ?? `圖片 ${stored.length + i + 1}`, EMPTY_DOCUMENT)
+    );
+    if (!fillsActive) {
+      activate([...stored, ...appended], appended[0]);
+      return;
+    }
+    const [{ src, name }] = sources;
+    setImage(src);
+    setCollection({
+      images: [
+        ...stored.map(entry => entry.id === activeImageId ? { ...entry, image: src, name: name ?? entry.name } : entry),
+        ...appended,
+      ],
+      activeImageId,
+    });
+  }, [image, activeImageId, activate, storeActive]);
+
+  const addImage = useCallback((src: string, name?: string) => {
+    addImages([{ src, name }]);
+  }, [addImages]);
+
+  // document：切換的同時換掉目標圖片的標記（批次量測沿用上一張的標記當起點）
+  const switchImage = useCallback((id: string, document?: DrawingDocument) => {
+    if (id === activeImageId) return;
+    const stored = storeActive();
+    const target = stored.find(entry => entry.id === id);
+    if (!target) return;
+    const next = document ? { ...target, document } : target;
+    activate(stored.map(entry => entry.id === id ? next : entry), next);
+  }, [activeImageId, storeActive, activate]);
+
+  // 移除最後一張時回到空白專案；回傳 true 表示專案已經清空
+  const removeImage = useCallback((id: string): boolean => {
+    const index = images.findIndex(entry => entry.id === id);
+    if (index === -1) return false;
+    if (images.length === 1) {
+      const fresh = createCollection();
+      activate(fresh.images, fresh.images[0]);
+      return true;
+    }
+    const remaining = storeActive().filter(entry => entry.id !== id);
+    if (id === activeImageId) {
+      activate(remaining, remaining[Math.min(index, remaining.length - 1)]);
+    } else {
+      setCollection({ images: remaining, activeImageId });
+    }
+    return false;
+  }, [images, activeImageId, storeActive, activate]);
+
+  const renameImage = useCallback((id: string, name: string) => {
+    setCollection(prev => ({
+      ...prev,
+      images: prev.images.map(entry => entry.id === id ? { ...entry, name } : entry),
+    }));
+  }, []);
+
+  // 開啟專案或工作階段
+  const loadImages = useCallback((nextImages: ProjectImage[], nextActiveId: string) => {
+    const active = nextImages.find(entry => entry.id === nextActiveId) ?? nextImages[0];
+    activate(nextImages, active);
+  }, [activate]);
+
+  return {
+    image,
+    setImage,
+    images,
+    projectImages,
+    activeImageId,
+    addImage,
+    addImages,
+    switchImage,
+    removeImage,
+    renameImage,
+    loadImages,
+  };
+};
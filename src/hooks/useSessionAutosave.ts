@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createProjectFile, ProjectFile, ProjectImage, ProjectViewSettings } from '@/lib/projectFile';
+import {
+  SavedSession,
+  SessionImageChanges,
+  deleteSession,
+  listSessions,
+  saveSession,
+  summarizeProject,
+} from '@/lib/sessionStore';
+import { createThumbnail } from '@/lib/thumbnail';
+
+const AUTOSAVE_DELAY = 1000;
+
+const generateSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+// 已經寫進 IndexedDB 的圖片（圖片 id → data URL），屬於哪個工作階段
+interface StoredImages {
+  sessionId: string;
+  images: Map<string, string>;
+}
+
+const collectStoredImages = (sessionId: string, images: ProjectImage[]): StoredImages => ({
+  sessionId,
+  images: new Map(images.flatMap(({ id, image }) => image ? [[id, image] as const] : [])),
+});
+
+// 跟上次存的比較，只列出新增、換過內容或移除的圖片
+const diffImages = (stored: Map<string, string>, images: ProjectImage[]): SessionImageChanges => ({
+  changed: images.flatMap(({ id, image }) => image && stored.get(id) !== image ? [{ id, image }] : []),
+  removedIds: Array.from(stored.keys()).filter(id => !images.some(entry => entry.id === id && entry.image)),
+});
+
+interface UseSessionAutosaveOptions {
+  images: ProjectImage[];
+  activeImageId: string;
+  viewSettings: ProjectViewSettings;
+}
+
+// 有變動就（延遲一秒）把專案裡的圖片與繪圖資料存進 IndexedDB，
+// 分頁意外關閉後可以從「最近的工作階段」找回來。圖片只在新增或改變時寫入，平常只存繪圖資料。
+export const useSessionAutosave = ({ images, activeImageId, viewSettings }: UseSessionAutosaveOptions) => {
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState(generateSessionId);
+  // 同一張圖片不用每次存檔都重新產生縮圖
+  const thumbnailCacheRef = useRef<{ image: string; thumbnail: string } | null>(null);
+  const storedImagesRef = useRef<StoredImages>(collectStoredImages(currentSessionId, []));
+
+  const refreshSessions = useCallback(async (): Promise<SavedSession[]> => {
+    try {
+      const list = await listSessions();
+      setSessions(list);
+      return list;
+    } catch (err) {
+      console.warn('讀取工作階段失敗:', err);
+      return [];
+    }
+  }, []);
+
+  const getThumbnail = useCallback(async (source: string | null): Promise<string | null> => {
+    if (!source) return null;
+    if (thumbnailCacheRef.current?.image === source) {
+      return thumbnailCacheRef.current.thumbnail;
+    }
+    const thumbnail = await createThumbnail(source);
+    thumbnailCacheRef.current = { image: source, thumbnail };
+    return thumbnail;
+  }, []);
+
+  const hasContent = images.some(({ image, document }) =>
+    image !== null ||
+    document.points.length > 0 ||
+    document.circles.length > 0
+  );
+  // 縮圖用目前正在看的那張
+  const activeImage = images.find(entry => entry.id === activeImageId)?.image ?? null;
+
+  useEffect(() => {
+    // 空白畫面沒有存的價值，也避免一打開頁面就產生空的工作階段
+    if (!hasContent) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const project = createProjectFile(images, activeImageId, viewSettings);
+        // 換了工作階段（新的或剛開啟的）就跟那一筆比較
+        if (storedImagesRef.current.sessionId !== currentSessionId) {
+          storedImagesRef.current = collectStoredImages(currentSessionId, []);
+        }
+        const stored = storedImagesRef.current;
+        const imageChanges = diffImages(stored.images, images);
+        await saveSession({
+          id: currentSessionId,
+          updatedAt: Date.now(),
+          thumbnail: await getThumbnail(activeImage),
+          summary: summarizeProject(project),
+        }, project, imageChanges);
+        imageChanges.changed.forEach(({ id, image }) => stored.images.set(id, image));
+        imageChanges.removedIds.forEach(id => stored.images.delete(id));
+        // 清單只有縮圖與摘要，重新讀取很便宜
+        await refreshSessions();
+      } catch (err) {
+        console.warn('自動儲存失敗:', err);
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [hasContent, currentSessionId, images, activeImageId, activeImage, viewSettings, getThumbnail, refreshSessions]);
+
+  // 開啟舊的工作階段後，之後的自動儲存要更新那一筆，而不是另外新增一筆；
+  // 開啟時讀到的圖片已經在資料庫裡，不用再寫一次
+  const adoptSession = useCallback((sessionId: string, project: ProjectFile) => {
+    storedImagesRef.current = collectStoredImages(sessionId, project.images);
+    setCurrentSessionId(sessionId);
+  }, []);
+
+  const startNewSession = useCallback(() => {
+    setCurrentSessionId(generateSessionId());
+  }, []);
+
+  const removeSession = useCallback(async (sessionId: string) => {
+    try {
+      await deleteSession(sessionId);
+    } catch (err) {
+      console.warn('刪除工作階段失敗:', err);
+    }
+    if (sessionId === currentSessionId) {
+      setCurrentSessionId(generateSessionId());
+    }
+    await refreshSessions();
+  }, [currentSessionId, refreshSessions]);
+
+  return {
+    sessions,
+    currentSessionId,
+    refreshSessions,
+    adoptSession,
+    startNewSession,
+    removeSession,
+  };
+};
@@ -0,0 +1,226 @@
+import { Angle, AngleDisplayMode, Line } from '@/types/drawing';
+import { Vec2, distance } from '@/lib/geometry';
+
+// 角度的兩條射線：從頂點出發，分別經過 arm1、arm2
+export interface AngleRays {
+  vertex: Vec2;
+  arm1: Vec2;
+  arm2: Vec2;
+}
+
+type PositionLookup = (pointId: string) => Vec2 | undefined;
+
+export type Segment = [Vec2, Vec2];
+
+// 角度的完整幾何：
+// rays：兩射線，guides 是從線段端點延伸到虛擬交點的輔助虛線（共點時為空）
+// parallel：兩條線平行，沒有交點，角度視為 0°
+export type AngleGeometry =
+  | { kind: 'rays'; rays: AngleRays; guides: Segment[] }
+  | { kind: 'parallel'; segment1: Segment; segment2: Segment };
+
+// 兩線方向的 sin 值小於這個門檻就當作平行，避免交點跑到無限遠
+const PARALLEL_EPSILON = 1e-9;
+
+const otherEnd = (line: Line, vertexPointId: string) => {
+  return line.startPointId === vertexPointId ? line.endPointId : line.startPointId;
+};
+
+const getSegment = (line: Line, getPosition: PositionLookup): Segment | null => {
+  const start = getPosition(line.startPointId);
+  const end = getPosition(line.endPointId);
+  return start && end ? [start, end] : null;
+};
+
+// 兩條線段所在直線的交點；平行（或退化成一點）時回傳 null
+export const intersectLines = ([a1, a2]: Segment, [b1, b2]: Segment): Vec2 | null => {
+  const d1 = { x: a2.x - a1.x, y: a2.y - a1.y };
+  const d2 = { x: b2.x - b1.x, y: b2.y - b1.y };
+  const cross = d1.x * d2.y - d1.y * d2.x;
+  const len1 = Math.hypot(d1.x, d1.y);
+  const len2 = Math.hypot(d2.x, d2.y);
+  if (len1 === 0 || len2 === 0 || Math.abs(cross) / (len1 * len2) < PARALLEL_EPSILON) return null;
+
+  const t = ((b1.x - a1.x) * d2.y - (b1.y - a1.y) * d2.x) / cross;
+  return { x: a1.x + t * d1.x, y: a1.y + t * d1.y };
+};
+
+// 不共點的線段：射線從交點指向線段上離交點較遠的端點，也就是線段實際所在的那一側
+const farEnd = ([start, end]: Segment, from: Vec2) => {
+  return distance(from, start) > distance(from, end) ? start : end;
+};
+
+// 交點落在線段外時，從較近的端點畫一條延長線到交點
+const extensionGuide = ([start, end]: Segment, to: Vec2): Segment | null => {
+  const length = distance(start, end);
+  if (distance(start, to) <= length && distance(end, to) <= length) return null;
+  return [distance(start, to) < distance(end, to) ? start : end, to];
+};
+
+// 依角度的定義方式（共點線段、不共點線段的虛擬交點，或直接點選的三個點）找出角度幾何
+export const resolveAngleGeometry = (
+  angle: Angle,
+  getPosition: PositionLookup,
+  lines: Line[],
+): AngleGeometry | null => {
+  if (angle.armPointIds) {
+    const vertex = angle.vertexPointId ? getPosition(angle.vertexPointId) : undefined;
+    const arm1 = getPosition(angle.armPointIds[0]);
+    const arm2 = getPosition(angle.armPointIds[1]);
+    if (!vertex || !arm1 || !arm2) return null;
+    return { kind: 'rays', rays: { vertex, arm1, arm2 }, guides: [] };
+  }
+
+  const line1 = lines.find(l => l.id === angle.line1Id);
+  const line2 = lines.find(l => l.id === angle.line2Id);
+  if (!line1 || !line2) return null;
+
+  if (angle.vertexPointId) {
+    const vertex = getPosition(angle.vertexPointId);
+    const arm1 = getPosition(otherEnd(line1, angle.vertexPointId));
+    const arm2 = getPosition(otherEnd(line2, angle.vertexPointId));
+    if (!vertex || !arm1 || !arm2) return null;
+    return { kind: 'rays', rays: { vertex, arm1, arm2 }, guides: [] };
+  }
+
+  const segment1 = getSegment(line1, getPosition);
+  const segment2 = getSegment(line2, getPosition);
+  if (!segment1 || !segment2) return null;
+
+  const vertex = intersectLines(segment1, segment2);
+  if (!vertex) return { kind: 'parallel', segment1, segment2 };
+
+  return {
+    kind: 'rays',
+    rays: { vertex, arm1: farEnd(segment1, vertex), arm2: farEnd(segment2, vertex) },
+    guides: [extensionGuide(segment1, vertex), extensionGuide(segment2, vertex)]
+      .filter((guide): guide is Segment => guide !== null),
+  };
+};
+
+// 只需要射線時的簡便版本；平行線沒有射線，回傳 null
+export const resolveAngleRays = (
+  angle: Angle,
+  getPosition: PositionLookup,
+  lines: Line[],
+): AngleRays | null => {
+  const geometry = resolveAngleGeometry(angle, getPosition, lines);
+  return geometry?.kind === 'rays' ? geometry.rays : null;
+};
+
+// 兩射線的夾角（0–180°）
+export const angleBetweenRays = ({ vertex, arm1, arm2 }: AngleRays): number => {
+  const v1 = { x: arm1.x - vertex.x, y: arm1.y - vertex.y };
+  const v2 = { x: arm2.x - vertex.x, y: arm2.y - vertex.y };
+  const mag1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
+  const mag2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y);
+  if (mag1 === 0 || mag2 === 0) return 0;
+
+  const cosAngle = Math.max(-1, Math.min(1, (v1.x * v2.x + v1.y * v2.y) / (mag1 * mag2)));
+  return Math.acos(cosAngle) * (180 / Math.PI);
+};
+
+export const ANGLE_DISPLAY_MODES: AngleDisplayMode[] = [
+  'interior',
+  'reflex',
+  'supplementary',
+  'signedClockwise',
+  'signedCounterClockwise',
+];
+
+export const ANGLE_DISPLAY_MODE_LABELS: Record<AngleDisplayMode, string> = {
+  interior: '內角',
+  reflex: '優角 (360° − θ)',
+  supplementary: '補角 (180° − θ)',
+  signedClockwise: '有號角（順時針為正）',
+  signedCounterClockwise: '有號角（逆時針為正）',
+};
+
+const normalizeSweep = (sweep: number) => {
+  if (sweep > Math.PI) return sweep - 2 * Math.PI;
+  if (sweep < -Math.PI) return sweep + 2 * Math.PI;
+  return sweep;
+};
+
+// 依顯示模式決定圓弧從第一條邊出發要轉多少（弧度，正值在畫面上是順時針，因為 y 軸朝下）
+const getModeSweep = ({ vertex, arm1, arm2 }: AngleRays, mode: AngleDisplayMode) => {
+  const angle1 = Math.atan2(arm1.y - vertex.y, arm1.x - vertex.x);
+  const angle2 = Math.atan2(arm2.y - vertex.y, arm2.x - vertex.x);
+  const sweep = normalizeSweep(angle2 - angle1);
+
+  switch (mode) {
+    case 'reflex':
+      // 走另一側：同一組邊，但繞遠路
+      return { angle1, sweep: sweep - Math.sign(sweep || 1) * 2 * Math.PI };
+    case 'supplementary':
+      // 第一條邊與第二條邊反向延長線之間的角
+      return { angle1, sweep: normalizeSweep(angle2 + Math.PI - angle1) };
+    default:
+      return { angle1, sweep };
+  }
+};
+
+// 依顯示模式換算出要顯示的角度值（有號模式可能是負的）
+export const measureAngle = (rays: AngleRays, mode: AngleDisplayMode = 'interior'): number => {
+  const { sweep } = getModeSweep(rays, mode);
+  const degrees = sweep * (180 / Math.PI);
+  if (mode === 'signedClockwise') return degrees;
+  if (mode === 'signedCounterClockwise') return -degrees;
+  return Math.abs(degrees);
+};
+
+// 有號模式明確標出正負號，其他模式維持原本的「xx.x°」
+export const formatAngleDegrees = (degrees: number, mode: AngleDisplayMode = 'interior'): string => {
+  const text = `${Math.abs(degrees).toFixed(1)}°`;
+  if (mode !== 'signedClockwise' && mode !== 'signedCounterClockwise') return text;
+  return degrees < 0 ? `−${text}` : `+${text}`;
+};
+
+export interface AngleArc {
+  path: string;      // 圓弧路徑
+  fillPath: string;  // 扇形填充路徑（從起點畫弧，再連回頂點，最後封閉）
+  labelX: number;
+  labelY: number;
+  degrees: number;   // 依顯示模式換算後的角度
+}
+
+// 圓弧所在的圓與掃過的範圍；畫圓弧與判斷有沒有點到圓弧共用
+export interface AngleArcSpan {
+  vertex: Vec2;
+  radius: number;
+  startAngle: number; // 弧度，從第一條邊出發
+  sweep: number;      // 正值在畫面上是順時針
+}
+
+export const getAngleArcSpan = (rays: AngleRays, mode: AngleDisplayMode = 'interior'): AngleArcSpan => {
+  const { vertex, arm1, arm2 } = rays;
+  // 取短邊的 30% 作為半徑，但最小不小於 20，最大不超過 50
+  const radius = Math.max(20, Math.min(50, Math.min(distance(vertex, arm1), distance(vertex, arm2)) * 0.3));
+  const { angle1, sweep } = getModeSweep(rays, mode);
+  return { vertex, radius, startAngle: angle1, sweep };
+};
+
+// 畫出顯示模式對應那一側的圓弧（內角與有號角畫較小的一側）
+export const getAngleArc = (rays: AngleRays, mode: AngleDisplayMode = 'interior'): AngleArc => {
+  const { vertex, radius, startAngle: angle1, sweep: sweepAngle } = getAngleArcSpan(rays, mode);
+  const angle2 = angle1 + sweepAngle;
+
+  const startX = vertex.x + radius * Math.cos(angle1);
+  const startY = vertex.y + radius * Math.sin(angle1);
+  const endX = vertex.x + radius * Math.cos(angle2);
+  const endY = vertex.y + radius * Math.sin(angle2);
+
+  const largeArc = Math.abs(sweepAngle) > Math.PI ? 1 : 0;
+  const sweep = sweepAngle > 0 ? 1 : 0;
+
+  const midAngle = angle1 + sweepAngle / 2;
+  const arc = `M ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} ${sweep} ${endX} ${endY}`;
+
+  return {
+    path: arc,
+    fillPath: `${arc} L ${vertex.x} ${vertex.y} Z`,
+    labelX: vertex.x + (radius + 20) * Math.cos(midAngle), // 標籤離動態圓弧遠一點
+    labelY: vertex.y + (radius + 20) * Math.sin(midAngle),
+    degrees: measureAngle(rays, mode),
+  };
+};
@@ -0,0 +1,96 @@
+import { Angle, Calibration, Circle, Line } from '@/types/drawing';
+import { Vec2, polygonArea } from '@/lib/geometry';
+import { formatArea, formatLength } from '@/lib/calibration';
+import { Segment, formatAngleDegrees, getAngleArc, measureAngle, resolveAngleGeometry } from '@/lib/angleGeometry';
+
+// 標記的顏色、標籤文字與版面。SVG 與 Canvas 兩種繪製方式都從這裡取值，畫出來才會一致
+
+export const ACCENT_COLOR = 'hsl(var(--accent))';
+export const PRIMARY_COLOR = 'hsl(var(--primary))';
+export const MARKER_COLOR = 'hsl(var(--marker-color))';
+export const SELECTED_GLOW_COLOR = 'hsl(var(--selected-glow))';
+export const CIRCLE_COLOR = '#ef4444';
+export const SELECTED_CIRCLE_COLOR = '#3b82f6';
+export const POLYGON_COLOR = '#f59e0b';
+export const LANDMARK_COLOR = '#f97316';
+export const ANGLE_FILL_COLOR = '#2dd4bf';
+
+export const getLabelWidth = (label: string) => {
+  const charCount = label.length;
+  return Math.max(24, charCount * 10 + 8);
+};
+
+export const getLineColor = (lineId: string, selectedLineIds: Set<string>, angleFirstLineId: string | null) => {
+  const selectedArray = Array.from(selectedLineIds);
+  const index = selectedArray.indexOf(lineId);
+
+  if (angleFirstLineId === lineId) return PRIMARY_COLOR;
+
+  if (index === -1) return ACCENT_COLOR; // 未選取：翡翠綠
+
+  // 第一條選取：天藍色，第二條選取：深藍色
+  return index === 0 ? '#7dd3fc' : '#0369a1';
+};
+
+export const getLineLabelText = (line: Line, lengthPx: number, showLengthLabels: boolean, calibration: Calibration | null) => {
+  if (showLengthLabels) {
+    // 未校正時維持原本只顯示數字的精簡標籤
+    return calibration ? formatLength(lengthPx, calibration) : lengthPx.toFixed(1);
+  }
+  return line.label;
+};
+
+export const getPolygonLabelText = (label: string, positions: Vec2[], showLengthLabels: boolean, calibration: Calibration | null) => {
+  if (showLengthLabels) {
+    return formatArea(polygonArea(positions), calibration);
+  }
+  return label;
+};
+
+export const getCircleLabelText = (circle: Circle, showLengthLabels: boolean, calibration: Calibration | null) => {
+  if (showLengthLabels) {
+    return `⌀ ${formatLength(circle.radius * 2, calibration)}`;
+  }
+  return circle.label;
+};
+
+export interface AngleDisplay {
+  path: string | null;
+  fillPath: string | null;
+  guides: Segment[];
+  labelX: number;
+  labelY: number;
+  labelText: string;
+}
+
+// 不共點的線段另外回傳延長到虛擬交點的輔助線；平行線沒有圓弧，標籤放在兩線中間。
+// 有鏡頭校正時，圓弧照畫面上的位置畫，度數則用 measure 換算後的位置量
+export const getAngleDisplay = (
+  angle: Angle,
+  lookup: (pointId: string) => Vec2 | undefined,
+  lines: Line[],
+  measure?: (p: Vec2) => Vec2,
+): AngleDisplay | null => {
+  const geometry = resolveAngleGeometry(angle, lookup, lines);
+  if (!geometry) return null;
+  if (geometry.kind === 'parallel') {
+    const [a1, a2] = geometry.segment1;
+    const [b1, b2] = geometry.segment2;
+    return {
+      path: null,
+      fillPath: null,
+      guides: [],
+      labelX: (a1.x + a2.x + b1.x + b2.x) / 4,
+      labelY: (a1.y + a2.y + b1.y + b2.y) / 4,
+      labelText: '平行 (0°)',
+    };
+  }
+  const mode = angle.displayMode ?? 'interior';
+  const arc = getAngleArc(geometry.rays, mode);
+  const measured = measure && resolveAngleGeometry(angle, id => {
+    const p = lookup(id);
+    return p ? measure(p) : undefined;
+  }, lines);
+  const degrees = measured?.kind === 'rays' ? measureAngle(measured.rays, mode) : arc.degrees;
+  return { ...arc, guides: geometry.guides, labelText: formatAngleDegrees(degrees, mode) };
+};
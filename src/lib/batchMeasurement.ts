@@ -0,0 +1,94 @@
+import { DrawingDocument, LengthUnit } from '@/types/drawing';
+import { buildMeasurementReport, getReportRows, toCsvLine } from '@/lib/measurementExport';
+
+export const BATCH_EXPORT_FORMAT = 'draw-measure-batch';
+
+// 彙整表只放測量值；座標、組成線段之類的描述欄位留在單張圖片的長表格
+const BATCH_PROPERTIES: Record<string, string[]> = {
+  line: ['length_px', 'length', 'length_rectified'],
+  angle: ['degrees', 'degrees_rectified'],
+  circle: ['diameter_px', 'diameter', 'area_px', 'area'],
+  polygon: ['area_px', 'perimeter_px', 'area', 'perimeter', 'area_rectified', 'perimeter_rectified'],
+  ratio: ['ratio'],
+  derived: ['value'],
+};
+
+export interface BatchImageInput {
+  name: string;
+  document: DrawingDocument;
+}
+
+export interface BatchImageRow {
+  image: string;
+  unit: LengthUnit | null; // 各張圖片的校正單位可能不同
+  values: Record<string, number | null>; // 這張圖片沒有的測量項目為 null
+}
+
+export interface BatchMeasurementReport {
+  format: typeof BATCH_EXPORT_FORMAT;
+  exportedAt: string;
+  columns: string[];
+  images: BatchImageRow[];
+}
+
+export const hasAnnotations = (doc: DrawingDocument): boolean => {
+  return doc.points.length > 0 || doc.circles.length > 0;
+};
+
+// 沿用上一張的標記當起點：只複製幾何，校正屬於各自的圖片，保留目標圖片原本的設定
+export const copyDocumentGeometry = (source: DrawingDocument, target: DrawingDocument): DrawingDocument => ({
+  ...target,
+  points: source.points,
+  lines: source.lines,
+  angles: source.angles,
+  circles: source.circles,
+  polygons: source.polygons,
+  ratios: source.ratios,
+  derivedMeasurements: source.derivedMeasurements,
+});
+
+// 一張圖片一列、一個測量值一欄；欄位依第一次出現的順序排列，方便跨圖片比較同一個測量項目
+export const buildBatchReport = (inputs: BatchImageInput[]): BatchMeasurementReport => {
+  const columns: string[] = [];
+  const measured = inputs.map(({ name, document }) => {
+    const report = buildMeasurementReport(document);
+    // 每一對線段的比值會讓欄位暴增，彙整表只留有名稱的比值
+    const rows = getReportRows({ ...report, ratios: report.ratios.filter(ratio => ratio.label) });
+    const values: Record<string, number> = {};
+    const addValue = (column: string, value: number) => {
+      if (!columns.includes(column)) columns.push(column);
+      values[column] = value;
+    };
+    rows.forEach(row => {
+      if (!BATCH_PROPERTIES[row.type]?.includes(row.property) || typeof row.value !== 'number') return;
+      addValue(`${row.label} ${row.property}`, row.value);
+      // 角度依各自的顯示方式（優角、補角、有號角）另外一欄，跟表格與單張匯出顯示的數值一致
+      if (row.type === 'angle' && row.property === 'degrees') {
+        const angle = report.angles.find(a => a.label === row.label);
+        if (angle) addValue(`${row.label} display`, angle.displayDegrees);
+      }
+    });
+    return { image: name, unit: report.calibration?.unit ?? null, values };
+  });
+
+  return {
+    format: BATCH_EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    columns,
+    images: measured.map(row => ({
+      ...row,
+      values: Object.fromEntries(columns.map(column => [column, row.values[column] ?? null])),
+    })),
+  };
+};
+
+export const serializeBatchJson = (report: BatchMeasurementReport): string => {
+  return JSON.stringify(report, null, 2);
+};
+
+export const serializeBatchCsv = (report: BatchMeasurementReport): string => {
+  const header = ['image', 'unit', ...report.columns];
+  const rows = report.images.map(row => [row.image, row.unit, ...report.columns.map(column => row.values[column])]);
+  // 跟單張的 CSV 一樣加上 BOM，讓 Excel 用 UTF-8 開啟
+  return '\uFEFF' + [header, ...rows].map(toCsvLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,64 @@
+import { Calibration, LengthUnit } from '@/types/drawing';
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'in', 'µm'];
+
+// 各單位顯示的小數位數：單位越大，需要的小數位越多才有意義
+const UNIT_DIGITS: Record<LengthUnit, number> = {
+  mm: 2,
+  cm: 3,
+  in: 3,
+  'µm': 1,
+};
+
+export const createCalibration = (
+  referenceLineId: string | null,
+  pixelLength: number,
+  realLength: number,
+  unit: LengthUnit,
+): Calibration => {
+  if (!(pixelLength > 0)) {
+    throw new Error('參考線段長度為 0，無法校正');
+  }
+  if (!Number.isFinite(realLength) || realLength <= 0) {
+    throw new Error('實際長度必須是大於 0 的數字');
+  }
+  return { referenceLineId, pixelLength, realLength, unit };
+};
+
+// 每 1 像素等於多少實際單位
+export const getUnitsPerPixel = (calibration: Calibration): number => {
+  return calibration.realLength / calibration.pixelLength;
+};
+
+export const toRealLength = (pixels: number, calibration: Calibration): number => {
+  return pixels * getUnitsPerPixel(calibration);
+};
+
+export const getLengthUnitLabel = (calibration: Calibration | null): string => {
+  return calibration ? calibration.unit : 'px';
+};
+
+// 面積要乘上比例的平方
+export const toRealArea = (squarePixels: number, calibration: Calibration): number => {
+  return squarePixels * getUnitsPerPixel(calibration) ** 2;
+};
+
+// 已經是實際單位的數值（例如透視校正後的測量結果）
+export const formatRealLength = (value: number, unit: LengthUnit): string => {
+  return `${value.toFixed(UNIT_DIGITS[unit])} ${unit}`;
+};
+
+export const formatRealArea = (value: number, unit: LengthUnit): string => {
+  return `${value.toFixed(UNIT_DIGITS[unit])} ${unit}²`;
+};
+
+// 未校正時維持原本的「xx.x px」，校正後改用實際單位
+export const formatLength = (pixels: number, calibration: Calibration | null): string => {
+  if (!calibration) return `${pixels.toFixed(1)} px`;
+  return formatRealLength(toRealLength(pixels, calibration), calibration.unit);
+};
+
+export const formatArea = (squarePixels: number, calibration: Calibration | null): string => {
+  if (!calibration) return `${squarePixels.toFixed(0)} px²`;
+  return formatRealArea(toRealArea(squarePixels, calibration), calibration.unit);
+};
@@ -0,0 +1,236 @@
+import { Angle, Calibration, Circle, LensCorrection, Line, Point, Polygon } from '@/types/drawing';
+import { Vec2, distance, polygonCentroid } from '@/lib/geometry';
+import {
+  ANGLE_FILL_COLOR,
+  ACCENT_COLOR,
+  CIRCLE_COLOR,
+  LANDMARK_COLOR,
+  MARKER_COLOR,
+  POLYGON_COLOR,
+  PRIMARY_COLOR,
+  SELECTED_CIRCLE_COLOR,
+  SELECTED_GLOW_COLOR,
+  getAngleDisplay,
+  getCircleLabelText,
+  getLabelWidth,
+  getLineColor,
+  getLineLabelText,
+  getPolygonLabelText,
+} from '@/lib/annotationStyle';
+import { createMeasurePosition, undistortCircle } from '@/lib/lensDistortion';
+
+// Canvas 繪製方式：把所有標記整理成一串「繪圖指令」再畫到 2D canvas 上。
+// 形狀一律用 SVG path 字串描述（Path2D 可以直接吃），尺寸、顏色、順序都跟 SVG 版本一一對應。
+
+export interface AnnotationScene {
+  points: Point[];
+  lines: Line[];
+  angles: Angle[];
+  circles: Circle[];
+  polygons: Polygon[];
+  selectedPointIds: Set<string>;
+  selectedLineIds: Set<string>;
+  selectedAngleIds: Set<string>;
+  selectedCircleIds: Set<string>;
+  selectedPolygonIds: Set<string>;
+  activePointId: string | null;
+  angleFirstLineId: string | null;
+  showLengthLabels: boolean;
+  calibration: Calibration | null;
+  lensCorrection: LensCorrection | null; // 標籤上的數值用還原畸變後的位置量
+}
+
+// 標籤屬於哪個標記；canvas 繪製方式沒有 SVG 熱區，點選時靠它找出點到的標籤
+export interface AnnotationTarget {
+  kind: 'point' | 'line' | 'angle' | 'circle' | 'polygon';
+  id: string;
+}
+
+export type DisplayShape =
+  | {
+      kind: 'path';
+      d: string;
+      fill?: string;
+      fillOpacity?: number;
+      stroke?: string;
+      strokeWidth?: number;
+      dash?: number[];
+      opacity?: number;
+      lineJoin?: CanvasLineJoin;
+      glow?: string; // 選取中的點外圍的光暈
+    }
+  | {
+      kind: 'label';
+      x: number; // 底色方塊的左上角
+      y: number;
+      width: number;
+      height: number;
+      text: string;
+      background: string;
+      target?: AnnotationTarget; // 獨立標記點的名稱不能點選，沒有 target
+    };
+
+const linePath = (a: Vec2, b: Vec2) => `M ${a.x} ${a.y} L ${b.x} ${b.y}`;
+
+const circlePath = ({ x, y }: Vec2, r: number) =>
+  `M ${x - r} ${y} A ${r} ${r} 0 1 0 ${x + r} ${y} A ${r} ${r} 0 1 0 ${x - r} ${y} Z`;
+
+const polygonPath = (positions: Vec2[]) =>
+  positions.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + ' Z';
+
+// 以 (x, y) 為中心的標籤
+const centeredLabel = (
+  target: AnnotationTarget,
+  x: number,
+  y: number,
+  text: string,
+  background: string,
+  minWidth = 0,
+  height = 20,
+): DisplayShape => {
+  const width = Math.max(minWidth, getLabelWidth(text));
+  return { kind: 'label', x: x - width / 2, y: y - height / 2, width, height, text, background, target };
+};
+
+export const buildDisplayList = (scene: AnnotationScene): DisplayShape[] => {
+  const { showLengthLabels, calibration, lensCorrection } = scene;
+  const measure = createMeasurePosition(lensCorrection);
+  const pointById = new Map(scene.points.map(p => [p.id, p]));
+  const shapes: DisplayShape[] = [];
+
+  // 圓：虛線圓周、圓心十字與名稱（最底層）
+  scene.circles.forEach(circle => {
+    const isSelected = scene.selectedCircleIds.has(circle.id);
+    const stroke = isSelected ? SELECTED_CIRCLE_COLOR : CIRCLE_COLOR;
+    const center = { x: circle.centerX, y: circle.centerY };
+    shapes.push({ kind: 'path', d: circlePath(center, circle.radius), stroke, strokeWidth: isSelected ? 3 : 2, dash: [4, 2], opacity: 0.8 });
+    shapes.push({ kind: 'path', d: linePath({ x: center.x - 12, y: center.y }, { x: center.x + 12, y: center.y }), stroke: CIRCLE_COLOR, strokeWidth: 1.5 });
+    shapes.push({ kind: 'path', d: linePath({ x: center.x, y: center.y - 12 }, { x: center.x, y: center.y + 12 }), stroke: CIRCLE_COLOR, strokeWidth: 1.5 });
+    shapes.push({ kind: 'path', d: circlePath(center, 2), fill: 'white', stroke: CIRCLE_COLOR, strokeWidth: 1 });
+    shapes.push(centeredLabel({ kind: 'circle', id: circle.id }, center.x, center.y - circle.radius - 14, getCircleLabelText(lensCorrection ? undistortCircle(lensCorrection, circle) : circle, showLengthLabels, calibration), stroke));
+  });
+
+  // 多邊形：半透明填色與面積標籤（畫在線段下方）
+  scene.polygons.forEach(polygon => {
+    const positions = polygon.pointIds
+      .map(id => pointById.get(id))
+      .filter((p): p is Point => p !== undefined);
+    if (positions.length < 3) return;
+    const isSelected = scene.selectedPolygonIds.has(polygon.id);
+    const color = isSelected ? PRIMARY_COLOR : POLYGON_COLOR;
+    shapes.push({
+      kind: 'path',
+      d: polygonPath(positions),
+      fill: color,
+      fillOpacity: isSelected ? 0.25 : 0.15,
+      stroke: color,
+      strokeWidth: isSelected ? 3 : 2,
+      lineJoin: 'round',
+    });
+    const centroid = polygonCentroid(positions);
+    shapes.push(centeredLabel({ kind: 'polygon', id: polygon.id }, centroid.x, centroid.y, getPolygonLabelText(polygon.label, positions.map(measure), showLengthLabels, calibration), color));
+  });
+
+  // 線段與名稱（或長度）標籤
+  scene.lines.forEach(line => {
+    const start = pointById.get(line.startPointId);
+    const end = pointById.get(line.endPointId);
+    if (!start || !end) return;
+    const isWide = scene.selectedLineIds.has(line.id) || scene.angleFirstLineId === line.id;
+    const color = getLineColor(line.id, scene.selectedLineIds, scene.angleFirstLineId);
+    shapes.push({ kind: 'path', d: linePath(start, end), stroke: color, strokeWidth: isWide ? 3 : 2 });
+    const text = getLineLabelText(line, distance(measure(start), measure(end)), showLengthLabels, calibration);
+    shapes.push(centeredLabel({ kind: 'line', id: line.id }, (start.x + end.x) / 2, (start.y + end.y) / 2, text, color));
+  });
+
+  // 角度：輔助虛線、扇形、圓弧與度數標籤
+  scene.angles.forEach(angle => {
+    const display = getAngleDisplay(angle, id => pointById.get(id), scene.lines, measure);
+    if (!display) return;
+    const color = scene.selectedAngleIds.has(angle.id) ? PRIMARY_COLOR : ACCENT_COLOR;
+    display.guides.forEach(([from, to]) => {
+      shapes.push({ kind: 'path', d: linePath(from, to), stroke: color, strokeWidth: 1.5, dash: [6, 4], opacity: 0.8 });
+    });
+    if (display.path && display.fillPath) {
+      shapes.push({ kind: 'path', d: display.fillPath, fill: ANGLE_FILL_COLOR, fillOpacity: 0.3 });
+      shapes.push({ kind: 'path', d: display.path, stroke: color, strokeWidth: scene.selectedAngleIds.has(angle.id) ? 3 : 2 });
+    }
+    shapes.push(centeredLabel({ kind: 'angle', id: angle.id }, display.labelX, display.labelY, display.labelText, color, 50, 24));
+  });
+
+  // 點（最上層）；獨立標記點的名稱在右上方
+  scene.points.forEach(point => {
+    const isActive = scene.activePointId === point.id;
+    const isSelected = scene.selectedPointIds.has(point.id);
+    shapes.push({
+      kind: 'path',
+      d: circlePath(point, isActive || isSelected ? 8 : 6),
+      fill: point.isLandmark ? LANDMARK_COLOR : isActive ? ACCENT_COLOR : MARKER_COLOR,
+      stroke: 'white',
+      strokeWidth: 2,
+      glow: isSelected ? SELECTED_GLOW_COLOR : undefined,
+    });
+    if (point.isLandmark && point.label) {
+      shapes.push({
+        kind: 'label',
+        x: point.x + 10,
+        y: point.y - 22,
+        width: getLabelWidth(point.label),
+        height: 18,
+        text: point.label,
+        background: LANDMARK_COLOR,
+      });
+    }
+  });
+
+  return shapes;
+};
+
+// 把 hsl(var(--accent)) 這類寫法換成目前主題實際的值，canvas 不認得 CSS 變數
+export const createCssColorResolver = (element: Element) => {
+  const style = getComputedStyle(element);
+  return (color: string) => color.replace(/var\((--[\w-]+)\)/g, (_, name: string) => style.getPropertyValue(name).trim());
+};
+
+export const drawDisplayList = (
+  ctx: CanvasRenderingContext2D,
+  shapes: DisplayShape[],
+  resolveColor: (color: string) => string,
+  fontFamily: string,
+) => {
+  shapes.forEach(shape => {
+    ctx.save();
+    if (shape.kind === 'path') {
+      const path = new Path2D(shape.d);
+      const opacity = shape.opacity ?? 1;
+      if (shape.glow) {
+        ctx.shadowColor = resolveColor(shape.glow);
+        ctx.shadowBlur = 6;
+      }
+      if (shape.fill) {
+        ctx.globalAlpha = opacity * (shape.fillOpacity ?? 1);
+        ctx.fillStyle = resolveColor(shape.fill);
+        ctx.fill(path);
+      }
+      if (shape.stroke) {
+        ctx.globalAlpha = opacity;
+        ctx.strokeStyle = resolveColor(shape.stroke);
+        ctx.lineWidth = shape.strokeWidth ?? 1;
+        ctx.setLineDash(shape.dash ?? []);
+        if (shape.lineJoin) ctx.lineJoin = shape.lineJoin;
+        ctx.stroke(path);
+      }
+    } else {
+      ctx.fillStyle = resolveColor(shape.background);
+      ctx.beginPath();
+      ctx.roundRect(shape.x, shape.y, shape.width, shape.height, 4);
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.font = `bold 12px ${fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(shape.text, shape.x + shape.width / 2, shape.y + shape.height / 2);
+    }
+    ctx.restore();
+  });
+};
@@ -0,0 +1,95 @@
+import { Vec2, distance, midpoint } from '@/lib/geometry';
+
+export interface FittedCircle {
+  centerX: number;
+  centerY: number;
+  radius: number;
+  residual: number; // 各點到圓周距離的均方根（px）；三點與直徑定圓恆為 0
+}
+
+// 三點共線（或重合）時求不出圓；以三角形面積相對於邊長的比例判斷
+const COLLINEAR_EPSILON = 1e-9;
+
+// 通過三點的外接圓
+export const circleFromThreePoints = (a: Vec2, b: Vec2, c: Vec2): FittedCircle | null => {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  const scale = Math.max(distance(a, b), distance(b, c), distance(a, c)) ** 2;
+  if (scale === 0 || Math.abs(d) / scale < COLLINEAR_EPSILON) return null;
+
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  const centerX = (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d;
+  const centerY = (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d;
+
+  return { centerX, centerY, radius: distance({ x: centerX, y: centerY }, a), residual: 0 };
+};
+
+// 以兩點為直徑的兩端
+export const circleFromDiameter = (a: Vec2, b: Vec2): FittedCircle | null => {
+  const radius = distance(a, b) / 2;
+  if (radius === 0) return null;
+  const center = midpoint(a, b);
+  return { centerX: center.x, centerY: center.y, radius, residual: 0 };
+};
+
+// 解 3×3 線性方程組（高斯消去，部分選主元）；奇異時回傳 null
+const solve3 = (m: number[][], v: number[]): number[] | null => {
+  const a = m.map((row, i) => [...row, v[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < 3; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 4; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = [0, 0, 0];
+  for (let row = 2; row >= 0; row--) {
+    let sum = a[row][3];
+    for (let k = row + 1; k < 3; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+// 最小平方法擬合圓（Kåsa 代數擬合）：x² + y² + Dx + Ey + F = 0。
+// 座標先平移到重心附近，避免大座標讓正規方程式數值不穩。
+export const fitCircleLeastSquares = (points: Vec2[]): FittedCircle | null => {
+  if (points.length < 3) return null;
+  if (points.length === 3) return circleFromThreePoints(points[0], points[1], points[2]);
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const shifted = points.map(p => ({ x: p.x - meanX, y: p.y - meanY }));
+
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const v = [0, 0, 0];
+  shifted.forEach(({ x, y }) => {
+    const row = [x, y, 1];
+    const rhs = -(x * x + y * y);
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) m[i][j] += row[i] * row[j];
+      v[i] += row[i] * rhs;
+    }
+  });
+
+  const solution = solve3(m, v);
+  if (!solution) return null;
+  const [d, e, f] = solution;
+  const cx = -d / 2;
+  const cy = -e / 2;
+  const radiusSquared = cx * cx + cy * cy - f;
+  if (!(radiusSquared > 0)) return null;
+  const radius = Math.sqrt(radiusSquared);
+
+  const residual = Math.sqrt(
+    shifted.reduce((sum, p) => sum + (distance(p, { x: cx, y: cy }) - radius) ** 2, 0) / shifted.length,
+  );
+
+  return { centerX: cx + meanX, centerY: cy + meanY, radius, residual };
+};
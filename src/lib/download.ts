@@ -0,0 +1,32 @@
+// 透過暫時的 <a download> 觸發瀏覽器下載
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // 給瀏覽器一點時間開始下載再釋放網址
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadTextFile = (text: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), filename);
+};
+
+export const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('讀取檔案失敗'));
+    reader.readAsText(file);
+  });
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('讀取檔案失敗'));
+    reader.readAsDataURL(file);
+  });
+};
@@ -0,0 +1,254 @@
+// 衍生測量的公式：四則運算、次方、括號、函式與變數（線段、角度、圓的名稱）。
+// 自己寫的遞迴下降剖析器，不使用 eval，公式裡只能出現這裡定義的運算
+
+export type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// 角度變數的單位是度，三角函式也用度，不用另外換算。
+// 用 Map 查詢，constructor、toString 這類物件原型上的名稱不會被當成函式或常數
+const FUNCTIONS = new Map<string, { arity: number | 'variadic'; apply: (...args: number[]) => number }>([
+  ['sin', { arity: 1, apply: x => Math.sin(toRadians(x)) }],
+  ['cos', { arity: 1, apply: x => Math.cos(toRadians(x)) }],
+  ['tan', { arity: 1, apply: x => Math.tan(toRadians(x)) }],
+  ['asin', { arity: 1, apply: x => toDegrees(Math.asin(x)) }],
+  ['acos', { arity: 1, apply: x => toDegrees(Math.acos(x)) }],
+  ['atan', { arity: 1, apply: x => toDegrees(Math.atan(x)) }],
+  ['sqrt', { arity: 1, apply: Math.sqrt }],
+  ['abs', { arity: 1, apply: Math.abs }],
+  ['pow', { arity: 2, apply: Math.pow }],
+  ['min', { arity: 'variadic', apply: Math.min }],
+  ['max', { arity: 'variadic', apply: Math.max }],
+]);
+
+export const FORMULA_FUNCTIONS = Array.from(FUNCTIONS.keys());
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['π', Math.PI],
+]);
+
+// 名稱可以是任何文字（θ1、中文標記點名稱），後面可以接 .屬性，例如 C1.r
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_′]/u;
+
+// 衍生測量的名稱要能在公式裡引用：規則跟公式裡的名稱相同，但不能有 .屬性，也不能跟常數同名
+export const isFormulaName = (name: string): boolean => {
+  if (name.length === 0 || !IDENTIFIER_START.test(name[0]) || CONSTANTS.has(name)) return false;
+  for (let i = 1; i < name.length; i++) {
+    if (!IDENTIFIER_PART.test(name[i])) return false;
+  }
+  return true;
+};
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(formula.slice(i));
+      if (!match) throw new Error(`第 ${i + 1} 個字元不是有效的數字`);
+      tokens.push({ kind: 'number', value: Number(match[0]), position: i });
+      i += match[0].length;
+      continue;
+    }
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      while (end < formula.length && (IDENTIFIER_PART.test(formula[end]) ||
+        (formula[end] === '.' && IDENTIFIER_START.test(formula[end + 1] ?? '')))) {
+        end += 1;
+      }
+      tokens.push({ kind: 'identifier', name: formula.slice(i, end), position: i });
+      i = end;
+      continue;
+    }
+    if ('+-*/^(),'.includes(char)) {
+      tokens.push({ kind: 'operator', value: char, position: i });
+      i += 1;
+      continue;
+    }
+    throw new Error(`第 ${i + 1} 個字元「${char}」無法辨識`);
+  }
+  tokens.push({ kind: 'end', position: formula.length });
+  return tokens;
+};
+
+// 把公式裡引用的名稱換成新名稱（標記被改名時用）；C1.r 這種寫法只換前面的名稱。
+// 一次換完，A→B、B→A 互換也不會互相干擾；公式本身有錯時原樣保留
+export const renameFormulaVariables = (formula: string, renames: Map<string, string>): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch {
+    return formula;
+  }
+  let result = '';
+  let cursor = 0;
+  tokens.forEach(token => {
+    if (token.kind !== 'identifier') return;
+    const dot = token.name.indexOf('.');
+    const base = dot === -1 ? token.name : token.name.slice(0, dot);
+    const renamed = renames.get(base);
+    if (renamed === undefined) return;
+    result += formula.slice(cursor, token.position) + renamed;
+    cursor = token.position + base.length;
+  });
+  return result + formula.slice(cursor);
+};
+
+// 文法（優先順序由低到高）：
+// expression = term (('+' | '-') term)*
+// term       = unary (('*' | '/') unary)*
+// unary      = ('-' | '+') unary | power
+// power      = primary ('^' unary)?   （右結合，-2^2 = -4）
+// primary    = number | name | name '(' args ')' | '(' expression ')'
+export const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token.kind === 'operator' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new Error(`第 ${peek().position + 1} 個字元缺少「${value}」`);
+    }
+    index += 1;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = (tokens[index++] as { value: '+' | '-' }).value;
+      node = { kind: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (isOperator('*') || isOperator('/')) {
+      const operator = (tokens[index++] as { value: '*' | '/' }).value;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const operator = (tokens[index++] as { value: '-' | '+' }).value;
+      return { kind: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (!isOperator('^')) return base;
+    index += 1;
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (token.kind === 'number') {
+      index += 1;
+      return { kind: 'number', value: token.value };
+    }
+    if (token.kind === 'identifier') {
+      index += 1;
+      if (!isOperator('(')) return { kind: 'variable', name: token.name };
+      const fn = FUNCTIONS.get(token.name);
+      if (!fn) throw new Error(`沒有「${token.name}」這個函式`);
+      index += 1;
+      const args: FormulaNode[] = [];
+      if (!isOperator(')')) {
+        args.push(parseExpression());
+        while (isOperator(',')) {
+          index += 1;
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+      if (fn.arity === 'variadic' ? args.length === 0 : args.length !== fn.arity) {
+        throw new Error(`函式 ${token.name} 的參數數量不對`);
+      }
+      return { kind: 'call', name: token.name, args };
+    }
+    if (isOperator('(')) {
+      index += 1;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+    throw new Error(token.kind === 'end' ? '公式不完整' : `第 ${token.position + 1} 個字元的位置不應該出現這個符號`);
+  };
+
+  if (tokens.length === 1) {
+    throw new Error('公式是空的');
+  }
+  const node = parseExpression();
+  if (peek().kind !== 'end') {
+    throw new Error(`第 ${peek().position + 1} 個字元之後有多餘的內容`);
+  }
+  return node;
+};
+
+export const evaluateFormulaNode = (node: FormulaNode, variables: Map<string, number>): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable': {
+      const value = variables.get(node.name) ?? CONSTANTS.get(node.name);
+      if (value === undefined) throw new Error(`找不到「${node.name}」`);
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluateFormulaNode(node.operand, variables);
+      return node.operator === '-' ? -operand : operand;
+    }
+    case 'binary': {
+      const left = evaluateFormulaNode(node.left, variables);
+      const right = evaluateFormulaNode(node.right, variables);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return left ** right;
+      }
+      break;
+    }
+    case 'call':
+      return FUNCTIONS.get(node.name).apply(...node.args.map(arg => evaluateFormulaNode(arg, variables)));
+  }
+  throw new Error('無法計算的公式');
+};
+
+// 除以零、負數開根號之類算不出有限數值的結果也當成錯誤，不要讓 NaN 跑進匯出檔
+export const evaluateFormula = (formula: string, variables: Map<string, number>): number => {
+  const value = evaluateFormulaNode(parseFormula(formula), variables);
+  if (!Number.isFinite(value)) {
+    throw new Error('結果不是有限的數值（可能除以零）');
+  }
+  return value;
+};
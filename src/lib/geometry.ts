@@ -0,0 +1,60 @@
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export const distance = (a: Vec2, b: Vec2): number => {
+  return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+};
+
+export const midpoint = (a: Vec2, b: Vec2): Vec2 => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+// 鞋帶公式（Shoelace formula），頂點順時針或逆時針都回傳正值
+export const polygonArea = (vertices: Vec2[]): number => {
+  if (vertices.length < 3) return 0;
+  let sum = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+// 封閉多邊形的周長（包含最後一點回到起點的邊）
+export const polygonPerimeter = (vertices: Vec2[]): number => {
+  if (vertices.length < 2) return 0;
+  let sum = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    sum += distance(vertices[i], vertices[(i + 1) % vertices.length]);
+  }
+  return sum;
+};
+
+// 面積重心；退化成一條線（面積為 0）時改用頂點平均，讓標籤仍有位置可放
+export const polygonCentroid = (vertices: Vec2[]): Vec2 => {
+  if (vertices.length === 0) return { x: 0, y: 0 };
+
+  let signedArea = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const cross = a.x * b.y - b.x * a.y;
+    signedArea += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(signedArea) < 1e-9) {
+    return {
+      x: vertices.reduce((sum, v) => sum + v.x, 0) / vertices.length,
+      y: vertices.reduce((sum, v) => sum + v.y, 0) / vertices.length,
+    };
+  }
+  return { x: cx / (3 * signedArea), y: cy / (3 * signedArea) };
+};
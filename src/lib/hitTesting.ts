@@ -0,0 +1,160 @@
+import { Angle, Circle, Line, Point, Polygon } from '@/types/drawing';
+import { Vec2, distance } from '@/lib/geometry';
+import { Bounds, getBounds } from '@/lib/viewport';
+import { SpatialIndex, createSpatialIndex } from '@/lib/spatialIndex';
+import { SnapSegment, closestPointOnSegment } from '@/lib/snapping';
+import { AngleArcSpan, getAngleArcSpan, resolveAngleGeometry } from '@/lib/angleGeometry';
+import { AnnotationTarget, DisplayShape } from '@/lib/canvasRenderer';
+
+// Canvas 繪製方式下標記沒有各自的 SVG 熱區，改由空間索引找出游標底下的標記。
+// 先後順序跟 SVG 的疊放順序一樣：點 → 角度 → 線段 → 多邊形 → 圓，同一種標記的標籤蓋在本體上
+
+export interface HitLabel extends Bounds {
+  target: AnnotationTarget;
+}
+
+// 多邊形的邊與角度的圓弧（只有外框可以點，內部要讓點擊落到畫布上）
+export type HitOutline =
+  | { kind: 'edge'; target: AnnotationTarget; start: Vec2; end: Vec2 }
+  | { kind: 'arc'; target: AnnotationTarget; span: AngleArcSpan };
+
+// 點、線段、圓沿用吸附的索引；標籤與外框另外建，跟著標記內容一起失效
+export interface HitTestScene {
+  pointIndex: SpatialIndex<Point>;
+  segmentIndex: SpatialIndex<SnapSegment>;
+  circleIndex: SpatialIndex<Circle>;
+  labelIndex: SpatialIndex<HitLabel>;
+  outlineIndex: SpatialIndex<HitOutline>;
+}
+
+export interface HitTestOptions {
+  // 圖片像素，由畫布依目前的顯示比例換算
+  pointRadius: number;
+  lineWidth: number;
+  strokeWidth: number;
+  // 圓只有選擇工具可以點選
+  includeCircles: boolean;
+}
+
+export interface AnnotationHit {
+  target: AnnotationTarget;
+  onLabel: boolean; // 點到標籤而不是標記本身；有些工具只攔標籤上的點擊
+}
+
+const LAYER_ORDER: AnnotationTarget['kind'][] = ['circle', 'polygon', 'line', 'angle', 'point'];
+
+const TAU = 2 * Math.PI;
+
+const getOutlineBounds = (outline: HitOutline): Bounds | null => {
+  if (outline.kind === 'edge') return getBounds([outline.start, outline.end]);
+  const { vertex, radius } = outline.span;
+  return { minX: vertex.x - radius, minY: vertex.y - radius, maxX: vertex.x + radius, maxY: vertex.y + radius };
+};
+
+export const getHitOutlines = (points: Point[], lines: Line[], angles: Angle[], polygons: Polygon[]): HitOutline[] => {
+  const pointById = new Map(points.map(p => [p.id, p]));
+  const outlines: HitOutline[] = [];
+
+  polygons.forEach(polygon => {
+    const positions = polygon.pointIds
+      .map(id => pointById.get(id))
+      .filter((p): p is Point => p !== undefined);
+    if (positions.length < 3) return;
+    const target: AnnotationTarget = { kind: 'polygon', id: polygon.id };
+    positions.forEach((start, i) => {
+      outlines.push({ kind: 'edge', target, start, end: positions[(i + 1) % positions.length] });
+    });
+  });
+
+  // 平行線沒有圓弧，只能點標籤
+  angles.forEach(angle => {
+    const geometry = resolveAngleGeometry(angle, id => pointById.get(id), lines);
+    if (geometry?.kind !== 'rays') return;
+    outlines.push({
+      kind: 'arc',
+      target: { kind: 'angle', id: angle.id },
+      span: getAngleArcSpan(geometry.rays, angle.displayMode ?? 'interior'),
+    });
+  });
+
+  return outlines;
+};
+
+export const getHitLabels = (shapes: DisplayShape[]): HitLabel[] =>
+  shapes.flatMap(shape => shape.kind === 'label' && shape.target
+    ? [{ target: shape.target, minX: shape.x, minY: shape.y, maxX: shape.x + shape.width, maxY: shape.y + shape.height }]
+    : []);
+
+export const createHitIndexes = (
+  shapes: DisplayShape[],
+  points: Point[],
+  lines: Line[],
+  angles: Angle[],
+  polygons: Polygon[],
+): Pick<HitTestScene, 'labelIndex' | 'outlineIndex'> => ({
+  labelIndex: createSpatialIndex<HitLabel>(getHitLabels(shapes), label => label),
+  outlineIndex: createSpatialIndex<HitOutline>(getHitOutlines(points, lines, angles, polygons), getOutlineBounds),
+});
+
+const distanceToOutline = (p: Vec2, outline: HitOutline): number => {
+  if (outline.kind === 'edge') return distance(p, closestPointOnSegment(p, outline.start, outline.end));
+  const { vertex, radius, startAngle, sweep } = outline.span;
+  // 游標方向從圓弧起點沿著圓弧的方向轉了多少
+  const turn = (Math.atan2(p.y - vertex.y, p.x - vertex.x) - startAngle) * Math.sign(sweep || 1);
+  if (((turn % TAU) + TAU) % TAU <= Math.abs(sweep)) return Math.abs(distance(p, vertex) - radius);
+  // 在圓弧範圍外時量到較近的端點
+  const end = (angle: number) => ({ x: vertex.x + radius * Math.cos(angle), y: vertex.y + radius * Math.sin(angle) });
+  return Math.min(distance(p, end(startAngle)), distance(p, end(startAngle + sweep)));
+};
+
+export const findAnnotationAt = (position: Vec2, scene: HitTestScene, options: HitTestOptions): AnnotationHit | null => {
+  const { pointRadius, lineWidth, strokeWidth, includeCircles } = options;
+  const candidates: (AnnotationHit & { rank: number; distance: number })[] = [];
+  const consider = (target: AnnotationTarget, onLabel: boolean, d: number) => {
+    candidates.push({ target, onLabel, rank: LAYER_ORDER.indexOf(target.kind) * 2 + (onLabel ? 1 : 0), distance: d });
+  };
+
+  scene.pointIndex.queryRadius(position, pointRadius).forEach(point => {
+    const d = distance(position, point);
+    if (d <= pointRadius) consider({ kind: 'point', id: point.id }, false, d);
+  });
+
+  // 重疊的標籤取中心最近的
+  scene.labelIndex.queryRadius(position, 0).forEach(label => {
+    if (label.target.kind === 'circle' && !includeCircles) return;
+    if (position.x < label.minX || position.x > label.maxX || position.y < label.minY || position.y > label.maxY) return;
+    consider(label.target, true, distance(position, { x: (label.minX + label.maxX) / 2, y: (label.minY + label.maxY) / 2 }));
+  });
+
+  scene.segmentIndex.queryRadius(position, lineWidth / 2).forEach(({ lineId, start, end }) => {
+    const d = distance(position, closestPointOnSegment(position, start, end));
+    if (d <= lineWidth / 2) consider({ kind: 'line', id: lineId }, false, d);
+  });
+
+  scene.outlineIndex.queryRadius(position, strokeWidth / 2).forEach(outline => {
+    const d = distanceToOutline(position, outline);
+    if (d <= strokeWidth / 2) consider(outline.target, false, d);
+  });
+
+  if (includeCircles) {
+    scene.circleIndex.queryRadius(position, strokeWidth / 2).forEach(circle => {
+      const d = Math.abs(distance(position, { x: circle.centerX, y: circle.centerY }) - circle.radius);
+      if (d <= strokeWidth / 2) consider({ kind: 'circle', id: circle.id }, false, d);
+    });
+  }
+
+  if (candidates.length === 0) return null;
+  const best = candidates.reduce((a, b) => {
+    if (a.rank !== b.rank) return a.rank > b.rank ? a : b;
+    return a.distance <= b.distance ? a : b;
+  });
+  return { target: best.target, onLabel: best.onLabel };
+};
+
+// 圓心工具的點選放置模式：外框內都可以抓住圓來移動；重疊時取最小的圓，大圓裡的小圓才抓得到
+export const findCircleBoxAt = (position: Vec2, circleIndex: SpatialIndex<Circle>): Circle | null => {
+  const hits = circleIndex.queryRadius(position, 0).filter(circle =>
+    Math.abs(position.x - circle.centerX) <= circle.radius && Math.abs(position.y - circle.centerY) <= circle.radius);
+  if (hits.length === 0) return null;
+  return hits.reduce((a, b) => (a.radius <= b.radius ? a : b));
+};
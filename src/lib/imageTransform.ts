@@ -0,0 +1,195 @@
+import { DrawingDocument, ImageOrientationChange, LensCorrection } from '@/types/drawing';
+import { Vec2 } from '@/lib/geometry';
+import { Bounds, getBounds } from '@/lib/viewport';
+
+// 旋轉、翻轉圖片時，所有標記要跟著做同樣的座標轉換，才會留在原本的特徵上。
+// 這裡的轉換都是剛體轉換（旋轉、鏡射、裁切造成的平移），長度、面積、角度大小不變，校正比例也照樣有效
+
+// 仿射矩陣，參數順序與 CanvasRenderingContext2D.setTransform 相同：
+// x' = a·x + c·y + e，y' = b·x + d·y + f
+export interface AffineMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// 原圖座標 → 新圖座標的轉換，以及新圖的尺寸
+export interface ImageTransform {
+  matrix: AffineMatrix;
+  width: number;
+  height: number;
+}
+
+export const applyMatrix = (m: AffineMatrix, p: Vec2): Vec2 => ({
+  x: m.a * p.x + m.c * p.y + m.e,
+  y: m.b * p.x + m.d * p.y + m.f,
+});
+
+// 90° 的倍數直接給精確值，避免 cos(90°) 這類浮點誤差讓座標多出 1e-14 的尾數
+const exactTrig = (degrees: number) => {
+  const quarterTurns = degrees / 90;
+  if (Number.isInteger(quarterTurns)) {
+    const table: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+    const [cos, sin] = table[((quarterTurns % 4) + 4) % 4];
+    return { cos, sin };
+  }
+  const radians = (degrees * Math.PI) / 180;
+  return { cos: Math.cos(radians), sin: Math.sin(radians) };
+};
+
+// 以圖片中心旋轉 degrees 度（正值在畫面上為順時針），新圖放大到剛好容納旋轉後的整張圖
+export const getRotationTransform = (width: number, height: number, degrees: number): ImageTransform => {
+  const { cos, sin } = exactTrig(degrees);
+  const newWidth = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin) - 1e-9);
+  const newHeight = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos) - 1e-9);
+  const cx = width / 2;
+  const cy = height / 2;
+  return {
+    matrix: {
+      a: cos,
+      b: sin,
+      c: -sin,
+      d: cos,
+      e: newWidth / 2 - (cos * cx - sin * cy),
+      f: newHeight / 2 - (sin * cx + cos * cy),
+    },
+    width: newWidth,
+    height: newHeight,
+  };
+};
+
+export const getOrientationTransform = (width: number, height: number, change: ImageOrientationChange): ImageTransform => {
+  switch (change) {
+    case 'rotateClockwise':
+      return getRotationTransform(width, height, 90);
+    case 'rotateCounterClockwise':
+      return getRotationTransform(width, height, -90);
+    case 'rotate180':
+      return getRotationTransform(width, height, 180);
+    case 'flipHorizontal':
+      return { matrix: { a: -1, b: 0, c: 0, d: 1, e: width, f: 0 }, width, height };
+    case 'flipVertical':
+      return { matrix: { a: 1, b: 0, c: 0, d: -1, e: 0, f: height }, width, height };
+  }
+};
+
+// 讓 start → end 這條線轉成水平或垂直（取轉動角度較小的那個）所需的旋轉角度，範圍 −45°～45°
+export const getStraightenAngle = (start: Vec2, end: Vec2): number => {
+  const degrees = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+  const rotation = Math.round(degrees / 90) * 90 - degrees;
+  // 避免回傳 −0
+  return rotation === 0 ? 0 : rotation;
+};
+
+// 把範圍對齊到整數像素並限制在圖片內；面積不到 1 像素時回傳 null
+export const clampCropRegion = (region: Bounds, width: number, height: number): Bounds | null => {
+  const minX = Math.max(0, Math.floor(region.minX));
+  const minY = Math.max(0, Math.floor(region.minY));
+  const maxX = Math.min(width, Math.ceil(region.maxX));
+  const maxY = Math.min(height, Math.ceil(region.maxY));
+  if (maxX - minX < 1 || maxY - minY < 1) return null;
+  return { minX, minY, maxX, maxY };
+};
+
+// 裁切成 region 範圍：範圍外的標記保留下來，只是落在新圖片外面
+export const getCropTransform = (width: number, height: number, region: Bounds): ImageTransform => {
+  const crop = clampCropRegion(region, width, height) ?? { minX: 0, minY: 0, maxX: width, maxY: height };
+  return {
+    matrix: { a: 1, b: 0, c: 0, d: 1, e: -crop.minX, f: -crop.minY },
+    width: crop.maxX - crop.minX,
+    height: crop.maxY - crop.minY,
+  };
+};
+
+// 所有標記涵蓋的範圍（點與整個圓），標籤的寬度交給匯出時的邊距處理
+export const getAnnotationBounds = (doc: Pick<DrawingDocument, 'points' | 'circles'>): Bounds | null => {
+  return getBounds([
+    ...doc.points,
+    ...doc.circles.flatMap(c => [
+      { x: c.centerX - c.radius, y: c.centerY - c.radius },
+      { x: c.centerX + c.radius, y: c.centerY + c.radius },
+    ]),
+  ]);
+};
+
+// 把整份文件的點、圓心與透視校正的四個角換到新圖片上；半徑不變
+export const mapDocumentPositions = (doc: DrawingDocument, map: (p: Vec2) => Vec2): DrawingDocument => {
+  const { rectification } = doc;
+  return {
+    ...doc,
+    points: doc.points.map(p => ({ ...p, ...map(p) })),
+    circles: doc.circles.map(circle => {
+      const center = map({ x: circle.centerX, y: circle.centerY });
+      return { ...circle, centerX: center.x, centerY: center.y };
+    }),
+    rectification: rectification && {
+      ...rectification,
+      corners: [
+        map(rectification.corners[0]),
+        map(rectification.corners[1]),
+        map(rectification.corners[2]),
+        map(rectification.corners[3]),
+      ],
+    },
+  };
+};
+
+// 鏡頭畸變的中心跟著圖片移動。切向畸變的 (p2, p1) 在正交轉換下如同一個向量，
+// 跟著轉換的線性部分旋轉或鏡射；徑向畸變與正規化半徑不變
+export const transformLensCorrection = (lens: LensCorrection, matrix: AffineMatrix): LensCorrection => {
+  const center = applyMatrix(matrix, { x: lens.centerX, y: lens.centerY });
+  const { p1, p2 } = lens.coefficients;
+  return {
+    ...lens,
+    coefficients: {
+      ...lens.coefficients,
+      p1: matrix.b * p2 + matrix.d * p1,
+      p2: matrix.a * p2 + matrix.c * p1,
+    },
+    centerX: center.x,
+    centerY: center.y,
+  };
+};
+
+// 剛體轉換下半徑不變，鏡頭校正的畸變中心也一起轉換
+export const transformDocument = (doc: DrawingDocument, matrix: AffineMatrix): DrawingDocument => ({
+  ...mapDocumentPositions(doc, p => applyMatrix(matrix, p)),
+  lensCorrection: doc.lensCorrection && transformLensCorrection(doc.lensCorrection, matrix),
+});
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('無法載入圖片'));
+    img.src = src;
+  });
+};
+
+// 依原圖尺寸算出轉換，再用 canvas 重畫成新圖片（data URL）。
+// JPEG 維持 JPEG，斜轉後多出來的角落補白；其他格式輸出 PNG，角落保持透明
+export const renderTransformedImage = async (
+  imageSrc: string,
+  getTransform: (width: number, height: number) => ImageTransform,
+): Promise<{ image: string; transform: ImageTransform }> => {
+  const img = await loadImage(imageSrc);
+  const transform = getTransform(img.width, img.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = transform.width;
+  canvas.height = transform.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('無法轉換圖片');
+  const isJpeg = imageSrc.startsWith('data:image/jpeg');
+  if (isJpeg) {
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  const { a, b, c, d, e, f } = transform.matrix;
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(img, 0, 0);
+  const image = isJpeg ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+  return { image, transform };
+};
@@ -0,0 +1,222 @@
+import { Circle, DrawingDocument, LensCorrection, LensDistortionCoefficients } from '@/types/drawing';
+import { Vec2, distance } from '@/lib/geometry';
+import { loadImage, mapDocumentPositions } from '@/lib/imageTransform';
+import { applyHomography, computeHomography, solveLinearSystem } from '@/lib/rectification';
+
+// 鏡頭畸變（Brown–Conrady 模型）：把沒有畸變的正規化座標 (x, y) 映到照片上實際拍到的位置
+//   x' = x·(1 + k1·r² + k2·r⁴) + 2·p1·x·y + p2·(r² + 2x²)
+//   y' = y·(1 + k1·r² + k2·r⁴) + p1·(r² + 2y²) + 2·p2·x·y
+// 桶狀畸變的 k1 為負值。量測時需要反方向（照片上的點 → 沒有畸變的位置），沒有封閉解，用迭代求
+
+export const NO_DISTORTION: LensDistortionCoefficients = { k1: 0, k2: 0, p1: 0, p2: 0 };
+
+// 棋盤格至少要 3 × 3 個角點，才看得出格線的彎曲
+export const MIN_GRID_SIZE = 3;
+
+const UNDISTORT_ITERATIONS = 20;
+
+const distortNormalized = ({ x, y }: Vec2, { k1, k2, p1, p2 }: LensDistortionCoefficients): Vec2 => {
+  const r2 = x * x + y * y;
+  const radial = 1 + k1 * r2 + k2 * r2 * r2;
+  return {
+    x: x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x),
+    y: y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y,
+  };
+};
+
+// 固定點迭代：一般鏡頭的畸變量不大，二十次就收斂到遠小於一個像素
+const undistortNormalized = (distorted: Vec2, { k1, k2, p1, p2 }: LensDistortionCoefficients): Vec2 => {
+  let { x, y } = distorted;
+  for (let i = 0; i < UNDISTORT_ITERATIONS; i++) {
+    const r2 = x * x + y * y;
+    const radial = 1 + k1 * r2 + k2 * r2 * r2;
+    const nextX = (distorted.x - 2 * p1 * x * y - p2 * (r2 + 2 * x * x)) / radial;
+    const nextY = (distorted.y - p1 * (r2 + 2 * y * y) - 2 * p2 * x * y) / radial;
+    x = nextX;
+    y = nextY;
+  }
+  return { x, y };
+};
+
+// 以圖片中心為畸變中心、對角線的一半為正規化半徑，同一組係數可以套用到同一台相機拍的不同尺寸圖片
+export const createLensCorrection = (
+  profileName: string,
+  coefficients: LensDistortionCoefficients,
+  width: number,
+  height: number,
+): LensCorrection => ({
+  profileName,
+  coefficients: { ...coefficients },
+  centerX: width / 2,
+  centerY: height / 2,
+  focal: Math.hypot(width, height) / 2,
+});
+
+const toNormalized = (lens: LensCorrection, p: Vec2): Vec2 => ({
+  x: (p.x - lens.centerX) / lens.focal,
+  y: (p.y - lens.centerY) / lens.focal,
+});
+
+const fromNormalized = (lens: LensCorrection, p: Vec2): Vec2 => ({
+  x: p.x * lens.focal + lens.centerX,
+  y: p.y * lens.focal + lens.centerY,
+});
+
+// 沒有畸變的位置 → 照片上的位置（圖片座標）
+export const distortPoint = (lens: LensCorrection, p: Vec2): Vec2 =>
+  fromNormalized(lens, distortNormalized(toNormalized(lens, p), lens.coefficients));
+
+// 照片上的位置 → 沒有畸變的位置（圖片座標）
+export const undistortPoint = (lens: LensCorrection, p: Vec2): Vec2 =>
+  fromNormalized(lens, undistortNormalized(toNormalized(lens, p), lens.coefficients));
+
+// 量測用的位置換算：沒有鏡頭校正時就是點選的位置
+export const createMeasurePosition = (lens: LensCorrection | null) => (p: Vec2): Vec2 =>
+  lens ? undistortPoint(lens, p) : p;
+
+// 圓心換過去，半徑取圓心右側一點換過去後的距離（畸變在一個圓的範圍內近似均勻）
+export const undistortCircle = (lens: LensCorrection, circle: Circle): Circle => {
+  const center = undistortPoint(lens, { x: circle.centerX, y: circle.centerY });
+  const edge = undistortPoint(lens, { x: circle.centerX + circle.radius, y: circle.centerY });
+  return { ...circle, centerX: center.x, centerY: center.y, radius: distance(center, edge) };
+};
+
+// 把整份文件換到沒有畸變的座標：量測用，以及把校正直接套用到圖片時移動所有標記
+export const undistortDocument = (doc: DrawingDocument, lens: LensCorrection): DrawingDocument => ({
+  ...mapDocumentPositions(doc, p => undistortPoint(lens, p)),
+  circles: doc.circles.map(circle => undistortCircle(lens, circle)),
+  lensCorrection: null,
+});
+
+export interface LensCalibrationResult {
+  coefficients: LensDistortionCoefficients;
+  rmsError: number; // px
+}
+
+const toParams = ({ k1, k2, p1, p2 }: LensDistortionCoefficients) => [k1, k2, p1, p2];
+const fromParams = ([k1, k2, p1, p2]: number[]): LensDistortionCoefficients => ({ k1, k2, p1, p2 });
+
+// 平面棋盤格的角點在沒有畸變時與理想格線之間只差一個單應轉換。
+// 對一組係數，先把點到的角點還原，再用最小平方擬合格線的單應矩陣，殘差就是還原後的角點偏離格線的距離
+const gridResiduals = (observed: Vec2[], grid: Vec2[], params: number[]): number[] | null => {
+  const coefficients = fromParams(params);
+  const undistorted = observed.map(p => undistortNormalized(p, coefficients));
+  const h = computeHomography(grid, undistorted);
+  if (!h) return null;
+  return grid.flatMap((g, i) => {
+    const fitted = applyHomography(h, g);
+    return [fitted.x - undistorted[i].x, fitted.y - undistorted[i].y];
+  });
+};
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+const MAX_ITERATIONS = 100;
+const JACOBIAN_STEP = 1e-7;
+
+// 由依序點選的棋盤格角點（由上而下逐列、每列由左而右，共 rows × cols 個）估計畸變係數。
+// 以 Levenberg–Marquardt 最小化 gridResiduals；資料不合理時丟出錯誤訊息給面板顯示
+export const estimateLensDistortion = (
+  corners: Vec2[],
+  rows: number,
+  cols: number,
+  width: number,
+  height: number,
+): LensCalibrationResult => {
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < MIN_GRID_SIZE || cols < MIN_GRID_SIZE) {
+    throw new Error(`棋盤格的列數與行數必須是至少 ${MIN_GRID_SIZE} 的整數`);
+  }
+  if (corners.length !== rows * cols) {
+    throw new Error(`需要 ${rows * cols} 個角點，目前點了 ${corners.length} 個`);
+  }
+
+  const frame = createLensCorrection('', NO_DISTORTION, width, height);
+  const observed = corners.map(p => toNormalized(frame, p));
+  const grid = corners.map((_, i) => ({ x: i % cols, y: Math.floor(i / cols) }));
+
+  let params = toParams(NO_DISTORTION);
+  let residuals = gridResiduals(observed, grid, params);
+  if (!residuals) {
+    throw new Error('角點排列不成格狀，請依序由上而下、由左而右點選');
+  }
+  let cost = sumOfSquares(residuals);
+  let damping = 1e-3;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && cost > 0; iteration++) {
+    const jacobian = params.map((_, k) => {
+      const stepped = params.map((value, j) => (j === k ? value + JACOBIAN_STEP : value));
+      const next = gridResiduals(observed, grid, stepped) ?? residuals;
+      return next.map((r, i) => (r - residuals[i]) / JACOBIAN_STEP);
+    });
+    const normal = jacobian.map(a => jacobian.map(b => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+    const gradient = jacobian.map(a => a.reduce((sum, v, i) => sum + v * residuals[i], 0));
+
+    let improved = false;
+    while (damping < 1e10) {
+      const damped = normal.map((row, i) => row.map((v, j) => (i === j ? v + damping * (v + 1e-12) : v)));
+      const step = solveLinearSystem(damped, gradient.map(g => -g));
+      const candidate = step && params.map((value, k) => value + step[k]);
+      const candidateResiduals = candidate && gridResiduals(observed, grid, candidate);
+      if (candidateResiduals && sumOfSquares(candidateResiduals) < cost) {
+        const nextCost = sumOfSquares(candidateResiduals);
+        const converged = cost - nextCost < 1e-12 * cost;
+        params = candidate;
+        residuals = candidateResiduals;
+        cost = nextCost;
+        damping = Math.max(damping / 10, 1e-12);
+        improved = !converged;
+        break;
+      }
+      damping *= 10;
+    }
+    if (!improved) break;
+  }
+
+  return {
+    coefficients: fromParams(params),
+    rmsError: Math.sqrt(cost / corners.length) * frame.focal,
+  };
+};
+
+// 把校正直接套用到圖片：新圖每個像素到原圖上對應（有畸變）的位置做雙線性取樣，尺寸不變。
+// JPEG 維持 JPEG，取樣落在原圖外的角落補白；其他格式輸出 PNG，角落保持透明
+export const renderUndistortedImage = async (imageSrc: string, lens: LensCorrection): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const { width, height } = img;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('無法轉換圖片');
+  ctx.drawImage(img, 0, 0);
+  const source = ctx.getImageData(0, 0, width, height).data;
+  const output = ctx.createImageData(width, height);
+  const isJpeg = imageSrc.startsWith('data:image/jpeg');
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = distortPoint(lens, { x: x + 0.5, y: y + 0.5 });
+      const sx = src.x - 0.5;
+      const sy = src.y - 0.5;
+      const offset = (y * width + x) * 4;
+      if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) {
+        if (isJpeg) output.data.fill(255, offset, offset + 4);
+        continue;
+      }
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = source[(y0 * width + x0) * 4 + channel] * (1 - fx) + source[(y0 * width + x1) * 4 + channel] * fx;
+        const bottom = source[(y1 * width + x0) * 4 + channel] * (1 - fx) + source[(y1 * width + x1) * 4 + channel] * fx;
+        output.data[offset + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return isJpeg ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png');
+};
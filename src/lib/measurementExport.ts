@@ -0,0 +1,406 @@
+import { AngleDisplayMode, DerivedMeasurement, DrawingDocument, LengthUnit, LensDistortionCoefficients } from '@/types/drawing';
+import { Vec2, distance, polygonArea, polygonPerimeter } from '@/lib/geometry';
+import { getUnitsPerPixel, toRealArea, toRealLength } from '@/lib/calibration';
+import { measureAngle, resolveAngleGeometry } from '@/lib/angleGeometry';
+import { createRectifiedMeasurer } from '@/lib/rectification';
+import { undistortDocument } from '@/lib/lensDistortion';
+import { evaluateFormula } from '@/lib/formula';
+
+export const MEASUREMENT_EXPORT_FORMAT = 'draw-measure-measurements';
+
+// 校正前的實際單位欄位都是 null，像素欄位永遠有值；rectified* 欄位只在有透視校正時有值
+export interface LineMeasurement {
+  label: string;
+  start: Vec2;
+  end: Vec2;
+  lengthPx: number;
+  length: number | null;
+  rectifiedLength: number | null;
+}
+
+export interface AngleMeasurement {
+  label: string;
+  line1: string | null;
+  line2: string | null;
+  vertex: Vec2 | null; // 平行線沒有交點
+  degrees: number;     // 內角
+  displayMode: AngleDisplayMode;
+  displayDegrees: number;
+  parallel: boolean;
+  rectifiedDegrees: number | null; // 校正平面上的內角
+}
+
+export interface CircleMeasurement {
+  label: string;
+  center: Vec2;
+  radiusPx: number;
+  diameterPx: number;
+  circumferencePx: number;
+  areaPx: number;
+  radius: number | null;
+  diameter: number | null;
+  circumference: number | null;
+  area: number | null;
+  fitResidualPx: number | null; // 只有多點擬合的圓才有
+}
+
+export interface PolygonMeasurement {
+  label: string;
+  vertices: Vec2[];
+  areaPx: number;
+  perimeterPx: number;
+  area: number | null;
+  perimeter: number | null;
+  rectifiedArea: number | null;
+  rectifiedPerimeter: number | null;
+}
+
+export interface RatioMeasurement {
+  label?: string; // 只有存成測量項目的比值才有名稱
+  numerator: string;
+  denominator: string;
+  value: number;
+}
+
+// 公式算不出來（名稱不存在、除以零）時 value 為 null，error 說明原因
+export interface DerivedMeasurementResult {
+  label: string;
+  formula: string;
+  value: number | null;
+  error: string | null;
+}
+
+export interface MeasurementReport {
+  format: typeof MEASUREMENT_EXPORT_FORMAT;
+  exportedAt: string;
+  calibration: {
+    unit: LengthUnit;
+    unitsPerPixel: number;
+    referenceLine: string | null;
+  } | null;
+  rectification: {
+    unit: LengthUnit;
+    width: number;
+    height: number;
+  } | null;
+  // 有鏡頭校正時，所有座標與數值都是還原畸變後的位置量出來的
+  lensCorrection: {
+    profileName: string;
+    coefficients: LensDistortionCoefficients;
+  } | null;
+  lines: LineMeasurement[];
+  angles: AngleMeasurement[];
+  circles: CircleMeasurement[];
+  polygons: PolygonMeasurement[];
+  ratios: RatioMeasurement[];
+  derived: DerivedMeasurementResult[];
+}
+
+// 匯出的數字統一取到小數第 4 位，避免浮點誤差出現在試算表裡
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+const roundPoint = (p: Vec2): Vec2 => ({ x: round(p.x), y: round(p.y) });
+
+// 各項標記的測量值，以及有名稱的比值。doc 是量測用的文件：有鏡頭校正時已還原畸變
+const measureEntities = (doc: DrawingDocument) => {
+  const { calibration } = doc;
+  const pointById = new Map(doc.points.map(p => [p.id, p]));
+  const lineById = new Map(doc.lines.map(l => [l.id, l]));
+  const real = (pixels: number) => calibration ? round(toRealLength(pixels, calibration)) : null;
+  const rectified = doc.rectification ? createRectifiedMeasurer(doc.rectification) : null;
+  const lengthPxById = new Map<string, number>();
+
+  const lines = doc.lines.flatMap(line => {
+    const start = pointById.get(line.startPointId);
+    const end = pointById.get(line.endPointId);
+    if (!start || !end) return [];
+    const lengthPx = distance(start, end);
+    lengthPxById.set(line.id, lengthPx);
+    return [{
+      label: line.label,
+      start: roundPoint(start),
+      end: roundPoint(end),
+      lengthPx: round(lengthPx),
+      length: real(lengthPx),
+      rectifiedLength: rectified ? round(rectified.length(start, end)) : null,
+    }];
+  });
+
+  const angles = doc.angles.flatMap(angle => {
+    const geometry = resolveAngleGeometry(angle, id => pointById.get(id), doc.lines);
+    if (!geometry) return [];
+    const displayMode = angle.displayMode ?? 'interior';
+    const rays = geometry.kind === 'rays' ? geometry.rays : null;
+    const rectifiedDegrees = rectified?.angle(angle, id => pointById.get(id), doc.lines, 'interior') ?? null;
+    return [{
+      label: angle.label,
+      line1: lineById.get(angle.line1Id ?? '')?.label ?? null,
+      line2: lineById.get(angle.line2Id ?? '')?.label ?? null,
+      vertex: rays ? roundPoint(rays.vertex) : null,
+      degrees: round(rays ? measureAngle(rays, 'interior') : angle.degrees),
+      displayMode,
+      displayDegrees: rays ? round(measureAngle(rays, displayMode)) : 0,
+      parallel: !rays,
+      rectifiedDegrees: rectifiedDegrees !== null ? round(rectifiedDegrees) : null,
+    }];
+  });
+
+  const circles = doc.circles.map(circle => {
+    const areaPx = Math.PI * circle.radius ** 2;
+    return {
+      label: circle.label,
+      center: roundPoint({ x: circle.centerX, y: circle.centerY }),
+      radiusPx: round(circle.radius),
+      diameterPx: round(circle.radius * 2),
+      circumferencePx: round(2 * Math.PI * circle.radius),
+      areaPx: round(areaPx),
+      radius: real(circle.radius),
+      diameter: real(circle.radius * 2),
+      circumference: real(2 * Math.PI * circle.radius),
+      area: calibration ? round(toRealArea(areaPx, calibration)) : null,
+      fitResidualPx: circle.fitResidual !== undefined ? round(circle.fitResidual) : null,
+    };
+  });
+
+  const polygons = doc.polygons.map(polygon => {
+    const vertices = polygon.pointIds
+      .map(id => pointById.get(id))
+      .filter((p): p is NonNullable<typeof p> => p !== undefined);
+    const areaPx = polygonArea(vertices);
+    const perimeterPx = polygonPerimeter(vertices);
+    return {
+      label: polygon.label,
+      vertices: vertices.map(roundPoint),
+      areaPx: round(areaPx),
+      perimeterPx: round(perimeterPx),
+      area: calibration ? round(toRealArea(areaPx, calibration)) : null,
+      perimeter: real(perimeterPx),
+      rectifiedArea: rectified ? round(rectified.area(vertices)) : null,
+      rectifiedPerimeter: rectified ? round(rectified.perimeter(vertices)) : null,
+    };
+  });
+
+  // 比例與單位無關，直接用像素長度
+  const ratios: RatioMeasurement[] = doc.ratios.flatMap(ratio => {
+    const numerator = lineById.get(ratio.numeratorLineId);
+    const denominator = lineById.get(ratio.denominatorLineId);
+    const numeratorPx = lengthPxById.get(ratio.numeratorLineId);
+    const denominatorPx = lengthPxById.get(ratio.denominatorLineId);
+    if (!numerator || !denominator || !numeratorPx || !denominatorPx) return [];
+    return [{
+      label: ratio.label,
+      numerator: numerator.label,
+      denominator: denominator.label,
+      value: round(numeratorPx / denominatorPx),
+    }];
+  });
+
+  return { lines, angles, circles, polygons, ratios };
+};
+
+export const buildMeasurementReport = (source: DrawingDocument): MeasurementReport => {
+  const { lensCorrection } = source;
+  const doc = lensCorrection ? undistortDocument(source, lensCorrection) : source;
+  const { calibration } = doc;
+  const measured = measureEntities(doc);
+  const { lines } = measured;
+
+  // 有名稱的比值排在前面，後面是每一對線段的長度比（依線段順序，前者 / 後者）
+  const ratios = [...measured.ratios];
+  lines.forEach((a, i) => {
+    lines.slice(i + 1).forEach(b => {
+      if (a.lengthPx === 0 || b.lengthPx === 0) return;
+      ratios.push({ numerator: a.label, denominator: b.label, value: round(a.lengthPx / b.lengthPx) });
+    });
+  });
+
+  const derived = evaluateDerivedMeasurements(doc.derivedMeasurements, getFormulaVariables(measured));
+
+  const referenceLine = calibration?.referenceLineId
+    ? doc.lines.find(line => line.id === calibration.referenceLineId)
+    : undefined;
+
+  return {
+    format: MEASUREMENT_EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    calibration: calibration
+      ? {
+          unit: calibration.unit,
+          unitsPerPixel: getUnitsPerPixel(calibration),
+          referenceLine: referenceLine?.label ?? null,
+        }
+      : null,
+    rectification: doc.rectification
+      ? { unit: doc.rectification.unit, width: doc.rectification.width, height: doc.rectification.height }
+      : null,
+    lensCorrection: lensCorrection
+      ? { profileName: lensCorrection.profileName, coefficients: lensCorrection.coefficients }
+      : null,
+    lines,
+    angles: measured.angles,
+    circles: measured.circles,
+    polygons: measured.polygons,
+    ratios,
+    derived,
+  };
+};
+
+// 公式裡可以用的名稱。有校正時長度、面積用實際單位，否則用像素；角度用表格上顯示的度數。
+// 圓的名稱本身代表直徑，其他數值用 .r、.d、.c、.area 取得；多邊形的名稱代表面積，周長用 .perimeter
+const getFormulaVariables = (
+  report: Pick<MeasurementReport, 'lines' | 'angles' | 'circles' | 'polygons' | 'ratios'>,
+): Map<string, number> => {
+  const variables = new Map<string, number>();
+  report.lines.forEach(line => {
+    variables.set(line.label, line.length ?? line.lengthPx);
+  });
+  report.angles.forEach(angle => {
+    variables.set(angle.label, angle.displayDegrees);
+  });
+  report.circles.forEach(circle => {
+    const diameter = circle.diameter ?? circle.diameterPx;
+    variables.set(circle.label, diameter);
+    variables.set(`${circle.label}.d`, diameter);
+    variables.set(`${circle.label}.r`, circle.radius ?? circle.radiusPx);
+    variables.set(`${circle.label}.c`, circle.circumference ?? circle.circumferencePx);
+    variables.set(`${circle.label}.area`, circle.area ?? circle.areaPx);
+  });
+  report.polygons.forEach(polygon => {
+    variables.set(polygon.label, polygon.area ?? polygon.areaPx);
+    variables.set(`${polygon.label}.perimeter`, polygon.perimeter ?? polygon.perimeterPx);
+  });
+  report.ratios.forEach(ratio => {
+    if (ratio.label) variables.set(ratio.label, ratio.value);
+  });
+  return variables;
+};
+
+// 畫面上即時顯示用：只算公式用得到的數值，不產生每一對線段的比值，拖曳點的時候也夠快。
+// measurementDoc 是量測用的文件（有鏡頭校正時已還原畸變），不含衍生測量本身
+export const getDocumentFormulaVariables = (measurementDoc: DrawingDocument): Map<string, number> => {
+  return getFormulaVariables(measureEntities(measurementDoc));
+};
+
+// 依序計算衍生測量；後面的公式可以引用前面已經算好的衍生測量，不能引用後面的
+export const evaluateDerivedMeasurements = (
+  measurements: DerivedMeasurement[],
+  variables: Map<string, number>,
+): DerivedMeasurementResult[] => {
+  const scope = new Map(variables);
+  return measurements.map(measurement => {
+    try {
+      const value = evaluateFormula(measurement.formula, scope);
+      scope.set(measurement.label, value);
+      return { label: measurement.label, formula: measurement.formula, value: round(value), error: null };
+    } catch (err) {
+      return {
+        label: measurement.label,
+        formula: measurement.formula,
+        value: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  });
+};
+
+export const serializeReportJson = (report: MeasurementReport): string => {
+  return JSON.stringify(report, null, 2);
+};
+
+// 含逗號、引號或換行的欄位要用引號包起來
+export const escapeCsvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (fields: (string | number | null)[]): string => {
+  return fields.map(escapeCsvField).join(',');
+};
+
+const CSV_HEADER = ['type', 'label', 'property', 'value', 'unit'];
+
+// 長表格裡的一列：一個測量項目的一個數值
+export interface ReportRow {
+  type: string;
+  label: string;
+  property: string;
+  value: string | number;
+  unit: string | null;
+}
+
+// 把報告攤平成「一列一個數值」，沒有值的欄位（例如未校正時的實際長度）不會出現
+export const getReportRows = (report: MeasurementReport): ReportRow[] => {
+  const unit = report.calibration?.unit ?? null;
+  const rectifiedUnit = report.rectification?.unit ?? null;
+  const rows: ReportRow[] = [];
+  const add = (type: string, label: string, property: string, value: string | number | null, valueUnit: string | null) => {
+    if (value === null) return;
+    rows.push({ type, label, property, value, unit: valueUnit });
+  };
+
+  report.lines.forEach(line => {
+    add('line', line.label, 'start_x', line.start.x, 'px');
+    add('line', line.label, 'start_y', line.start.y, 'px');
+    add('line', line.label, 'end_x', line.end.x, 'px');
+    add('line', line.label, 'end_y', line.end.y, 'px');
+    add('line', line.label, 'length_px', line.lengthPx, 'px');
+    add('line', line.label, 'length', line.length, unit);
+    add('line', line.label, 'length_rectified', line.rectifiedLength, rectifiedUnit);
+  });
+
+  report.angles.forEach(angle => {
+    add('angle', angle.label, 'line1', angle.line1, null);
+    add('angle', angle.label, 'line2', angle.line2, null);
+    if (angle.vertex) {
+      add('angle', angle.label, 'vertex_x', angle.vertex.x, 'px');
+      add('angle', angle.label, 'vertex_y', angle.vertex.y, 'px');
+    }
+    add('angle', angle.label, 'degrees', angle.degrees, 'deg');
+    if (angle.displayMode !== 'interior') {
+      add('angle', angle.label, angle.displayMode, angle.displayDegrees, 'deg');
+    }
+    if (angle.parallel) add('angle', angle.label, 'parallel', 'true', null);
+    add('angle', angle.label, 'degrees_rectified', angle.rectifiedDegrees, 'deg');
+  });
+
+  report.circles.forEach(circle => {
+    add('circle', circle.label, 'center_x', circle.center.x, 'px');
+    add('circle', circle.label, 'center_y', circle.center.y, 'px');
+    add('circle', circle.label, 'radius_px', circle.radiusPx, 'px');
+    add('circle', circle.label, 'diameter_px', circle.diameterPx, 'px');
+    add('circle', circle.label, 'circumference_px', circle.circumferencePx, 'px');
+    add('circle', circle.label, 'area_px', circle.areaPx, 'px²');
+    add('circle', circle.label, 'radius', circle.radius, unit);
+    add('circle', circle.label, 'diameter', circle.diameter, unit);
+    add('circle', circle.label, 'circumference', circle.circumference, unit);
+    add('circle', circle.label, 'area', circle.area, unit && `${unit}²`);
+    add('circle', circle.label, 'fit_residual_px', circle.fitResidualPx, 'px');
+  });
+
+  report.polygons.forEach(polygon => {
+    add('polygon', polygon.label, 'area_px', polygon.areaPx, 'px²');
+    add('polygon', polygon.label, 'perimeter_px', polygon.perimeterPx, 'px');
+    add('polygon', polygon.label, 'area', polygon.area, unit && `${unit}²`);
+    add('polygon', polygon.label, 'perimeter', polygon.perimeter, unit);
+    add('polygon', polygon.label, 'area_rectified', polygon.rectifiedArea, rectifiedUnit && `${rectifiedUnit}²`);
+    add('polygon', polygon.label, 'perimeter_rectified', polygon.rectifiedPerimeter, rectifiedUnit);
+  });
+
+  report.ratios.forEach(ratio => {
+    add('ratio', ratio.label ?? `${ratio.numerator}/${ratio.denominator}`, 'ratio', ratio.value, null);
+  });
+
+  report.derived.forEach(measurement => {
+    add('derived', measurement.label, 'formula', measurement.formula, null);
+    add('derived', measurement.label, 'value', measurement.value, null);
+  });
+
+  return rows;
+};
+
+// 「一列一個數值」的長表格：試算表可以直接樞紐分析，分析腳本也不用處理不同區塊的欄位
+export const serializeReportCsv = (report: MeasurementReport): string => {
+  const rows = getReportRows(report).map(row => [row.type, row.label, row.property, row.value, row.unit]);
+  // 加上 BOM，Excel 才會用 UTF-8 開啟（θ、中文標籤不會變亂碼）
+  return '\uFEFF' + [CSV_HEADER, ...rows].map(toCsvLine).join('\r\n') + '\r\n';
+};
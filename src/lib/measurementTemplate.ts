@@ -0,0 +1,239 @@
+import { Angle, DerivedMeasurement, DrawingDocument, Line, LineRatio, MeasurementTemplate, Point, TemplateAngle, TemplateLine, TemplateRatio } from '@/types/drawing';
+import { angleBetweenRays, resolveAngleRays } from '@/lib/angleGeometry';
+import { createMeasurePosition } from '@/lib/lensDistortion';
+import { renameFormulaVariables } from '@/lib/formula';
+
+export type MeasurementTemplateDefinition = Omit<MeasurementTemplate, 'id' | 'createdAt'>;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// 名稱後面加上編號，避開已經用掉的名稱
+const getUniqueLabel = (label: string, existingLabels: string[]): string => {
+  if (!existingLabels.includes(label)) return label;
+  for (let i = 2; i <= 99; i++) {
+    if (!existingLabels.includes(`${label}${i}`)) return `${label}${i}`;
+  }
+  return `${label}${existingLabels.length + 1}`;
+};
+
+// 範本的名稱優先：把 id 那一項改成 label，原本用這個名稱的其他項目改成加編號的名稱。
+// 範本的比值、衍生測量與批次彙整的欄位都用名稱對應，名稱一定要跟範本一致
+const claimLabel = <T extends { id: string; label: string }>(
+  items: T[],
+  id: string,
+  label: string,
+  reservedLabels: string[],
+): T[] => {
+  const taken = [...items.map(item => item.label), ...reservedLabels];
+  return items.map(item => {
+    if (item.id === id) return item.label === label ? item : { ...item, label };
+    if (item.label !== label) return item;
+    const unique = getUniqueLabel(label, taken);
+    taken.push(unique);
+    return { ...item, label: unique };
+  });
+};
+
+// 套用前後名稱有變的項目：舊名稱 → 新名稱
+const collectRenames = <T extends { id: string; label: string }>(
+  before: T[],
+  after: T[],
+  renames: Map<string, string>,
+) => {
+  const labelById = new Map(after.map(item => [item.id, item.label]));
+  before.forEach(item => {
+    const label = labelById.get(item.id);
+    if (label !== undefined && label !== item.label && !renames.has(item.label)) {
+      renames.set(item.label, label);
+    }
+  });
+};
+
+const findLineBetween = (lines: Line[], a: string, b: string): Line | undefined => {
+  return lines.find(line =>
+    (line.startPointId === a && line.endPointId === b) ||
+    (line.startPointId === b && line.endPointId === a)
+  );
+};
+
+// 把目前畫好的標記整理成範本：有名稱的標記點，以及只用到這些標記點的線段、角度、比值。
+// 衍生測量的公式只引用名稱，整批帶進範本
+export const createTemplateFromDocument = (name: string, doc: DrawingDocument): MeasurementTemplateDefinition => {
+  const landmarkNameById = new Map<string, string>();
+  const landmarks: string[] = [];
+  doc.points.forEach(point => {
+    const label = point.label?.trim();
+    if (!point.isLandmark || !label) return;
+    if (landmarks.includes(label)) {
+      throw new Error(`標記點名稱「${label}」重複，請先改成不同的名稱`);
+    }
+    landmarks.push(label);
+    landmarkNameById.set(point.id, label);
+  });
+  if (landmarks.length === 0) {
+    throw new Error('目前沒有命名的標記點，無法建立範本');
+  }
+
+  const templateLineById = new Map<string, TemplateLine>();
+  doc.lines.forEach(line => {
+    const from = landmarkNameById.get(line.startPointId);
+    const to = landmarkNameById.get(line.endPointId);
+    if (from && to) templateLineById.set(line.id, { label: line.label, from, to });
+  });
+
+  const angles = doc.angles.flatMap((angle): TemplateAngle[] => {
+    if (angle.armPointIds) {
+      const names = [angle.armPointIds[0], angle.vertexPointId ?? '', angle.armPointIds[1]]
+        .map(id => landmarkNameById.get(id));
+      if (names.some(n => n === undefined)) return [];
+      return [{ label: angle.label, points: names as [string, string, string] }];
+    }
+    const line1 = templateLineById.get(angle.line1Id ?? '');
+    const line2 = templateLineById.get(angle.line2Id ?? '');
+    if (!line1 || !line2) return [];
+    return [{ label: angle.label, lines: [line1.label, line2.label] as [string, string] }];
+  });
+
+  const ratios: TemplateRatio[] = doc.ratios.flatMap(ratio => {
+    const numerator = templateLineById.get(ratio.numeratorLineId);
+    const denominator = templateLineById.get(ratio.denominatorLineId);
+    if (!numerator || !denominator) return [];
+    return [{ label: ratio.label, numerator: numerator.label, denominator: denominator.label }];
+  });
+
+  return {
+    name,
+    landmarks,
+    lines: Array.from(templateLineById.values()),
+    angles,
+    ratios,
+    derived: doc.derivedMeasurements.map(({ label, formula }) => ({ label, formula })),
+  };
+};
+
+// 圖片上已經有、而且名稱跟範本相同的標記點，套用時直接沿用，不必重新點選
+export const findTemplateLandmarks = (template: MeasurementTemplate, points: Point[]): Record<string, string> => {
+  const landmarkIds: Record<string, string> = {};
+  template.landmarks.forEach(name => {
+    const point = points.find(p => p.isLandmark && p.label === name);
+    if (point) landmarkIds[name] = point.id;
+  });
+  return landmarkIds;
+};
+
+// 下一個要點選的標記點；已放好的點被復原掉時，會再回到那一個
+export const getNextTemplateLandmark = (
+  template: MeasurementTemplate,
+  landmarkIds: Record<string, string>,
+  points: Point[],
+): string | null => {
+  const existingIds = new Set(points.map(p => p.id));
+  return template.landmarks.find(name => !existingIds.has(landmarkIds[name])) ?? null;
+};
+
+// 所有標記點都放好之後，依範本建立線段、角度、比值與衍生測量。
+// 已經存在的同一條線段、同一個角度、同一組比值不會重複建立，所以重新套用範本是安全的。
+// 線段、角度、比值一律用範本的名稱，圖片上撞名的標記改名，原有衍生測量的公式跟著改
+export const applyTemplateMeasurements = (
+  doc: DrawingDocument,
+  template: MeasurementTemplate,
+  landmarkIds: Record<string, string>,
+): DrawingDocument => {
+  const existingPointIds = new Set(doc.points.map(p => p.id));
+  const resolvePoint = (name: string) => {
+    const id = landmarkIds[name];
+    return id && existingPointIds.has(id) ? id : undefined;
+  };
+
+  let lines = [...doc.lines];
+  const templateLineLabels = template.lines.map(l => l.label);
+  const lineIdByTemplateLabel = new Map<string, string>();
+  template.lines.forEach(templateLine => {
+    const from = resolvePoint(templateLine.from);
+    const to = resolvePoint(templateLine.to);
+    if (!from || !to || from === to) return;
+    let line = findLineBetween(lines, from, to);
+    if (!line) {
+      line = { id: generateId(), label: templateLine.label, startPointId: from, endPointId: to };
+      lines.push(line);
+    }
+    lines = claimLabel(lines, line.id, templateLine.label, templateLineLabels);
+    lineIdByTemplateLabel.set(templateLine.label, line.id);
+  });
+
+  const measure = createMeasurePosition(doc.lensCorrection);
+  const pointById = new Map(doc.points.map(p => [p.id, p]));
+  const getMeasuredPosition = (id: string) => {
+    const point = pointById.get(id);
+    return point ? measure(point) : undefined;
+  };
+
+  let angles = [...doc.angles];
+  const templateAngleLabels = template.angles.map(a => a.label);
+  template.angles.forEach(templateAngle => {
+    let existing: Angle | undefined;
+    let definition: Omit<Angle, 'id' | 'label' | 'degrees'> | null = null;
+    if (templateAngle.points) {
+      const [arm1, vertex, arm2] = templateAngle.points.map(resolvePoint);
+      if (!arm1 || !vertex || !arm2) return;
+      existing = angles.find(a =>
+        a.armPointIds && a.vertexPointId === vertex &&
+        ((a.armPointIds[0] === arm1 && a.armPointIds[1] === arm2) || (a.armPointIds[0] === arm2 && a.armPointIds[1] === arm1))
+      );
+      definition = { vertexPointId: vertex, armPointIds: [arm1, arm2] };
+    } else if (templateAngle.lines) {
+      const [line1Id, line2Id] = templateAngle.lines.map(label => lineIdByTemplateLabel.get(label));
+      if (!line1Id || !line2Id || line1Id === line2Id) return;
+      existing = angles.find(a =>
+        (a.line1Id === line1Id && a.line2Id === line2Id) || (a.line1Id === line2Id && a.line2Id === line1Id)
+      );
+      const line1 = lines.find(l => l.id === line1Id);
+      const line2 = lines.find(l => l.id === line2Id);
+      const commonPointId = [line1.startPointId, line1.endPointId]
+        .find(id => id === line2.startPointId || id === line2.endPointId);
+      definition = { line1Id, line2Id, vertexPointId: commonPointId };
+    }
+    if (!definition) return;
+
+    let angle = existing;
+    if (!angle) {
+      angle = { id: generateId(), label: templateAngle.label, ...definition, degrees: 0 };
+      const rays = resolveAngleRays(angle, getMeasuredPosition, lines);
+      angle.degrees = rays ? angleBetweenRays(rays) : 0;
+      angles.push(angle);
+    }
+    angles = claimLabel(angles, angle.id, templateAngle.label, templateAngleLabels);
+  });
+
+  let ratios = [...doc.ratios];
+  const templateRatioLabels = template.ratios.map(r => r.label);
+  template.ratios.forEach(templateRatio => {
+    const numeratorLineId = lineIdByTemplateLabel.get(templateRatio.numerator);
+    const denominatorLineId = lineIdByTemplateLabel.get(templateRatio.denominator);
+    if (!numeratorLineId || !denominatorLineId) return;
+    let ratio = ratios.find(r => r.numeratorLineId === numeratorLineId && r.denominatorLineId === denominatorLineId);
+    if (!ratio) {
+      const created: LineRatio = { id: generateId(), label: templateRatio.label, numeratorLineId, denominatorLineId };
+      ratio = created;
+      ratios.push(created);
+    }
+    ratios = claimLabel(ratios, ratio.id, templateRatio.label, templateRatioLabels);
+  });
+
+  const renames = new Map<string, string>();
+  collectRenames(doc.lines, lines, renames);
+  collectRenames(doc.angles, angles, renames);
+  collectRenames(doc.ratios, ratios, renames);
+  const derivedMeasurements = renames.size === 0
+    ? [...doc.derivedMeasurements]
+    : doc.derivedMeasurements.map(d => ({ ...d, formula: renameFormulaVariables(d.formula, renames) }));
+
+  // 同名的衍生測量已經存在時保留圖片上的公式
+  (template.derived ?? []).forEach(templateDerived => {
+    if (derivedMeasurements.some(d => d.label === templateDerived.label)) return;
+    const measurement: DerivedMeasurement = { id: generateId(), ...templateDerived };
+    derivedMeasurements.push(measurement);
+  });
+
+  return { ...doc, lines, angles, ratios, derivedMeasurements };
+};
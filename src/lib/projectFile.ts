@@ -0,0 +1,309 @@
+import {
+  Angle,
+  AngleDisplayMode,
+  Calibration,
+  Circle,
+  DerivedMeasurement,
+  DrawingDocument,
+  LengthUnit,
+  LensCorrection,
+  Line,
+  LineRatio,
+  Point,
+  Polygon,
+  Rectification,
+} from '@/types/drawing';
+import { LENGTH_UNITS } from '@/lib/calibration';
+import { ANGLE_DISPLAY_MODES } from '@/lib/angleGeometry';
+
+export const PROJECT_FILE_FORMAT = 'draw-measure-project';
+// 每次 src/types/drawing.ts 的結構有不相容的變動就加一，並在 MIGRATIONS 補上升級函式
+export const PROJECT_FILE_VERSION = 8;
+
+export interface ProjectViewSettings {
+  showLengthLabels: boolean;
+  scale: number;
+}
+
+// 專案裡的一張圖片與畫在上面的標記、校正；每張圖片各自獨立
+export interface ProjectImage {
+  id: string;
+  name: string;
+  image: string | null; // 圖片以 data URL 直接內嵌，檔案可以單獨搬移；還沒載入圖片時為 null
+  document: DrawingDocument;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  images: ProjectImage[]; // 至少一張
+  activeImageId: string;
+  view: ProjectViewSettings;
+}
+
+// 專案檔是外部輸入，每一層都要先確認型別才能取用
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asObject = (value: unknown): RawObject => isObject(value) ? value : {};
+
+// v6 之後每張圖片各有一份繪圖資料，升級時逐張修改
+const mapImageDocuments = (data: RawObject, update: (doc: RawObject) => RawObject): RawObject => ({
+  ...data,
+  images: (Array.isArray(data.images) ? data.images : []).map(entry => {
+    const image = asObject(entry);
+    return { ...image, document: update(asObject(image.document)) };
+  }),
+});
+
+// key 是「舊版本號」，函式把該版本的資料升級成下一版。
+// 開檔時會從檔案版本一路套用到 PROJECT_FILE_VERSION。
+const MIGRATIONS: Record<number, (data: RawObject) => RawObject> = {
+  // v2：新增多邊形面積測量
+  1: (data) => ({
+    ...data,
+    document: { ...asObject(data.document), polygons: [] },
+  }),
+  // v3：圓加上自動編號的名稱
+  2: (data) => {
+    const document = asObject(data.document);
+    return {
+      ...data,
+      document: {
+        ...document,
+        circles: (Array.isArray(document.circles) ? document.circles : []).map((entry, index) => {
+          const circle = asObject(entry);
+          return { ...circle, label: circle.label ?? `C${index + 1}` };
+        }),
+      },
+    };
+  },
+  // v4：透視校正
+  3: (data) => ({
+    ...data,
+    document: { ...asObject(data.document), rectification: null },
+  }),
+  // v5：鏡頭畸變校正
+  4: (data) => ({
+    ...data,
+    document: { ...asObject(data.document), lensCorrection: null },
+  }),
+  // v6：一個專案可以有多張圖片
+  5: ({ image, document, ...data }) => ({
+    ...data,
+    images: [{ id: 'image-1', name: '圖片 1', image, document }],
+    activeImageId: 'image-1',
+  }),
+  // v7：有名稱的線段長度比
+  6: (data) => mapImageDocuments(data, doc => ({ ...doc, ratios: [] })),
+  // v8：以公式定義的衍生測量
+  7: (data) => mapImageDocuments(data, doc => ({ ...doc, derivedMeasurements: [] })),
+};
+
+export const DEFAULT_VIEW_SETTINGS: ProjectViewSettings = {
+  showLengthLabels: false,
+  scale: 1,
+};
+
+export const EMPTY_DOCUMENT: DrawingDocument = {
+  points: [],
+  lines: [],
+  angles: [],
+  circles: [],
+  polygons: [],
+  calibration: null,
+  rectification: null,
+  lensCorrection: null,
+  ratios: [],
+  derivedMeasurements: [],
+};
+
+const generateImageId = () => `image-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+export const createProjectImage = (
+  image: string | null,
+  name: string,
+  document: DrawingDocument = EMPTY_DOCUMENT,
+): ProjectImage => ({
+  id: generateImageId(),
+  name,
+  image,
+  document,
+});
+
+export const createProjectFile = (
+  images: ProjectImage[],
+  activeImageId: string,
+  view: ProjectViewSettings,
+): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+  images,
+  activeImageId,
+  view,
+});
+
+export const serializeProject = (project: ProjectFile): string => {
+  return JSON.stringify(project, null, 2);
+};
+
+const migrateProject = (data: RawObject): RawObject => {
+  let current = data;
+  let version = typeof current.version === 'number' ? current.version : 0;
+
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`專案檔版本 ${version} 比目前程式支援的版本 ${PROJECT_FILE_VERSION} 新，請更新程式`);
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`無法升級版本 ${version} 的專案檔`);
+    }
+    current = { ...migrate(current), version: version + 1 };
+    version += 1;
+  }
+  return current;
+};
+
+const asArray = (value: unknown, field: string): unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`專案檔缺少 ${field} 資料`);
+  }
+  return value;
+};
+
+const formatError = (field: string) => new Error(`專案檔的 ${field} 資料格式錯誤`);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isLengthUnit = (value: unknown): value is LengthUnit => LENGTH_UNITS.includes(value as LengthUnit);
+const hasStrings = (item: RawObject, keys: string[]) => keys.every(key => isString(item[key]));
+
+// 繪圖與量測會直接讀取的欄位都要有正確的型別，否則開檔後才在畫面上出錯
+const isPoint = (item: RawObject) =>
+  hasStrings(item, ['id']) && isFiniteNumber(item.x) && isFiniteNumber(item.y) &&
+  isOptional(item.isLandmark, value => typeof value === 'boolean') && isOptional(item.label, isString);
+
+const isLine = (item: RawObject) => hasStrings(item, ['id', 'label', 'startPointId', 'endPointId']);
+
+const isAngle = (item: RawObject) =>
+  hasStrings(item, ['id', 'label']) && isFiniteNumber(item.degrees) &&
+  isOptional(item.line1Id, isString) && isOptional(item.line2Id, isString) && isOptional(item.vertexPointId, isString) &&
+  isOptional(item.armPointIds, value => isStringArray(value) && value.length === 2) &&
+  isOptional(item.displayMode, value => ANGLE_DISPLAY_MODES.includes(value as AngleDisplayMode)) &&
+  ((isString(item.line1Id) && isString(item.line2Id)) || item.armPointIds !== undefined);
+
+const isCircle = (item: RawObject) =>
+  hasStrings(item, ['id', 'label']) && isFiniteNumber(item.centerX) && isFiniteNumber(item.centerY) &&
+  isFiniteNumber(item.radius) && item.radius >= 0 && isOptional(item.fitResidual, isFiniteNumber);
+
+const isPolygon = (item: RawObject) => hasStrings(item, ['id', 'label']) && isStringArray(item.pointIds);
+
+const isRatio = (item: RawObject) => hasStrings(item, ['id', 'label', 'numeratorLineId', 'denominatorLineId']);
+
+const isDerivedMeasurement = (item: RawObject) => hasStrings(item, ['id', 'label', 'formula']);
+
+const isVec2 = (value: unknown) => isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isCalibration = (item: RawObject) =>
+  (item.referenceLineId === null || isString(item.referenceLineId)) &&
+  isPositiveNumber(item.pixelLength) && isPositiveNumber(item.realLength) && isLengthUnit(item.unit);
+
+const isRectification = (item: RawObject) =>
+  Array.isArray(item.corners) && item.corners.length === 4 && item.corners.every(isVec2) &&
+  isPositiveNumber(item.width) && isPositiveNumber(item.height) && isLengthUnit(item.unit);
+
+const isLensCorrection = (item: RawObject) => {
+  const coefficients = asObject(item.coefficients);
+  return isString(item.profileName) &&
+    ['k1', 'k2', 'p1', 'p2'].every(key => isFiniteNumber(coefficients[key])) &&
+    isFiniteNumber(item.centerX) && isFiniteNumber(item.centerY) && isPositiveNumber(item.focal);
+};
+
+const readEntities = <T>(value: unknown, field: string, isValid: (item: RawObject) => boolean): T[] => {
+  const items = asArray(value, field);
+  if (!items.every(item => isObject(item) && isValid(item))) {
+    throw formatError(field);
+  }
+  return items as T[];
+};
+
+const readOptionalEntity = <T>(value: unknown, field: string, isValid: (item: RawObject) => boolean): T | null => {
+  if (value === undefined || value === null) return null;
+  if (!isObject(value) || !isValid(value)) {
+    throw formatError(field);
+  }
+  return value as T;
+};
+
+// 顯示設定壞掉不影響標記，改用預設值就好
+const normalizeViewSettings = (value: unknown): ProjectViewSettings => {
+  const view = asObject(value);
+  return {
+    showLengthLabels: typeof view.showLengthLabels === 'boolean' ? view.showLengthLabels : DEFAULT_VIEW_SETTINGS.showLengthLabels,
+    scale: isPositiveNumber(view.scale) ? view.scale : DEFAULT_VIEW_SETTINGS.scale,
+  };
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 檔案');
+  }
+  return normalizeProject(data);
+};
+
+const normalizeImage = (value: unknown, index: number): ProjectImage => {
+  const entry = asObject(value);
+  const doc = asObject(entry.document);
+  return {
+    id: isString(entry.id) ? entry.id : generateImageId(),
+    name: isString(entry.name) ? entry.name : `圖片 ${index + 1}`,
+    image: isString(entry.image) ? entry.image : null,
+    document: {
+      points: readEntities<Point>(doc.points, 'points', isPoint),
+      lines: readEntities<Line>(doc.lines, 'lines', isLine),
+      angles: readEntities<Angle>(doc.angles, 'angles', isAngle),
+      circles: readEntities<Circle>(doc.circles, 'circles', isCircle),
+      polygons: readEntities<Polygon>(doc.polygons, 'polygons', isPolygon),
+      calibration: readOptionalEntity<Calibration>(doc.calibration, 'calibration', isCalibration),
+      rectification: readOptionalEntity<Rectification>(doc.rectification, 'rectification', isRectification),
+      lensCorrection: readOptionalEntity<LensCorrection>(doc.lensCorrection, 'lensCorrection', isLensCorrection),
+      ratios: readEntities<LineRatio>(doc.ratios, 'ratios', isRatio),
+      derivedMeasurements: readEntities<DerivedMeasurement>(doc.derivedMeasurements, 'derivedMeasurements', isDerivedMeasurement),
+    },
+  };
+};
+
+// 驗證並升級任何來源（檔案、IndexedDB）讀進來的專案資料
+export const normalizeProject = (data: unknown): ProjectFile => {
+  if (!isObject(data) || data.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('不是測量工具的專案檔');
+  }
+
+  const migrated = migrateProject(data);
+  const images = asArray(migrated.images, 'images').map(normalizeImage);
+  if (images.length === 0) {
+    throw new Error('專案檔沒有任何圖片');
+  }
+  const activeImage = images.find(entry => entry.id === migrated.activeImageId) ?? images[0];
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: isString(migrated.savedAt) ? migrated.savedAt : new Date().toISOString(),
+    images,
+    activeImageId: activeImage.id,
+    view: normalizeViewSettings(migrated.view),
+  };
+};
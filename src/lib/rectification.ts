@@ -0,0 +1,132 @@
+import { Angle, AngleDisplayMode, LengthUnit, Line, Rectification } from '@/types/drawing';
+import { Vec2, distance, polygonArea, polygonPerimeter } from '@/lib/geometry';
+import { measureAngle, resolveAngleGeometry } from '@/lib/angleGeometry';
+
+// 3×3 單應矩陣（列優先），最後一個元素固定為 1
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+export const RECTIFICATION_CORNER_LABELS = ['左上', '右上', '右下', '左下'];
+
+// 高斯消去法（部分選主元）；矩陣奇異時回傳 null
+export const solveLinearSystem = (matrix: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+// 由對應點求出把 src 映到 dst 的單應矩陣（直接線性轉換，h33 = 1）。
+// 剛好四組時直接解；超過四組時用正規方程求最小平方解
+export const computeHomography = (src: Vec2[], dst: Vec2[]): Homography | null => {
+  if (src.length < 4 || src.length !== dst.length) return null;
+  const matrix: number[][] = [];
+  const rhs: number[] = [];
+  src.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = dst[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    rhs.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    rhs.push(v);
+  });
+  let h: number[] | null;
+  if (src.length === 4) {
+    h = solveLinearSystem(matrix, rhs);
+  } else {
+    const normal = Array.from({ length: 8 }, (_, i) =>
+      Array.from({ length: 8 }, (_, j) => matrix.reduce((sum, row) => sum + row[i] * row[j], 0)),
+    );
+    const normalRhs = Array.from({ length: 8 }, (_, i) => matrix.reduce((sum, row, k) => sum + row[i] * rhs[k], 0));
+    h = solveLinearSystem(normal, normalRhs);
+  }
+  return h ? [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1] : null;
+};
+
+export const applyHomography = (h: Homography, { x, y }: Vec2): Vec2 => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+};
+
+// 四個角依序相連必須是凸四邊形：每個轉角的外積同號，且不能有三點共線
+const isConvexQuad = (corners: Vec2[]): boolean => {
+  const crosses = corners.map((p, i) => {
+    const q = corners[(i + 1) % 4];
+    const r = corners[(i + 2) % 4];
+    return (q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x);
+  });
+  return crosses.every(c => c > 1e-9) || crosses.every(c => c < -1e-9);
+};
+
+const getPlaneHomography = (corners: Vec2[], width: number, height: number) => {
+  return computeHomography(corners, [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ]);
+};
+
+// 驗證點選的四個角與輸入的實際尺寸；不合理時丟出錯誤訊息給面板顯示
+export const createRectification = (corners: Vec2[], width: number, height: number, unit: LengthUnit): Rectification => {
+  if (corners.length !== 4) {
+    throw new Error('請先點選長方形的四個角');
+  }
+  if (!Number.isFinite(width) || width <= 0 || !Number.isFinite(height) || height <= 0) {
+    throw new Error('實際寬度與高度必須是大於 0 的數字');
+  }
+  if (!isConvexQuad(corners) || !getPlaneHomography(corners, width, height)) {
+    throw new Error('四個角必須依序圍成凸四邊形');
+  }
+  const [a, b, c, d] = corners.map(p => ({ x: p.x, y: p.y }));
+  return { corners: [a, b, c, d], width, height, unit };
+};
+
+// 在長方形所在平面上量測；長度與面積的單位是 rectification.unit
+export interface RectifiedMeasurer {
+  unit: LengthUnit;
+  toPlane: (p: Vec2) => Vec2;
+  length: (a: Vec2, b: Vec2) => number;
+  area: (vertices: Vec2[]) => number;
+  perimeter: (vertices: Vec2[]) => number;
+  // 依角度的顯示方式換算；校正後兩邊平行或無法計算時回傳 null
+  angle: (angle: Angle, lookup: (pointId: string) => Vec2 | undefined, lines: Line[], mode?: AngleDisplayMode) => number | null;
+}
+
+export const createRectifiedMeasurer = (rectification: Rectification): RectifiedMeasurer | null => {
+  const h = getPlaneHomography(rectification.corners, rectification.width, rectification.height);
+  if (!h) return null;
+  const toPlane = (p: Vec2) => applyHomography(h, p);
+  return {
+    unit: rectification.unit,
+    toPlane,
+    length: (a, b) => distance(toPlane(a), toPlane(b)),
+    area: vertices => polygonArea(vertices.map(toPlane)),
+    perimeter: vertices => polygonPerimeter(vertices.map(toPlane)),
+    angle: (angle, lookup, lines, mode = angle.displayMode ?? 'interior') => {
+      const geometry = resolveAngleGeometry(angle, id => {
+        const p = lookup(id);
+        return p ? toPlane(p) : undefined;
+      }, lines);
+      return geometry?.kind === 'rays' ? measureAngle(geometry.rays, mode) : null;
+    },
+  };
+};
@@ -0,0 +1,320 @@
+import { CameraProfile, MeasurementTemplate } from '@/types/drawing';
+import { ProjectFile, normalizeProject } from '@/lib/projectFile';
+
+const DB_NAME = 'draw-measure';
+const DB_VERSION = 5;
+const SESSION_STORE = 'sessions';
+// v4：專案另外存，清單只讀縮圖與摘要，開啟時才讀專案
+const SESSION_PROJECT_STORE = 'sessionProjects';
+// v5：圖片以 Blob 各自存一筆（key 為 [sessionId, imageId]），專案只留繪圖資料；
+// 自動儲存時只寫有變動的圖片，移動一個點不用把整批圖片重寫一次
+const SESSION_IMAGE_STORE = 'sessionImages';
+// v2：鏡頭校正的相機設定檔，跟著瀏覽器而不是跟著專案檔
+const CAMERA_PROFILE_STORE = 'cameraProfiles';
+// v3：量測範本，同樣跟著瀏覽器
+const TEMPLATE_STORE = 'measurementTemplates';
+// 只保留最近幾次的工作階段，避免圖片 data URL 把瀏覽器空間塞滿
+export const MAX_SAVED_SESSIONS = 12;
+
+// 清單上顯示的數量，存檔時先算好
+export interface SessionSummary {
+  imageCount: number;
+  lineCount: number;
+  angleCount: number;
+  circleCount: number;
+}
+
+export interface SavedSession {
+  id: string;
+  updatedAt: number;
+  thumbnail: string | null;
+  summary: SessionSummary;
+}
+
+interface StoredSessionProject {
+  id: string;
+  project: ProjectFile; // 每張圖片的 image 都是 null，圖片在 SESSION_IMAGE_STORE
+}
+
+interface StoredSessionImage {
+  sessionId: string;
+  imageId: string;
+  blob: Blob;
+}
+
+// 自動儲存時要寫入圖片 store 的變動
+export interface SessionImageChanges {
+  changed: { id: string; image: string }[]; // 新增或內容改變（旋轉、裁切、校正）的圖片
+  removedIds: string[];
+}
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, comma);
+  const data = dataUrl.slice(comma + 1);
+  const type = /^data:([^;,]*)/.exec(header)?.[1] || 'application/octet-stream';
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error('無法讀取圖片'));
+  reader.readAsDataURL(blob);
+});
+
+const withoutImages = (project: ProjectFile): ProjectFile => ({
+  ...project,
+  images: project.images.map(entry => ({ ...entry, image: null })),
+});
+
+const putSessionImage = (store: IDBObjectStore, sessionId: string, imageId: string, image: string) => {
+  const record: StoredSessionImage = { sessionId, imageId, blob: dataUrlToBlob(image) };
+  store.put(record);
+};
+
+const deleteSessionImages = (store: IDBObjectStore, sessionId: string) => {
+  const cursorRequest = store.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const summarizeProject = ({ images }: ProjectFile): SessionSummary => {
+  const count = (key: 'lines' | 'angles' | 'circles') => images.reduce((sum, entry) => sum + entry.document[key].length, 0);
+  return {
+    imageCount: images.length,
+    lineCount: count('lines'),
+    angleCount: count('angles'),
+    circleCount: count('circles'),
+  };
+};
+
+const EMPTY_SUMMARY: SessionSummary = { imageCount: 0, lineCount: 0, angleCount: 0, circleCount: 0 };
+
+// 舊版存的專案內嵌了圖片：升級時把圖片拆到圖片 store，回傳不含圖片的專案。
+// 讀不懂的專案原樣保留，開啟時會顯示錯誤
+const splitProjectImages = (images: IDBObjectStore, sessionId: string, raw: unknown): unknown => {
+  try {
+    const project = normalizeProject(raw);
+    project.images.forEach(entry => {
+      if (entry.image) putSessionImage(images, sessionId, entry.id, entry.image);
+    });
+    return withoutImages(project);
+  } catch (err) {
+    console.warn('無法讀取工作階段的專案:', sessionId, err);
+    return raw;
+  }
+};
+
+// v3 以前工作階段整筆存在 sessions 裡，升級時把專案搬到另一個 store，原本那筆只留清單資料
+const splitStoredSessions = (transaction: IDBTransaction) => {
+  const projects = transaction.objectStore(SESSION_PROJECT_STORE);
+  const images = transaction.objectStore(SESSION_IMAGE_STORE);
+  const cursorRequest = transaction.objectStore(SESSION_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { project, ...session } = cursor.value;
+    let summary = EMPTY_SUMMARY;
+    try {
+      summary = summarizeProject(normalizeProject(project));
+    } catch (err) {
+      console.warn('無法讀取工作階段的摘要:', session.id, err);
+    }
+    projects.put({ id: session.id, project: splitProjectImages(images, session.id, project) });
+    cursor.update({ ...session, summary });
+    cursor.continue();
+  };
+};
+
+// v4 的專案 store 裡每張圖片都內嵌在專案中，升級時拆出來
+const splitStoredProjectImages = (transaction: IDBTransaction) => {
+  const images = transaction.objectStore(SESSION_IMAGE_STORE);
+  const cursorRequest = transaction.objectStore(SESSION_PROJECT_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { id, project } = cursor.value;
+    cursor.update({ id, project: splitProjectImages(images, id, project) });
+    cursor.continue();
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('此瀏覽器不支援 IndexedDB'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      const hasProjectStore = db.objectStoreNames.contains(SESSION_PROJECT_STORE);
+      if (!hasProjectStore) {
+        db.createObjectStore(SESSION_PROJECT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_IMAGE_STORE)) {
+        const store = db.createObjectStore(SESSION_IMAGE_STORE, { keyPath: ['sessionId', 'imageId'] });
+        store.createIndex('sessionId', 'sessionId');
+        if (event.oldVersion > 0) {
+          if (hasProjectStore) {
+            splitStoredProjectImages(request.transaction);
+          } else {
+            splitStoredSessions(request.transaction);
+          }
+        }
+      }
+      if (!db.objectStoreNames.contains(CAMERA_PROFILE_STORE)) {
+        db.createObjectStore(CAMERA_PROFILE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+        db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('無法開啟 IndexedDB'));
+  });
+  // 開啟失敗時允許下次重試
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+// 把 IDBRequest 包成 Promise，交易完成（資料真的寫入）才 resolve
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = SESSION_STORE,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('交易已中止'));
+  });
+};
+
+// 同時寫入清單、專案與圖片三個 store，不會只更新一部分
+const updateSessionStores = async (
+  action: (sessions: IDBObjectStore, projects: IDBObjectStore, images: IDBObjectStore) => void,
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, SESSION_PROJECT_STORE, SESSION_IMAGE_STORE], 'readwrite');
+    action(
+      transaction.objectStore(SESSION_STORE),
+      transaction.objectStore(SESSION_PROJECT_STORE),
+      transaction.objectStore(SESSION_IMAGE_STORE),
+    );
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('交易已中止'));
+  });
+};
+
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await runTransaction<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSessionProject = async (id: string): Promise<ProjectFile> => {
+  const stored = await runTransaction<StoredSessionProject | undefined>(
+    'readonly',
+    store => store.get(id),
+    SESSION_PROJECT_STORE,
+  );
+  if (!stored) {
+    throw new Error('找不到這個工作階段的資料');
+  }
+  const storedImages = await runTransaction<StoredSessionImage[]>(
+    'readonly',
+    store => store.index('sessionId').getAll(id),
+    SESSION_IMAGE_STORE,
+  );
+  const images = new Map(await Promise.all(
+    storedImages.map(async ({ imageId, blob }) => [imageId, await blobToDataUrl(blob)] as const),
+  ));
+  // 舊版程式存的工作階段也要經過專案檔的升級流程
+  const project = normalizeProject(stored.project);
+  return {
+    ...project,
+    images: project.images.map(entry => ({ ...entry, image: images.get(entry.id) ?? null })),
+  };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await updateSessionStores((sessions, projects, images) => {
+    sessions.delete(id);
+    projects.delete(id);
+    deleteSessionImages(images, id);
+  });
+};
+
+// 專案一律不含圖片寫入；圖片只寫 imageChanges 列出的
+export const saveSession = async (
+  session: SavedSession,
+  project: ProjectFile,
+  imageChanges: SessionImageChanges,
+): Promise<void> => {
+  await updateSessionStores((sessions, projects, images) => {
+    sessions.put(session);
+    projects.put({ id: session.id, project: withoutImages(project) });
+    imageChanges.changed.forEach(({ id, image }) => putSessionImage(images, session.id, id, image));
+    imageChanges.removedIds.forEach(id => images.delete([session.id, id]));
+  });
+
+  const sessions = await listSessions();
+  const expired = sessions.slice(MAX_SAVED_SESSIONS);
+  for (const old of expired) {
+    await deleteSession(old.id);
+  }
+};
+
+export const listCameraProfiles = async (): Promise<CameraProfile[]> => {
+  const profiles = await runTransaction<CameraProfile[]>('readonly', store => store.getAll(), CAMERA_PROFILE_STORE);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCameraProfile = async (profile: CameraProfile): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(profile), CAMERA_PROFILE_STORE);
+};
+
+export const deleteCameraProfile = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id), CAMERA_PROFILE_STORE);
+};
+
+export const listMeasurementTemplates = async (): Promise<MeasurementTemplate[]> => {
+  const templates = await runTransaction<MeasurementTemplate[]>('readonly', store => store.getAll(), TEMPLATE_STORE);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveMeasurementTemplate = async (template: MeasurementTemplate): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(template), TEMPLATE_STORE);
+};
+
+export const deleteMeasurementTemplate = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id), TEMPLATE_STORE);
+};
@@ -0,0 +1,127 @@
+import { AngleSnapIncrement, Circle, Line, Point, SnapTargetKind } from '@/types/drawing';
+import { Vec2, distance, midpoint } from '@/lib/geometry';
+
+export const SNAP_TARGET_KINDS: SnapTargetKind[] = ['point', 'midpoint', 'lineBody', 'circleCenter', 'circumference'];
+
+export const SNAP_TARGET_LABELS: Record<SnapTargetKind, string> = {
+  point: '端點',
+  midpoint: '中點',
+  lineBody: '線段上',
+  circleCenter: '圓心',
+  circumference: '圓周',
+};
+
+export const DEFAULT_SNAP_TARGETS: Record<SnapTargetKind, boolean> = {
+  point: true,
+  midpoint: true,
+  lineBody: true,
+  circleCenter: true,
+  circumference: true,
+};
+
+// 線段連同端點座標；查詢空間索引時不用再回頭找端點
+export interface SnapSegment {
+  lineId: string;
+  start: Point;
+  end: Point;
+}
+
+// 可以只放游標附近的候選（由空間索引查出），不必是全部項目
+export interface SnapScene {
+  points: Point[];
+  segments: SnapSegment[];
+  circles: Circle[];
+}
+
+export interface SnapOptions {
+  targets: Record<SnapTargetKind, boolean>;
+  tolerance: number; // 圖片像素，由畫布依目前的顯示比例換算
+  // 拖曳中的點不能吸附到自己，也不能吸附到跟著它移動的線段
+  excludePointId?: string | null;
+}
+
+export interface SnapResult extends Vec2 {
+  kind: SnapTargetKind;
+  targetId: string; // 吸附到的點、線段或圓的 id
+}
+
+// 同時有多個候選時，精確的位置（端點、中點、圓心）優先於「線上任一點」
+const SNAP_PRIORITY: Record<SnapTargetKind, number> = {
+  point: 0,
+  midpoint: 1,
+  circleCenter: 1,
+  lineBody: 2,
+  circumference: 2,
+};
+
+// 線段上離 p 最近的一點
+export const closestPointOnSegment = (p: Vec2, a: Vec2, b: Vec2): Vec2 => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return { x: a.x, y: a.y };
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export const getSnapSegments = (points: Point[], lines: Line[]): SnapSegment[] => {
+  const pointById = new Map(points.map(p => [p.id, p]));
+  return lines.flatMap(line => {
+    const start = pointById.get(line.startPointId);
+    const end = pointById.get(line.endPointId);
+    return start && end ? [{ lineId: line.id, start, end }] : [];
+  });
+};
+
+export const findSnapTarget = (position: Vec2, scene: SnapScene, options: SnapOptions): SnapResult | null => {
+  const { targets, tolerance, excludePointId = null } = options;
+  const candidates: (SnapResult & { distance: number })[] = [];
+  const consider = (kind: SnapTargetKind, targetId: string, at: Vec2) => {
+    const d = distance(position, at);
+    if (d <= tolerance) candidates.push({ x: at.x, y: at.y, kind, targetId, distance: d });
+  };
+
+  if (targets.point) {
+    scene.points.forEach(p => {
+      if (p.id !== excludePointId) consider('point', p.id, p);
+    });
+  }
+
+  scene.segments.forEach(({ lineId, start, end }) => {
+    if (start.id === excludePointId || end.id === excludePointId) return;
+    if (targets.midpoint) consider('midpoint', lineId, midpoint(start, end));
+    if (targets.lineBody) consider('lineBody', lineId, closestPointOnSegment(position, start, end));
+  });
+
+  scene.circles.forEach(circle => {
+    const center = { x: circle.centerX, y: circle.centerY };
+    if (targets.circleCenter) consider('circleCenter', circle.id, center);
+    if (targets.circumference) {
+      const d = distance(position, center);
+      if (d > 0) {
+        consider('circumference', circle.id, {
+          x: center.x + ((position.x - center.x) / d) * circle.radius,
+          y: center.y + ((position.y - center.y) / d) * circle.radius,
+        });
+      }
+    }
+  });
+
+  if (candidates.length === 0) return null;
+  const best = candidates.reduce((a, b) => {
+    const priorityDiff = SNAP_PRIORITY[a.kind] - SNAP_PRIORITY[b.kind];
+    if (priorityDiff !== 0) return priorityDiff < 0 ? a : b;
+    return a.distance <= b.distance ? a : b;
+  });
+  return { x: best.x, y: best.y, kind: best.kind, targetId: best.targetId };
+};
+
+// 把 origin → position 的方向鎖定為 increment 的倍數，長度取 position 在該方向上的投影
+export const constrainToAngle = (origin: Vec2, position: Vec2, increment: AngleSnapIncrement): Vec2 => {
+  const dx = position.x - origin.x;
+  const dy = position.y - origin.y;
+  const step = (increment * Math.PI) / 180;
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  const length = Math.max(0, dx * Math.cos(angle) + dy * Math.sin(angle));
+  return { x: origin.x + length * Math.cos(angle), y: origin.y + length * Math.sin(angle) };
+};
@@ -0,0 +1,107 @@
+import { Vec2 } from '@/lib/geometry';
+import { Bounds } from '@/lib/viewport';
+
+// 均勻網格索引：每個項目依外框放進涵蓋到的格子，查詢時只看附近的格子，
+// 上千個點的專案在滑鼠移動、點擊、拖曳時也不用每次掃過全部項目
+export interface SpatialIndex<T> {
+  query: (bounds: Bounds) => T[];
+  queryRadius: (center: Vec2, radius: number) => T[];
+  // 拖曳時只換掉移動的項目，不用整個重建；previous 必須是先前放進索引的同一個物件
+  update: (previous: T, next: T) => void;
+}
+
+// 圖片像素；大約是一般標記間距的尺度
+const DEFAULT_CELL_SIZE = 64;
+// 外框跨越太多格的項目（很長的線段、很大的圓）不拆格，每次查詢都列入候選
+const MAX_CELLS_PER_ITEM = 256;
+
+export const createSpatialIndex = <T>(
+  items: T[],
+  getItemBounds: (item: T) => Bounds | null,
+  cellSize = DEFAULT_CELL_SIZE,
+): SpatialIndex<T> => {
+  const cells = new Map<string, T[]>();
+  const oversized: T[] = [];
+  const toCell = (value: number) => Math.floor(value / cellSize);
+
+  // 找出項目所在的格子；跨太多格時回傳 null，改放進 oversized
+  const getCellKeys = (bounds: Bounds): string[] | null => {
+    const minCol = toCell(bounds.minX);
+    const maxCol = toCell(bounds.maxX);
+    const minRow = toCell(bounds.minY);
+    const maxRow = toCell(bounds.maxY);
+    if ((maxCol - minCol + 1) * (maxRow - minRow + 1) > MAX_CELLS_PER_ITEM) return null;
+    const keys: string[] = [];
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        keys.push(`${col},${row}`);
+      }
+    }
+    return keys;
+  };
+
+  const insert = (item: T) => {
+    const bounds = getItemBounds(item);
+    if (!bounds) return;
+    const keys = getCellKeys(bounds);
+    if (!keys) {
+      oversized.push(item);
+      return;
+    }
+    keys.forEach(key => {
+      const cell = cells.get(key);
+      if (cell) cell.push(item);
+      else cells.set(key, [item]);
+    });
+  };
+
+  const removeFrom = (list: T[], item: T) => {
+    const index = list.indexOf(item);
+    if (index !== -1) list.splice(index, 1);
+  };
+
+  const remove = (item: T) => {
+    const bounds = getItemBounds(item);
+    if (!bounds) return;
+    const keys = getCellKeys(bounds);
+    if (!keys) {
+      removeFrom(oversized, item);
+      return;
+    }
+    keys.forEach(key => {
+      const cell = cells.get(key);
+      if (!cell) return;
+      removeFrom(cell, item);
+      if (cell.length === 0) cells.delete(key);
+    });
+  };
+
+  items.forEach(insert);
+
+  const query = (bounds: Bounds): T[] => {
+    // 跨格的項目會出現在多個格子裡，用 Set 去重
+    const found = new Set<T>(oversized);
+    for (let col = toCell(bounds.minX); col <= toCell(bounds.maxX); col++) {
+      for (let row = toCell(bounds.minY); row <= toCell(bounds.maxY); row++) {
+        cells.get(`${col},${row}`)?.forEach(item => found.add(item));
+      }
+    }
+    return [...found];
+  };
+
+  return {
+    query,
+    queryRadius: (center, radius) => query({
+      minX: center.x - radius,
+      minY: center.y - radius,
+      maxX: center.x + radius,
+      maxY: center.y + radius,
+    }),
+    update: (previous, next) => {
+      remove(previous);
+      insert(next);
+    },
+  };
+};
+
+export const getPointBounds = (p: Vec2): Bounds => ({ minX: p.x, minY: p.y, maxX: p.x, maxY: p.y });
@@ -0,0 +1,21 @@
+// 把圖片縮成小張 JPEG 縮圖（data URL），用在工作階段清單等只需要預覽的地方
+export const createThumbnail = (imageSrc: string, maxSize = 160): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const ratio = Math.min(maxSize / img.width, maxSize / img.height, 1);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * ratio));
+      canvas.height = Math.max(1, Math.round(img.height * ratio));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('無法建立縮圖'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => reject(new Error('無法載入圖片'));
+    img.src = imageSrc;
+  });
+};
@@ -0,0 +1,100 @@
+import { Vec2 } from '@/lib/geometry';
+
+// 縮放範圍：5% ~ 500%（相對於圖片原始像素）
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 5;
+// 按鈕與快捷鍵每次縮放的倍率；滾輪另外用較細的 10%
+export const ZOOM_STEP = 1.25;
+export const WHEEL_ZOOM_STEP = 1.1;
+// 對應畫布容器的 p-8（2rem，即上下左右各 32px）留白
+export const VIEWPORT_PADDING = 64;
+
+// 命中判定的範圍一律用螢幕像素定義，使用時除以 scale 換成圖片座標，
+// 不論縮放到 5% 還是 500%，滑鼠要靠多近才算點到都一樣
+export const HIT_TOLERANCE = 15;     // 點擊時合併到既有點、吸附的距離
+export const POINT_HIT_RADIUS = 20;  // 點的可點擊範圍
+export const STROKE_HIT_WIDTH = 12;  // 圓周、多邊形邊、角度圓弧的可點擊寬度
+export const LINE_HIT_WIDTH = 16;    // 線段的可點擊寬度
+
+export const toImageDistance = (screenPixels: number, scale: number): number => screenPixels / scale;
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const clampScale = (scale: number): number => {
+  return Math.min(Math.max(MIN_SCALE, scale), MAX_SCALE);
+};
+
+// 讓一塊區域完整顯示在可視範圍內的縮放比例
+export const getScaleToFit = (
+  viewport: { width: number; height: number },
+  content: { width: number; height: number },
+): number => {
+  const availableWidth = Math.max(viewport.width - VIEWPORT_PADDING, 100);
+  const availableHeight = Math.max(viewport.height - VIEWPORT_PADDING, 100);
+  return clampScale(Math.min(availableWidth / content.width, availableHeight / content.height));
+};
+
+export const getBounds = (positions: Vec2[]): Bounds | null => {
+  if (positions.length === 0) return null;
+  return positions.reduce<Bounds>(
+    (bounds, p) => ({
+      minX: Math.min(bounds.minX, p.x),
+      minY: Math.min(bounds.minY, p.y),
+      maxX: Math.max(bounds.maxX, p.x),
+      maxY: Math.max(bounds.maxY, p.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity },
+  );
+};
+
+// 單一點或很小的選取範圍不要放大到極限，至少保留這麼大的周圍區域
+export const expandBounds = (bounds: Bounds, minSize: number): Bounds => {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const padX = Math.max(0, (minSize - width) / 2);
+  const padY = Math.max(0, (minSize - height) / 2);
+  return {
+    minX: bounds.minX - padX,
+    minY: bounds.minY - padY,
+    maxX: bounds.maxX + padX,
+    maxY: bounds.maxY + padY,
+  };
+};
+
+// 畫布上目前看得到的圖片範圍（圖片座標）。imageRect、viewportRect 是兩者在螢幕上的位置，
+// 圖片完全捲出可視範圍時回傳 null
+export const getVisibleImageRegion = (
+  imageRect: { left: number; top: number },
+  viewportRect: { left: number; top: number; right: number; bottom: number },
+  scale: number,
+  imageSize: { width: number; height: number },
+): Bounds | null => {
+  const region = {
+    minX: Math.max(0, (viewportRect.left - imageRect.left) / scale),
+    minY: Math.max(0, (viewportRect.top - imageRect.top) / scale),
+    maxX: Math.min(imageSize.width, (viewportRect.right - imageRect.left) / scale),
+    maxY: Math.min(imageSize.height, (viewportRect.bottom - imageRect.top) / scale),
+  };
+  return region.maxX > region.minX && region.maxY > region.minY ? region : null;
+};
+
+// 四周各多留 margin 倍的寬高，小幅捲動時不必重畫；結果不超出圖片
+export const padRegion = (region: Bounds, margin: number, imageSize: { width: number; height: number }): Bounds => {
+  const padX = (region.maxX - region.minX) * margin;
+  const padY = (region.maxY - region.minY) * margin;
+  return {
+    minX: Math.max(0, region.minX - padX),
+    minY: Math.max(0, region.minY - padY),
+    maxX: Math.min(imageSize.width, region.maxX + padX),
+    maxY: Math.min(imageSize.height, region.maxY + padY),
+  };
+};
+
+export const containsBounds = (outer: Bounds, inner: Bounds): boolean => {
+  return inner.minX >= outer.minX && inner.minY >= outer.minY && inner.maxX <= outer.maxX && inner.maxY <= outer.maxY;
+};
@@ -1,26 +1,73 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useDrawingState } from '@/hooks/useDrawingState';
+import { useSessionAutosave } from '@/hooks/useSessionAutosave';
+import { useProjectImages } from '@/hooks/useProjectImages';
+import { useCameraProfiles } from '@/hooks/useCameraProfiles';
+import { useMeasurementTemplates } from '@/hooks/useMeasurementTemplates';
+import { CameraProfile, CanvasSettings, ImageExportOptions, ImageOrientationChange, MeasurementTemplate } from '@/types/drawing';
 import { DrawingCanvas, DrawingCanvasRef } from '@/components/drawing/DrawingCanvas';
 import { Toolbar } from '@/components/drawing/Toolbar';
 import { MeasurementTable } from '@/components/drawing/MeasurementTable';
 import { ImageUploader } from '@/components/drawing/ImageUploader';
-import { ArrowLeftRight, Ruler } from 'lucide-react';
+import { ImageFilmstrip } from '@/components/drawing/ImageFilmstrip';
+import { CalibrationPanel } from '@/components/drawing/CalibrationPanel';
+import { RectificationPanel } from '@/components/drawing/RectificationPanel';
+import { LensCalibrationPanel } from '@/components/drawing/LensCalibrationPanel';
+import { MeasurementTemplatePanel } from '@/components/drawing/MeasurementTemplatePanel';
+import { BatchPanel, BatchSeed } from '@/components/drawing/BatchPanel';
+import { DerivedMeasurementPanel } from '@/components/drawing/DerivedMeasurementPanel';
+import { ProjectActions } from '@/components/drawing/ProjectActions';
+import { RecentSessionsDialog, RecentSessionsDialogMode } from '@/components/drawing/RecentSessionsDialog';
+import { ZoomControls } from '@/components/drawing/ZoomControls';
+import { CanvasSettingsPopover } from '@/components/drawing/CanvasSettingsPopover';
+import { ImageTransformPanel } from '@/components/drawing/ImageTransformPanel';
+import { formatLength } from '@/lib/calibration';
+import { ProjectFile, createProjectFile, parseProject, serializeProject } from '@/lib/projectFile';
+import { SavedSession, loadSessionProject } from '@/lib/sessionStore';
+import { downloadTextFile, readFileAsText } from '@/lib/download';
+import { fitCircleLeastSquares } from '@/lib/circleFit';
+import { buildMeasurementReport, evaluateDerivedMeasurements, getDocumentFormulaVariables, serializeReportCsv, serializeReportJson } from '@/lib/measurementExport';
+import { Bounds, WHEEL_ZOOM_STEP } from '@/lib/viewport';
+import { DEFAULT_SNAP_TARGETS } from '@/lib/snapping';
+import { ImageTransform, applyMatrix, getCropTransform, getOrientationTransform, getRotationTransform, getStraightenAngle, loadImage, renderTransformedImage, transformDocument } from '@/lib/imageTransform';
+import { LensCalibrationResult, createLensCorrection, estimateLensDistortion, renderUndistortedImage, undistortDocument, undistortPoint } from '@/lib/lensDistortion';
+import { createTemplateFromDocument } from '@/lib/measurementTemplate';
+import { buildBatchReport, copyDocumentGeometry, hasAnnotations, serializeBatchCsv, serializeBatchJson } from '@/lib/batchMeasurement';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ArrowLeftRight, Plus, Ruler } from 'lucide-react';
 
 const Index = () => {
   // 1. 建立給 Canvas 使用的 Ref
   const canvasRef = useRef<DrawingCanvasRef>(null);
   
-  const [image, setImage] = useState<string | null>(null);
   const [showLengthLabels, setShowLengthLabels] = useState(false);
+  const [canvasSettings, setCanvasSettings] = useState<CanvasSettings>({
+    loupeEnabled: false,
+    loupeMagnification: 4,
+    snapTargets: DEFAULT_SNAP_TARGETS,
+    angleSnapIncrement: 15,
+    renderer: 'svg',
+  });
+  const updateCanvasSettings = useCallback((updates: Partial<CanvasSettings>) => {
+    setCanvasSettings(prev => ({ ...prev, ...updates }));
+  }, []);
 
   const [isRatioSwapped, setIsRatioSwapped] = useState(false);
+  // 裁切工具框選中的範圍，按 Enter 或「套用裁切」才真的裁切
+  const [cropRegion, setCropRegion] = useState<Bounds | null>(null);
+  const [exportOptions, setExportOptions] = useState<ImageExportOptions>({ cropToAnnotations: false, padding: 20 });
+  // 鏡頭校正用的棋盤格：內側角點的列數與每列的角點數
+  const [lensGridSize, setLensGridSize] = useState({ rows: 6, columns: 9 });
   
   const {
     points,
     lines,
     angles,
     circles,
+    polygons,
     selectedCircleIds,
+    selectedPolygonIds,
+    polygonDraftPointIds,
     currentTool,
     setCurrentTool,
     activePointId,
@@ -28,37 +75,179 @@ const Index = () => {
     selectedPointIds,
     selectedLineIds,
     selectedAngleIds,
-    mousePosition,
-    setMousePosition,
     handleCanvasClick,
     handleCircleToolClick,
+    finishCircleFit,
+    circleToolMode,
+    setCircleToolMode,
+    circleDraftPoints,
     handleAngleToolLineClick,
+    handleAngleToolPointClick,
+    setAngleDisplayMode,
+    angleToolMode,
+    setAngleToolMode,
+    angleDraftPointIds,
+    createAngleArms,
+    setCreateAngleArms,
+    handlePolygonToolClick,
+    finishPolygon,
+    handleLandmarkToolClick,
+    templatePlacement,
+    nextTemplateLandmark,
+    startTemplatePlacement,
+    cancelTemplatePlacement,
+    ratios,
+    addLineRatio,
+    deleteRatio,
+    derivedMeasurements,
+    addDerivedMeasurement,
+    updateDerivedMeasurement,
+    deleteDerivedMeasurement,
+    renamePoint,
     deleteSelected,
     clearAll,
     selectPoint,
     selectLine,
     selectAngle,
     selectCircle,
+    selectPolygon,
     updateCircle,
     clearSelection,
     cancelActivePoint,
     getPointById,
     calculateLineLength,
+    calculatePolygonArea,
+    calculatePolygonPerimeter,
     updatePointPosition,
     recalculateAngles,
     hasSelection,
-    setCircles,
-    setSelectedCircleIds,
+    calibration,
+    calibrateWithLine,
+    clearCalibration,
+    rectification,
+    rectificationDraftCorners,
+    handleRectifyToolClick,
+    applyRectification,
+    clearRectification,
+    lensCorrection,
+    lensGridDraftPoints,
+    handleLensGridToolClick,
+    removeLastLensGridPoint,
+    clearLensGridPoints,
+    applyLensCorrection,
+    clearLensCorrection,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    beginHistoryTransaction,
+    commitHistoryTransaction,
+    drawingDocument,
+    measurementDocument,
+    getDocument,
+    loadDocument,
+    remapAllDocuments,
   } = useDrawingState();
+  const {
+    image,
+    setImage,
+    projectImages,
+    activeImageId,
+    addImage,
+    addImages,
+    switchImage,
+    removeImage,
+    renameImage,
+    loadImages,
+  } = useProjectImages({ drawingDocument, getDocument, loadDocument });
+  const { profiles: cameraProfiles, saveProfile: saveCameraProfile, removeProfile: removeCameraProfile } = useCameraProfiles();
+  const { templates, saveTemplate, removeTemplate } = useMeasurementTemplates();
   
   useEffect(() => {
     if (selectedLineIds.size !== 2) setIsRatioSwapped(false);
   }, [selectedLineIds.size]);
+
+  useEffect(() => {
+    if (currentTool !== 'crop') setCropRegion(null);
+  }, [currentTool]);
+
+  // 多點擬合進行中的殘差，讓使用者判斷點得夠不夠準
+  const circleFitResidual = useMemo(() => {
+    if (circleToolMode !== 'fit') return null;
+    return fitCircleLeastSquares(circleDraftPoints)?.residual ?? null;
+  }, [circleToolMode, circleDraftPoints]);
+
+  // 衍生測量跟著目前的標記即時重算，拖曳點的時候數值也會更新；完整的測量報告等匯出時才產生
+  const formulaVariables = useMemo(() => getDocumentFormulaVariables(measurementDocument), [measurementDocument]);
+  const derivedResults = useMemo(
+    () => evaluateDerivedMeasurements(derivedMeasurements, formulaVariables),
+    [derivedMeasurements, formulaVariables],
+  );
   
+  // 重畫圖片後，標記套用同一個座標轉換，留在原本的特徵上
+  const applyImageTransform = useCallback(async (getTransform: (width: number, height: number) => ImageTransform) => {
+    if (!image) return;
+    try {
+      const result = await renderTransformedImage(image, getTransform);
+      const { matrix } = result.transform;
+      remapAllDocuments(doc => transformDocument(doc, matrix), p => applyMatrix(matrix, p));
+      setImage(result.image);
+    } catch (err) {
+      alert(`轉換圖片失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [image, setImage, remapAllDocuments]);
+
+  const handleApplyCrop = useCallback(async () => {
+    if (!cropRegion) return;
+    await applyImageTransform((width, height) => getCropTransform(width, height, cropRegion));
+    setCropRegion(null);
+    setCurrentTool('marker');
+  }, [cropRegion, applyImageTransform, setCurrentTool]);
+
   // Handle escape key to cancel active drawing and delete key to delete selected
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      // 在輸入框（例如校正長度）打字時不要觸發畫布快捷鍵，否則 Backspace 會刪掉選取項目
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) {
+        return;
+      }
+      const isModifier = e.ctrlKey || e.metaKey;
+      if (isModifier && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (isModifier && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (isModifier && (e.key === '=' || e.key === '+')) {
+        // 蓋掉瀏覽器本身的整頁縮放
+        e.preventDefault();
+        canvasRef.current?.zoomIn();
+      } else if (isModifier && e.key === '-') {
+        e.preventDefault();
+        canvasRef.current?.zoomOut();
+      } else if (e.shiftKey && !isModifier && e.code === 'Digit1') {
+        // 用 e.code：Shift+1 在不同鍵盤配置下的 e.key 不一定是 '!'
+        e.preventDefault();
+        canvasRef.current?.zoomToFit();
+      } else if (e.shiftKey && !isModifier && e.code === 'Digit0') {
+        e.preventDefault();
+        canvasRef.current?.zoomToActualSize();
+      } else if (e.shiftKey && !isModifier && e.code === 'Digit2') {
+        e.preventDefault();
+        canvasRef.current?.zoomToSelection();
+      } else if (e.key === 'Enter' && currentTool === 'crop' && cropRegion) {
+        handleApplyCrop();
+      } else if (e.key === 'Enter' && polygonDraftPointIds.length > 0) {
+        finishPolygon();
+      } else if (e.key === 'Enter' && circleToolMode === 'fit' && circleDraftPoints.length > 0) {
+        finishCircleFit();
+      } else if (e.key === 'Escape') {
+        setCropRegion(null);
         cancelActivePoint();
         clearSelection();
       } else if (e.key === 'Delete' || e.key === 'Backspace') {
@@ -70,15 +259,12 @@ const Index = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [cancelActivePoint, clearSelection, deleteSelected, hasSelection]);
+  }, [cancelActivePoint, clearSelection, deleteSelected, hasSelection, undo, redo, polygonDraftPointIds, finishPolygon, circleToolMode, circleDraftPoints, finishCircleFit, currentTool, cropRegion, handleApplyCrop]);
 
   // 處理 Ctrl+V 圖片貼上功能
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
-      // --- 關鍵修正：如果已經有圖片了，直接跳出不執行 ---
-      if (image) return; 
-      // -------------------------------------------
-  
+      // 已經有圖片時，貼上的圖片會新增成專案裡的另一張
       const items = e.clipboardData?.items;
       if (!items) return;
   
@@ -91,7 +277,7 @@ const Index = () => {
           reader.onload = (event) => {
             const result = event.target?.result;
             if (typeof result === 'string') {
-              setImage(result);
+              addImage(result);
             }
           };
           reader.readAsDataURL(blob);
@@ -102,19 +288,15 @@ const Index = () => {
   
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
-  }, [image, setImage]); // 記得把 image 加入相依陣列中
+  }, [addImage]);
 
-  // 在 Index 組件內新增
-  // 縮放範圍：5% ~ 500%（相對於圖片原始像素）
-  const MIN_SCALE = 0.05;
-  const MAX_SCALE = 5;
   // 初始值先給 1，實際顯示比例會在圖片上傳、DrawingCanvas 算出「適應可視區域」
   // 的 fitScale 後，透過 onImageLoad 回呼覆寫成正確的初始值。
   const [scale, setScale] = useState(1);
   const [showZoomLabel, setShowZoomLabel] = useState(false);
   const zoomTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // 顯示縮放百分比標籤 1.5 秒後自動淡出，滾輪縮放跟圖片自動 fit 都會用到
+  // 顯示縮放百分比標籤 1.5 秒後自動淡出，各種縮放操作跟圖片自動 fit 都會用到
   // 用 useCallback 固定參考：zoomTimeoutRef 是 ref 不會變，所以 deps 給空陣列即可，
   // 這樣每次 Index 重新渲染時 flashZoomLabel 都是同一個函式參考。
   const flashZoomLabel = useCallback(() => {
@@ -128,8 +310,18 @@ const Index = () => {
   // 而 DrawingCanvas 內的 useEffect 依賴它——如果每次渲染都產生新函式，
   // 會導致該 useEffect 不斷重新觸發、scale 被反覆重置，形成無限迴圈
   // （縮放卡死在 fit 比例、標籤永遠不消失）。
+  // 開啟專案時要還原存檔當下的縮放比例，而不是圖片載入後自動算出的 fit 比例
+  const pendingProjectScaleRef = useRef<number | null>(null);
   const handleImageLoad = useCallback((fitScale: number) => {
-    setScale(fitScale);
+    const restoredScale = pendingProjectScaleRef.current;
+    pendingProjectScaleRef.current = null;
+    setScale(restoredScale ?? fitScale);
+    flashZoomLabel();
+  }, [flashZoomLabel]);
+
+  // DrawingCanvas 算好新比例（並記下縮放錨點）後回呼
+  const handleScaleChange = useCallback((nextScale: number) => {
+    setScale(nextScale);
     flashZoomLabel();
   }, [flashZoomLabel]);
 
@@ -138,13 +330,10 @@ const Index = () => {
       if (e.ctrlKey) {
         e.preventDefault(); // 關鍵：阻止瀏覽器縮放整個網頁
         // 改用等比例（乘法）縮放，每次滾動約 ±10%，
-        // 不論目前縮放比例是 15% 還是 300%，手感都一致（Photoshop/Affinity 風格）
-        const factor = e.deltaY > 0 ? 0.9 : 1.1;
-        setScale(prev => {
-          const next = Math.min(Math.max(MIN_SCALE, prev * factor), MAX_SCALE);
-          flashZoomLabel();
-          return next;
-        });
+        // 不論目前縮放比例是 15% 還是 300%，手感都一致（Photoshop/Affinity 風格）。
+        // 以游標位置為錨點，游標下的圖片內容縮放後仍留在原處
+        const factor = e.deltaY > 0 ? 1 / WHEEL_ZOOM_STEP : WHEEL_ZOOM_STEP;
+        canvasRef.current?.zoomBy(factor, { clientX: e.clientX, clientY: e.clientY });
       }
     };
   
@@ -156,14 +345,183 @@ const Index = () => {
     };
   }, []);
   
-  const handleResetAll = () => {
-    clearAll();      // 清掉所有繪圖資料
-    setCircles([]);
-    setSelectedCircleIds(new Set());
-    setImage(null);  // 清掉圖片資料
+  const viewSettings = useMemo(() => ({ showLengthLabels, scale }), [showLengthLabels, scale]);
+  const {
+    sessions,
+    currentSessionId,
+    refreshSessions,
+    adoptSession,
+    startNewSession,
+    removeSession,
+  } = useSessionAutosave({ images: projectImages, activeImageId, viewSettings });
+  const [sessionDialogMode, setSessionDialogMode] = useState<RecentSessionsDialogMode | null>(null);
+
+  // 啟動時若有先前自動儲存的工作階段，詢問是否恢復
+  useEffect(() => {
+    refreshSessions().then(list => {
+      if (list.length > 0) setSessionDialogMode('recover');
+    });
+  }, [refreshSessions]);
+
+  // 移除目前這張圖片（連同它的標記與校正），切換到相鄰的那張
+  const handleRemoveImage = (id: string) => {
+    setCropRegion(null);
+    // 整個專案都清空了：之後畫的東西另存成新的工作階段，不覆蓋剛剛那一筆
+    if (removeImage(id)) startNewSession();
+  };
+
+  const handleSwitchImage = (id: string) => {
+    setCropRegion(null);
+    switchImage(id);
+  };
+
+  // 批次量測切到相鄰的圖片；那張還沒有任何標記時，沿用目前這張的標記或套用範本當起點
+  const pendingBatchTemplateRef = useRef<MeasurementTemplate | null>(null);
+  const handleBatchStep = (offset: number, seed: BatchSeed) => {
+    const index = projectImages.findIndex(entry => entry.id === activeImageId);
+    const target = projectImages[index + offset];
+    if (!target) return;
+    setCropRegion(null);
+    const needsSeed = !hasAnnotations(target.document);
+    if (needsSeed && seed?.kind === 'copy') {
+      switchImage(target.id, copyDocumentGeometry(getDocument(), target.document));
+      return;
+    }
+    if (needsSeed && seed?.kind === 'template') {
+      pendingBatchTemplateRef.current = seed.template;
+    }
+    switchImage(target.id);
+  };
+
+  // 範本要等切換後的圖片文件載入完成才能開始套用
+  useEffect(() => {
+    const template = pendingBatchTemplateRef.current;
+    pendingBatchTemplateRef.current = null;
+    if (template) startTemplatePlacement(template);
+  }, [activeImageId, startTemplatePlacement]);
+
+  // 所有圖片的測量數據彙整成一張表：一張圖片一列、一個測量值一欄
+  const handleExportBatch = (format: 'csv' | 'json') => {
+    const report = buildBatchReport(projectImages.map(entry => ({ name: entry.name, document: entry.document })));
+    const filename = `批次測量-${Date.now()}.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(serializeBatchCsv(report), filename, 'text/csv');
+    } else {
+      downloadTextFile(serializeBatchJson(report), filename, 'application/json');
+    }
   };
   
-  const hasData = points.length > 0 || lines.length > 0 || angles.length > 0 || circles.length > 0;
+  // 把圖片、所有幾何資料、校正與顯示設定存成一個 JSON 專案檔
+  const handleSaveProject = () => {
+    const project = createProjectFile(projectImages, activeImageId, { showLengthLabels, scale });
+    downloadTextFile(serializeProject(project), `測量專案-${Date.now()}.json`, 'application/json');
+  };
+
+  // 匯出測量數據：CSV 給試算表、JSON 給分析腳本
+  const handleExportData = (format: 'csv' | 'json') => {
+    const report = buildMeasurementReport(getDocument());
+    const filename = `測量數據-${Date.now()}.${format}`;
+    if (format === 'csv') {
+      downloadTextFile(serializeReportCsv(report), filename, 'text/csv');
+    } else {
+      downloadTextFile(serializeReportJson(report), filename, 'application/json');
+    }
+  };
+
+  // 專案檔與自動儲存的工作階段共用同一套還原流程
+  const applyProject = (project: ProjectFile) => {
+    const active = project.images.find(entry => entry.id === project.activeImageId) ?? project.images[0];
+    setShowLengthLabels(project.view.showLengthLabels);
+    if (active.image && active.image !== image) {
+      // 等新圖片載入完成後，由 handleImageLoad 套用存檔時的縮放比例
+      pendingProjectScaleRef.current = project.view.scale;
+    } else {
+      setScale(project.view.scale);
+    }
+    setCropRegion(null);
+    loadImages(project.images, active.id);
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      applyProject(parseProject(await readFileAsText(file)));
+      startNewSession();
+    } catch (err) {
+      alert(`開啟專案失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleOpenSession = async (session: SavedSession) => {
+    try {
+      const project = await loadSessionProject(session.id);
+      applyProject(project);
+      adoptSession(session.id, project);
+      setSessionDialogMode(null);
+    } catch (err) {
+      alert(`開啟工作階段失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleOrientationChange = (change: ImageOrientationChange) => {
+    applyImageTransform((width, height) => getOrientationTransform(width, height, change));
+  };
+
+  const straightenLine = selectedLineIds.size === 1 ? lines.find(l => selectedLineIds.has(l.id)) : undefined;
+  const handleStraighten = () => {
+    if (!straightenLine) return;
+    const start = getPointById(straightenLine.startPointId);
+    const end = getPointById(straightenLine.endPointId);
+    if (!start || !end) return;
+    const degrees = getStraightenAngle(start, end);
+    // 已經是水平或垂直
+    if (Math.abs(degrees) < 1e-6) return;
+    applyImageTransform((width, height) => getRotationTransform(width, height, degrees));
+  };
+
+  // 棋盤格參考圖上點好的角點 → 畸變係數；圖片尺寸決定畸變中心與正規化半徑
+  const handleEstimateLens = async (): Promise<LensCalibrationResult> => {
+    if (!image) throw new Error('請先載入棋盤格的照片');
+    const { width, height } = await loadImage(image);
+    return estimateLensDistortion(lensGridDraftPoints, lensGridSize.rows, lensGridSize.columns, width, height);
+  };
+
+  const handleApplyCameraProfile = async (profile: CameraProfile) => {
+    if (!image) return;
+    try {
+      const { width, height } = await loadImage(image);
+      applyLensCorrection(createLensCorrection(profile.name, profile.coefficients, width, height));
+    } catch (err) {
+      alert(`套用鏡頭校正失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleSaveCameraProfile = async (name: string, result: LensCalibrationResult) => {
+    const profile = await saveCameraProfile(name, result.coefficients, result.rmsError);
+    clearLensGridPoints();
+    // 參考圖本身通常就要用這組係數量測
+    await handleApplyCameraProfile(profile);
+    setCurrentTool('marker');
+  };
+
+  // 把鏡頭校正直接套用到圖片：重畫成沒有畸變的圖片，標記移到還原後的位置，之後就不需要再換算
+  const handleUndistortImage = async () => {
+    if (!image || !lensCorrection) return;
+    const lens = lensCorrection;
+    try {
+      const nextImage = await renderUndistortedImage(image, lens);
+      remapAllDocuments(doc => undistortDocument(doc, lens), p => undistortPoint(lens, p));
+      setImage(nextImage);
+    } catch (err) {
+      alert(`轉換圖片失敗：${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const hasData = points.length > 0 || lines.length > 0 || angles.length > 0 || circles.length > 0 || polygons.length > 0;
+
+  // 目前圖片上命名的標記點與它們之間的測量存成範本
+  const handleSaveTemplate = (name: string) => {
+    return saveTemplate(createTemplateFromDocument(name, getDocument()));
+  };
 
   // 計算比例的資料
   const renderRatioSection = () => {
@@ -188,6 +546,7 @@ const Index = () => {
     const getLabelColor = (id: string) => {
       return selectedArray.indexOf(id) === 0 ? '#7dd3fc' : '#0369a1';
     };
+    const isStored = ratios.some(r => r.numeratorLineId === first.id && r.denominatorLineId === second.id);
   
     return (
       <div className="bg-slate-900/50 border border-blue-500/30 rounded-lg p-3 mb-4">
@@ -195,20 +554,34 @@ const Index = () => {
           <span className="text-[11px] uppercase tracking-wider text-slate-400 font-bold">
             比例分析
           </span>
-          <button 
-            onClick={(e) => {
-              e.preventDefault();
-              setIsRatioSwapped(!isRatioSwapped);
-            }}
-            className="w-8 h-8 flex items-center justify-center hover:bg-blue-500/20 active:bg-blue-500/40 rounded-full transition-all group border border-slate-700/50 hover:border-blue-500/40"
-            title="切換分子分母"
-          >
-            <ArrowLeftRight 
-              size={18} 
-              strokeWidth={2} 
-              className="text-blue-400 group-hover:text-blue-300 transition-colors" 
-            />
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => addLineRatio(first.id, second.id)}
+              disabled={isStored}
+              className="w-8 h-8 flex items-center justify-center hover:bg-blue-500/20 active:bg-blue-500/40 rounded-full transition-all group border border-slate-700/50 hover:border-blue-500/40 disabled:opacity-40 disabled:pointer-events-none"
+              title={isStored ? '已加入測量數據' : '把這個比值加入測量數據'}
+            >
+              <Plus
+                size={18}
+                strokeWidth={2}
+                className="text-blue-400 group-hover:text-blue-300 transition-colors"
+              />
+            </button>
+            <button 
+              onClick={(e) => {
+                e.preventDefault();
+                setIsRatioSwapped(!isRatioSwapped);
+              }}
+              className="w-8 h-8 flex items-center justify-center hover:bg-blue-500/20 active:bg-blue-500/40 rounded-full transition-all group border border-slate-700/50 hover:border-blue-500/40"
+              title="切換分子分母"
+            >
+              <ArrowLeftRight 
+                size={18} 
+                strokeWidth={2} 
+                className="text-blue-400 group-hover:text-blue-300 transition-colors" 
+              />
+            </button>
+          </div>
         </div>
         <div className="flex items-center gap-2 px-1 -mt-1"> {/* 使用 -mt-1 向上擠壓行距 */}
           <div className="flex items-center gap-1.5"> {/* 緊縮分子分母間距 */}
@@ -226,6 +599,12 @@ const Index = () => {
             {(valFirst / valSecond).toFixed(3)}
           </span>
         </div>
+        {calibration && (
+          <div className="flex items-center gap-3 px-1 mt-1 text-[11px] font-mono text-slate-400">
+            <span>{first.label} = {formatLength(valFirst, calibration)}</span>
+            <span>{second.label} = {formatLength(valSecond, calibration)}</span>
+          </div>
+        )}
       </div>
     );
   };
@@ -242,52 +621,114 @@ const Index = () => {
             </div>
             <h1 className="text-lg font-semibold">繪圖測量工具</h1>
           </div>
+          {templatePlacement && nextTemplateLandmark && (
+            <div className="ml-auto text-sm text-muted-foreground">
+              {templatePlacement.template.name}：請點選 <span className="font-bold text-foreground">{nextTemplateLandmark}</span>（{templatePlacement.template.landmarks.indexOf(nextTemplateLandmark) + 1}/{templatePlacement.template.landmarks.length}），按 <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">Esc</kbd> 取消
+            </div>
+          )}
           {activePointId && (
             <div className="ml-auto text-sm text-muted-foreground">
               點擊設定下一個標記點，或按 <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">Esc</kbd> 取消
             </div>
           )}
+          {polygonDraftPointIds.length > 0 && (
+            <div className="ml-auto text-sm text-muted-foreground">
+              已選 {polygonDraftPointIds.length} 個頂點，點回起點或按 <kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">Enter</kbd> 封閉，<kbd className="px-1.5 py-0.5 bg-muted rounded text-xs">Esc</kbd> 取消
+            </div>
+          )}
         </header>
 
         {/* Canvas */}
-        <DrawingCanvas
-          ref={canvasRef}
-          image={image}
-          points={points}
-          lines={lines}
-          angles={angles}
-          circles={circles}
-          selectedCircleIds={selectedCircleIds}
-          activePointId={activePointId}
-          angleFirstLineId={angleFirstLineId}
-          selectedPointIds={selectedPointIds}
-          selectedLineIds={selectedLineIds}
-          selectedAngleIds={selectedAngleIds}
-          currentTool={currentTool}
-          mousePosition={mousePosition}
-          showLengthLabels={showLengthLabels}
-          onCanvasClick={handleCanvasClick}
-          onCircleToolClick={handleCircleToolClick}
-          onMouseMove={(x, y) => setMousePosition({ x, y })}
-          onMouseLeave={() => setMousePosition(null)}
-          onPointClick={selectPoint}
-          onLineClick={selectLine}
-          onAngleClick={selectAngle}
-          onCircleClick={selectCircle}
-          onCircleResize={updateCircle}
-          onAngleToolLineClick={handleAngleToolLineClick}
-          onClearSelection={clearSelection}
-          onPointDrag={(pointId, x, y) => {
-            updatePointPosition(pointId, x, y);
-            recalculateAngles();
-          }}
-          getPointById={getPointById}
-          calculateLineLength={calculateLineLength}
-          onResetAll={handleResetAll}
-          scale={scale}
-          showZoomLabel={showZoomLabel}
-          onImageLoad={handleImageLoad}
-        />
+        <div className="relative flex-1 flex min-h-0">
+          <DrawingCanvas
+            ref={canvasRef}
+            image={image}
+            points={points}
+            lines={lines}
+            angles={angles}
+            circles={circles}
+            polygons={polygons}
+            selectedCircleIds={selectedCircleIds}
+            circleToolMode={circleToolMode}
+            circleDraftPoints={circleDraftPoints}
+            selectedPolygonIds={selectedPolygonIds}
+            polygonDraftPointIds={polygonDraftPointIds}
+            activePointId={activePointId}
+            angleFirstLineId={angleFirstLineId}
+            angleToolMode={angleToolMode}
+            angleDraftPointIds={angleDraftPointIds}
+            selectedPointIds={selectedPointIds}
+            selectedLineIds={selectedLineIds}
+            selectedAngleIds={selectedAngleIds}
+            currentTool={currentTool}
+            showLengthLabels={showLengthLabels}
+            calibration={calibration}
+            settings={canvasSettings}
+            cropRegion={cropRegion}
+            onCropRegionChange={setCropRegion}
+            rectification={rectification}
+            rectificationDraftCorners={rectificationDraftCorners}
+            onRectifyToolClick={handleRectifyToolClick}
+            lensCorrection={lensCorrection}
+            lensGridDraftPoints={lensGridDraftPoints}
+            lensGridColumns={lensGridSize.columns}
+            onLensGridToolClick={(x, y) => {
+              if (lensGridDraftPoints.length < lensGridSize.rows * lensGridSize.columns) handleLensGridToolClick(x, y);
+            }}
+            onCanvasClick={handleCanvasClick}
+            onCircleToolClick={handleCircleToolClick}
+            onPolygonToolClick={handlePolygonToolClick}
+            onLandmarkToolClick={handleLandmarkToolClick}
+            onPointClick={selectPoint}
+            onLineClick={selectLine}
+            onAngleClick={selectAngle}
+            onAngleDisplayModeChange={setAngleDisplayMode}
+            onCircleClick={selectCircle}
+            onPolygonClick={selectPolygon}
+            onCircleResize={updateCircle}
+            onAngleToolLineClick={handleAngleToolLineClick}
+            onAngleToolPointClick={handleAngleToolPointClick}
+            onClearSelection={clearSelection}
+            onPointDrag={(pointId, x, y) => {
+              updatePointPosition(pointId, x, y);
+              recalculateAngles();
+            }}
+            onDragStart={beginHistoryTransaction}
+            onDragEnd={commitHistoryTransaction}
+            getPointById={getPointById}
+            calculateLineLength={calculateLineLength}
+            onResetAll={() => handleRemoveImage(activeImageId)}
+            scale={scale}
+            onScaleChange={handleScaleChange}
+            showZoomLabel={showZoomLabel}
+            onImageLoad={handleImageLoad}
+          />
+          {image && (
+            <ZoomControls
+              scale={scale}
+              hasSelection={hasSelection}
+              onZoomIn={() => canvasRef.current?.zoomIn()}
+              onZoomOut={() => canvasRef.current?.zoomOut()}
+              onZoomToFit={() => canvasRef.current?.zoomToFit()}
+              onZoomToActualSize={() => canvasRef.current?.zoomToActualSize()}
+              onZoomToSelection={() => canvasRef.current?.zoomToSelection()}
+            >
+              <CanvasSettingsPopover settings={canvasSettings} onChange={updateCanvasSettings} />
+            </ZoomControls>
+          )}
+        </div>
+
+        {/* 專案裡有圖片時才顯示縮圖列 */}
+        {(image !== null || projectImages.length > 1) && (
+          <ImageFilmstrip
+            images={projectImages}
+            activeImageId={activeImageId}
+            onSelect={handleSwitchImage}
+            onRemove={handleRemoveImage}
+            onRename={renameImage}
+            onAdd={addImages}
+          />
+        )}
       </div>
 
       {/* Right Sidebar */}
@@ -295,27 +736,90 @@ const Index = () => {
         <div className="flex flex-col gap-2">
           {/* 原有的圖片上傳器 */}
           <ImageUploader 
-            onImageUpload={setImage} 
+            onImageUpload={addImages} 
             hasImage={image !== null} 
           />
+          {image && (
+            <ImageTransformPanel
+              canStraighten={straightenLine !== undefined}
+              onOrientationChange={handleOrientationChange}
+              onStraighten={handleStraighten}
+            />
+          )}
           
           {/* 匯出與複製按鈕並排 */}
           <div className="flex gap-2 mt-1">
             <button 
-              onClick={() => canvasRef.current?.exportImage()}
+              onClick={() => canvasRef.current?.exportImage(exportOptions)}
               disabled={!image}
               className="flex-1 flex items-center justify-center gap-1.5 p-2.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:bg-slate-800 disabled:cursor-not-allowed transition-all rounded-md text-sm font-bold text-white shadow-sm"
             >
               <span>💾 匯出圖片</span>
             </button>
             <button 
-              onClick={() => canvasRef.current?.copyImage()}
+              onClick={() => canvasRef.current?.copyImage(exportOptions)}
               disabled={!image}
               className="flex-1 flex items-center justify-center gap-1.5 p-2.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 disabled:bg-slate-800 disabled:cursor-not-allowed transition-all rounded-md text-sm font-bold text-white shadow-sm"
             >
               <span>📋 複製圖片</span>
             </button>
           </div>
+
+          {/* 匯出／複製時只保留標記周圍的範圍 */}
+          <div className="flex items-center gap-2 text-xs text-toolbar-foreground/70">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox
+                checked={exportOptions.cropToAnnotations}
+                onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, cropToAnnotations: checked === true }))}
+              />
+              裁到標記範圍
+            </label>
+            <span className="ml-auto">邊距</span>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={exportOptions.padding}
+              disabled={!exportOptions.cropToAnnotations}
+              onChange={(e) => {
+                const padding = parseFloat(e.target.value);
+                setExportOptions(prev => ({ ...prev, padding: Number.isFinite(padding) ? Math.max(0, padding) : 0 }));
+              }}
+              className="w-14 h-7 rounded-md bg-white/5 border border-white/20 px-2 text-xs font-mono text-toolbar-foreground disabled:opacity-50"
+              title="標記範圍外保留的邊距（像素）"
+            />
+            <span>px</span>
+          </div>
+
+          {/* 匯出測量數據 */}
+          <div className="flex gap-2">
+            <button 
+              onClick={() => handleExportData('csv')}
+              disabled={!hasData}
+              className="flex-1 flex items-center justify-center gap-1.5 p-2 bg-white/5 hover:bg-white/10 border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all rounded-md text-xs font-bold text-toolbar-foreground"
+              title="匯出所有測量數據（CSV）"
+            >
+              <span>📊 數據 CSV</span>
+            </button>
+            <button 
+              onClick={() => handleExportData('json')}
+              disabled={!hasData}
+              className="flex-1 flex items-center justify-center gap-1.5 p-2 bg-white/5 hover:bg-white/10 border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all rounded-md text-xs font-bold text-toolbar-foreground"
+              title="匯出所有測量數據（JSON）"
+            >
+              <span>🧾 數據 JSON</span>
+            </button>
+          </div>
+
+          <ProjectActions
+            canSave={image !== null || hasData}
+            onSave={handleSaveProject}
+            onOpen={handleOpenProject}
+            onShowSessions={() => {
+              refreshSessions();
+              setSessionDialogMode('browse');
+            }}
+          />
         </div>
         
         <Toolbar
@@ -326,20 +830,126 @@ const Index = () => {
           onClearAll={clearAll}
           hasData={hasData}
           angleFirstLineId={angleFirstLineId}
+          angleToolMode={angleToolMode}
+          onAngleToolModeChange={setAngleToolMode}
+          angleDraftPointCount={angleDraftPointIds.length}
+          createAngleArms={createAngleArms}
+          onCreateAngleArmsChange={setCreateAngleArms}
           hasCircles={circles.length > 0}
+          circleToolMode={circleToolMode}
+          onCircleToolModeChange={setCircleToolMode}
+          circleDraftPointCount={circleDraftPoints.length}
+          circleFitResidual={circleFitResidual}
+          onFinishCircleFit={finishCircleFit}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={undo}
+          onRedo={redo}
+          hasCropRegion={cropRegion !== null}
+          onApplyCrop={handleApplyCrop}
+        />
+
+        {projectImages.length > 1 && (
+          <BatchPanel
+            imageCount={projectImages.length}
+            activeIndex={projectImages.findIndex(entry => entry.id === activeImageId)}
+            activeName={projectImages.find(entry => entry.id === activeImageId)?.name ?? ''}
+            templates={templates}
+            onStep={handleBatchStep}
+            onExport={handleExportBatch}
+          />
+        )}
+
+        <MeasurementTemplatePanel
+          templates={templates}
+          placingTemplate={templatePlacement?.template ?? null}
+          nextLandmark={nextTemplateLandmark}
+          onApply={startTemplatePlacement}
+          onCancel={cancelTemplatePlacement}
+          onSave={handleSaveTemplate}
+          onDelete={removeTemplate}
+        />
+
+        <CalibrationPanel
+          lines={lines}
+          selectedLineIds={selectedLineIds}
+          calibration={calibration}
+          calculateLength={calculateLineLength}
+          onCalibrate={calibrateWithLine}
+          onClear={clearCalibration}
+        />
+
+        <RectificationPanel
+          rectification={rectification}
+          isPicking={currentTool === 'rectify'}
+          draftCornerCount={rectificationDraftCorners.length}
+          onStartPicking={() => setCurrentTool('rectify')}
+          onApply={(width, height, unit) => {
+            applyRectification(width, height, unit);
+            setCurrentTool('marker');
+          }}
+          onClear={clearRectification}
+        />
+
+        <LensCalibrationPanel
+          lensCorrection={lensCorrection}
+          profiles={cameraProfiles}
+          isPicking={currentTool === 'lensGrid'}
+          gridPointCount={lensGridDraftPoints.length}
+          gridRows={lensGridSize.rows}
+          gridColumns={lensGridSize.columns}
+          onGridSizeChange={(rows, columns) => setLensGridSize({ rows, columns })}
+          onStartPicking={() => setCurrentTool('lensGrid')}
+          onRemoveLastPoint={removeLastLensGridPoint}
+          onClearPoints={clearLensGridPoints}
+          onEstimate={handleEstimateLens}
+          onSaveProfile={handleSaveCameraProfile}
+          onApplyProfile={handleApplyCameraProfile}
+          onDeleteProfile={removeCameraProfile}
+          onUndistortImage={handleUndistortImage}
+          onClear={clearLensCorrection}
         />
 
         {/* 插入比例面板 */}
         {renderRatioSection()}
+
+        <DerivedMeasurementPanel
+          derivedMeasurements={derivedMeasurements}
+          results={derivedResults}
+          variables={formulaVariables}
+          onAdd={addDerivedMeasurement}
+          onUpdate={updateDerivedMeasurement}
+          onDelete={deleteDerivedMeasurement}
+        />
         
         <MeasurementTable
+          points={measurementDocument.points}
           lines={lines}
           angles={angles}
+          polygons={polygons}
+          circles={measurementDocument.circles}
+          ratios={ratios}
+          derivedMeasurements={derivedMeasurements}
+          derivedResults={derivedResults}
           calculateLength={calculateLineLength}
+          calculatePolygonArea={calculatePolygonArea}
+          calculatePolygonPerimeter={calculatePolygonPerimeter}
+          calibration={calibration}
+          rectification={measurementDocument.rectification}
           selectedLineIds={selectedLineIds}
           selectedAngleIds={selectedAngleIds}
+          selectedPolygonIds={selectedPolygonIds}
+          selectedCircleIds={selectedCircleIds}
+          selectedPointIds={selectedPointIds}
+          onSelectPoint={selectPoint}
+          onRenamePoint={renamePoint}
           onSelectLine={selectLine}
           onSelectAngle={selectAngle}
+          onAngleDisplayModeChange={setAngleDisplayMode}
+          onSelectPolygon={selectPolygon}
+          onSelectCircle={selectCircle}
+          onDeleteRatio={deleteRatio}
+          onDeleteDerived={deleteDerivedMeasurement}
           showLengthLabels={showLengthLabels}
           onToggleLengthLabels={() => setShowLengthLabels(prev => !prev)}
           getLineColor={(id) => {
@@ -350,6 +960,15 @@ const Index = () => {
           }}
         />
       </aside>
+
+      <RecentSessionsDialog
+        mode={sessionDialogMode}
+        sessions={sessions}
+        currentSessionId={currentSessionId}
+        onOpenSession={handleOpenSession}
+        onDeleteSession={removeSession}
+        onClose={() => setSessionDialogMode(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fireEvent, render } from "@testing-library/react";
+import { ComponentProps } from "react";
+import { Line, Point } from "@/types/drawing";
+import { DEFAULT_SNAP_TARGETS } from "@/lib/snapping";
+import { getLineLabelText } from "@/lib/annotationStyle";
+import { DrawingCanvas } from "@/components/drawing/DrawingCanvas";
+
+// 線段標籤的文字每次渲染標記圖層都會重新算，拿來數標記圖層渲染了幾次
+vi.mock("@/lib/annotationStyle", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/annotationStyle")>();
+  return { ...actual, getLineLabelText: vi.fn(actual.getLineLabelText) };
+});
+
+const points: Point[] = [
+  { id: "p1", x: 100, y: 100 },
+  { id: "p2", x: 300, y: 100 },
+];
+const lines: Line[] = [{ id: "l1", label: "A", startPointId: "p1", endPointId: "p2" }];
+
+const createProps = (overrides: Partial<ComponentProps<typeof DrawingCanvas>> = {}): ComponentProps<typeof DrawingCanvas> => ({
+  image: "data:image/png;base64,",
+  points,
+  lines,
+  angles: [],
+  circles: [],
+  polygons: [],
+  selectedCircleIds: new Set(),
+  circleToolMode: "click",
+  circleDraftPoints: [],
+  selectedPolygonIds: new Set(),
+  polygonDraftPointIds: [],
+  activePointId: null,
+  angleFirstLineId: null,
+  angleToolMode: "lines",
+  angleDraftPointIds: [],
+  selectedPointIds: new Set(),
+  selectedLineIds: new Set(),
+  selectedAngleIds: new Set(),
+  currentTool: "cursor",
+  showLengthLabels: false,
+  calibration: null,
+  settings: {
+    loupeEnabled: false,
+    loupeMagnification: 4,
+    snapTargets: DEFAULT_SNAP_TARGETS,
+    angleSnapIncrement: 15,
+    renderer: "svg",
+  },
+  cropRegion: null,
+  onCropRegionChange: vi.fn(),
+  rectification: null,
+  rectificationDraftCorners: [],
+  onRectifyToolClick: vi.fn(),
+  lensCorrection: null,
+  lensGridDraftPoints: [],
+  lensGridColumns: 0,
+  onLensGridToolClick: vi.fn(),
+  onCanvasClick: vi.fn(),
+  onCircleToolClick: vi.fn(),
+  onPolygonToolClick: vi.fn(),
+  onLandmarkToolClick: vi.fn(),
+  onPointClick: vi.fn(),
+  onLineClick: vi.fn(),
+  onAngleClick: vi.fn(),
+  onAngleDisplayModeChange: vi.fn(),
+  onCircleClick: vi.fn(),
+  onPolygonClick: vi.fn(),
+  onCircleResize: vi.fn(),
+  onAngleToolLineClick: vi.fn(),
+  onAngleToolPointClick: vi.fn(),
+  onClearSelection: vi.fn(),
+  onPointDrag: vi.fn(),
+  onDragStart: vi.fn(),
+  onDragEnd: vi.fn(),
+  getPointById: (id) => points.find(p => p.id === id),
+  calculateLineLength: () => 0,
+  onResetAll: vi.fn(),
+  scale: 1,
+  onScaleChange: vi.fn(),
+  showZoomLabel: false,
+  onImageLoad: vi.fn(),
+  ...overrides,
+});
+
+describe("DrawingCanvas", () => {
+  beforeEach(() => {
+    vi.mocked(getLineLabelText).mockClear();
+  });
+
+  it("updates the drawing preview without re-rendering the annotations when only the cursor moves", () => {
+    const { container } = render(<DrawingCanvas {...createProps({ currentTool: "marker", activePointId: "p2" })} />);
+    const svg = container.querySelector<SVGSVGElement>('svg[viewBox="0 0 800 600"]')!;
+    const renders = vi.mocked(getLineLabelText).mock.calls.length;
+    expect(renders).toBeGreaterThan(0);
+
+    fireEvent.mouseMove(svg, { clientX: 500, clientY: 400 });
+    fireEvent.mouseMove(svg, { clientX: 520, clientY: 410 });
+
+    expect(container.querySelector('line[x2="520"][y2="410"]')).not.toBeNull();
+    expect(vi.mocked(getLineLabelText).mock.calls.length).toBe(renders);
+  });
+
+  it("selects canvas-drawn annotations through the spatial indexes instead of per-annotation hit areas", () => {
+    const props = createProps({ settings: { ...createProps().settings, renderer: "canvas" } });
+    const { container } = render(<DrawingCanvas {...props} />);
+    const svg = container.querySelector<SVGSVGElement>('svg[viewBox="0 0 800 600"]')!;
+    expect(svg.querySelectorAll("line, circle, path, polygon")).toHaveLength(0);
+
+    fireEvent.click(svg, { clientX: 200, clientY: 104 });
+    expect(props.onLineClick).toHaveBeenCalledWith("l1", false);
+
+    fireEvent.click(svg, { clientX: 200, clientY: 300 });
+    expect(props.onClearSelection).toHaveBeenCalled();
+
+    fireEvent.mouseDown(svg, { clientX: 302, clientY: 98, button: 0 });
+    expect(props.onDragStart).toHaveBeenCalled();
+  });
+});
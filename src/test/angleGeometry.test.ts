@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { Angle, Line } from "@/types/drawing";
+import { angleBetweenRays, formatAngleDegrees, measureAngle, resolveAngleGeometry } from "@/lib/angleGeometry";
+
+const positions: Record<string, { x: number; y: number }> = {
+  a: { x: 0, y: 0 },
+  b: { x: 10, y: 0 },
+  c: { x: 20, y: 10 },
+  d: { x: 20, y: 30 },
+  e: { x: 0, y: 10 },
+  f: { x: 10, y: 10 },
+};
+
+const lines: Line[] = [
+  { id: "ab", label: "A", startPointId: "a", endPointId: "b" },
+  { id: "cd", label: "B", startPointId: "c", endPointId: "d" },
+  { id: "ef", label: "C", startPointId: "e", endPointId: "f" },
+];
+
+const lookup = (id: string) => positions[id];
+
+describe("angle geometry", () => {
+  it("measures non-adjacent lines at their virtual intersection", () => {
+    const angle: Angle = { id: "t", label: "θ1", line1Id: "ab", line2Id: "cd", degrees: 0 };
+    const geometry = resolveAngleGeometry(angle, lookup, lines);
+
+    expect(geometry?.kind).toBe("rays");
+    if (geometry?.kind !== "rays") return;
+    expect(geometry.rays.vertex.x).toBeCloseTo(20);
+    expect(geometry.rays.vertex.y).toBeCloseTo(0);
+    expect(angleBetweenRays(geometry.rays)).toBeCloseTo(90);
+    // Both lines stop short of the intersection, so both get a guide
+    expect(geometry.guides).toHaveLength(2);
+  });
+
+  it("reports parallel lines explicitly", () => {
+    const angle: Angle = { id: "t", label: "θ1", line1Id: "ab", line2Id: "ef", degrees: 0 };
+    expect(resolveAngleGeometry(angle, lookup, lines)?.kind).toBe("parallel");
+  });
+
+  it("converts the interior angle for each display mode", () => {
+    // arm2 is 60° clockwise from arm1 on screen (y points down)
+    const rays = {
+      vertex: { x: 0, y: 0 },
+      arm1: { x: 10, y: 0 },
+      arm2: { x: 5, y: 5 * Math.sqrt(3) },
+    };
+
+    expect(measureAngle(rays)).toBeCloseTo(60);
+    expect(measureAngle(rays, "reflex")).toBeCloseTo(300);
+    expect(measureAngle(rays, "supplementary")).toBeCloseTo(120);
+    expect(measureAngle(rays, "signedClockwise")).toBeCloseTo(60);
+    expect(measureAngle(rays, "signedCounterClockwise")).toBeCloseTo(-60);
+    expect(formatAngleDegrees(-60, "signedCounterClockwise")).toBe("−60.0°");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { DrawingDocument } from "@/types/drawing";
+import { EMPTY_DOCUMENT } from "@/lib/projectFile";
+import { buildBatchReport, copyDocumentGeometry, serializeBatchCsv } from "@/lib/batchMeasurement";
+
+const front: DrawingDocument = {
+  ...EMPTY_DOCUMENT,
+  points: [
+    { id: "p1", x: 0, y: 0 },
+    { id: "p2", x: 30, y: 40 },
+    { id: "p3", x: 50, y: 0 },
+  ],
+  lines: [
+    { id: "l1", label: "A", startPointId: "p1", endPointId: "p2" },
+    { id: "l2", label: "B", startPointId: "p1", endPointId: "p3" },
+  ],
+  ratios: [{ id: "r1", label: "R1", numeratorLineId: "l1", denominatorLineId: "l2" }],
+  calibration: { referenceLineId: "l1", pixelLength: 50, realLength: 5, unit: "mm" },
+};
+
+const side: DrawingDocument = {
+  ...EMPTY_DOCUMENT,
+  points: [
+    { id: "p1", x: 0, y: 0 },
+    { id: "p2", x: 0, y: 20 },
+  ],
+  lines: [{ id: "l1", label: "A", startPointId: "p1", endPointId: "p2" }],
+};
+
+describe("batchMeasurement", () => {
+  it("puts one image per row and one measurement per column", () => {
+    const report = buildBatchReport([
+      { name: "front.png", document: front },
+      { name: "side.png", document: side },
+    ]);
+
+    expect(report.columns).toEqual(["A length_px", "A length", "B length_px", "B length", "R1 ratio"]);
+    expect(report.images[0]).toMatchObject({ image: "front.png", unit: "mm" });
+    expect(report.images[0].values).toMatchObject({ "A length_px": 50, "A length": 5, "R1 ratio": 1 });
+    expect(report.images[1]).toMatchObject({ image: "side.png", unit: null });
+    expect(report.images[1].values).toEqual({
+      "A length_px": 20,
+      "A length": null,
+      "B length_px": null,
+      "B length": null,
+      "R1 ratio": null,
+    });
+  });
+
+  it("writes a wide CSV with empty cells for missing measurements", () => {
+    const csv = serializeBatchCsv(buildBatchReport([
+      { name: "front.png", document: front },
+      { name: "side.png", document: side },
+    ]));
+    const rows = csv.replace(/^\uFEFF/, "").trim().split("\r\n");
+
+    expect(rows[0]).toBe("image,unit,A length_px,A length,B length_px,B length,R1 ratio");
+    expect(rows[2]).toBe("side.png,,20,,,,");
+  });
+
+  it("adds each angle's display-mode value next to its interior angle", () => {
+    const angle = { id: "a1", label: "θ1", line1Id: "l1", line2Id: "l2", vertexPointId: "p1", degrees: 53.1301 };
+    const report = buildBatchReport([
+      { name: "front.png", document: { ...front, angles: [{ ...angle, displayMode: "reflex" }] } },
+      { name: "side.png", document: { ...front, angles: [angle] } },
+    ]);
+
+    expect(report.columns).toContain("θ1 display");
+    expect(report.images[0].values["θ1 degrees"]).toBeCloseTo(53.13, 2);
+    expect(report.images[0].values["θ1 display"]).toBeCloseTo(306.87, 2);
+    expect(report.images[1].values["θ1 display"]).toBeCloseTo(53.13, 2);
+  });
+
+  it("copies geometry but keeps the target image's calibration", () => {
+    const copied = copyDocumentGeometry(front, side);
+
+    expect(copied.lines).toEqual(front.lines);
+    expect(copied.ratios).toEqual(front.ratios);
+    expect(copied.calibration).toBeNull();
+  });
+});
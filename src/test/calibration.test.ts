@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { createCalibration, formatLength, toRealLength } from "@/lib/calibration";
+
+describe("calibration", () => {
+  it("formats uncalibrated lengths in px", () => {
+    expect(formatLength(123.456, null)).toBe("123.5 px");
+  });
+
+  it("converts pixels using the reference line", () => {
+    const calibration = createCalibration("line-1", 200, 10, "mm");
+    expect(toRealLength(50, calibration)).toBeCloseTo(2.5);
+    expect(formatLength(50, calibration)).toBe("2.50 mm");
+  });
+
+  it("rejects invalid reference lengths", () => {
+    expect(() => createCalibration("line-1", 0, 10, "mm")).toThrow();
+    expect(() => createCalibration("line-1", 100, -1, "cm")).toThrow();
+    expect(() => createCalibration("line-1", 100, NaN, "in")).toThrow();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { AnnotationScene, buildDisplayList } from "@/lib/canvasRenderer";
+
+const scene: AnnotationScene = {
+  points: [
+    { id: "p1", x: 0, y: 0 },
+    { id: "p2", x: 30, y: 40 },
+  ],
+  lines: [{ id: "l1", label: "A", startPointId: "p1", endPointId: "p2" }],
+  angles: [],
+  circles: [{ id: "c1", label: "C1", centerX: 100, centerY: 100, radius: 20 }],
+  polygons: [],
+  selectedPointIds: new Set(),
+  selectedLineIds: new Set(["l1"]),
+  selectedAngleIds: new Set(),
+  selectedCircleIds: new Set(),
+  selectedPolygonIds: new Set(),
+  activePointId: null,
+  angleFirstLineId: null,
+  showLengthLabels: false,
+  calibration: null,
+  lensCorrection: null,
+};
+
+const labels = (s: AnnotationScene) =>
+  buildDisplayList(s).flatMap(shape => (shape.kind === "label" ? [shape.text] : []));
+
+describe("canvas display list", () => {
+  it("draws circles first and points last, with the same labels as the SVG", () => {
+    const shapes = buildDisplayList(scene);
+
+    expect(labels(scene)).toEqual(["C1", "A"]);
+    expect(shapes[0]).toMatchObject({ kind: "path", stroke: "#ef4444", dash: [4, 2] });
+    expect(shapes[shapes.length - 1]).toMatchObject({ kind: "path", fill: "hsl(var(--marker-color))" });
+    // The first selected line is drawn wider in light blue
+    expect(shapes).toContainEqual(expect.objectContaining({ stroke: "#7dd3fc", strokeWidth: 3 }));
+  });
+
+  it("shows lengths when length labels are on", () => {
+    expect(labels({ ...scene, showLengthLabels: true })).toEqual(["⌀ 40.0 px", "50.0"]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { circleFromDiameter, circleFromThreePoints, fitCircleLeastSquares } from "@/lib/circleFit";
+
+describe("circle fitting", () => {
+  it("finds the circle through three points", () => {
+    const circle = circleFromThreePoints({ x: 110, y: 50 }, { x: 100, y: 60 }, { x: 90, y: 50 });
+
+    expect(circle?.centerX).toBeCloseTo(100);
+    expect(circle?.centerY).toBeCloseTo(50);
+    expect(circle?.radius).toBeCloseTo(10);
+  });
+
+  it("rejects collinear points", () => {
+    expect(circleFromThreePoints({ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 10 })).toBeNull();
+  });
+
+  it("uses two points as a diameter", () => {
+    expect(circleFromDiameter({ x: 0, y: 0 }, { x: 20, y: 0 })).toMatchObject({ centerX: 10, centerY: 0, radius: 10 });
+  });
+
+  it("fits many points by least squares and reports the residual", () => {
+    const onCircle = Array.from({ length: 12 }, (_, i) => {
+      const t = (i / 12) * 2 * Math.PI;
+      return { x: 500 + 40 * Math.cos(t), y: 300 + 40 * Math.sin(t) };
+    });
+    const exact = fitCircleLeastSquares(onCircle);
+    expect(exact?.centerX).toBeCloseTo(500);
+    expect(exact?.centerY).toBeCloseTo(300);
+    expect(exact?.radius).toBeCloseTo(40);
+    expect(exact?.residual).toBeCloseTo(0);
+
+    // Alternate points pushed 1px in and out
+    const noisy = onCircle.map((p, i) => {
+      const offset = i % 2 === 0 ? 1 : -1;
+      return { x: p.x + ((p.x - 500) / 40) * offset, y: p.y + ((p.y - 300) / 40) * offset };
+    });
+    expect(fitCircleLeastSquares(noisy)?.residual).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { evaluateFormula, parseFormula, renameFormulaVariables } from "@/lib/formula";
+
+const variables = new Map<string, number>([
+  ["A", 3],
+  ["B", 4],
+  ["C", 2],
+  ["θ1", 90],
+  ["θ2", 30],
+  ["C1.r", 5],
+]);
+
+describe("formula", () => {
+  it("follows operator precedence", () => {
+    expect(evaluateFormula("(A+B)/C*100", variables)).toBe(350);
+    expect(evaluateFormula("A+B*C", variables)).toBe(11);
+    expect(evaluateFormula("2^3^2", variables)).toBe(512);
+    expect(evaluateFormula("-2^2", variables)).toBe(-4);
+    expect(evaluateFormula("1.5e2 - -A", variables)).toBe(153);
+  });
+
+  it("uses degrees for trigonometry", () => {
+    expect(evaluateFormula("θ1-θ2", variables)).toBe(60);
+    expect(evaluateFormula("sin(θ2)*A", variables)).toBeCloseTo(1.5);
+    expect(evaluateFormula("acos(0)", variables)).toBeCloseTo(90);
+    expect(evaluateFormula("sqrt(A^2+B^2)", variables)).toBe(5);
+    expect(evaluateFormula("max(A, B, C) - min(A, C)", variables)).toBe(2);
+    expect(evaluateFormula("pi*C1.r^2", variables)).toBeCloseTo(78.5398);
+  });
+
+  it("reports unknown names and syntax errors", () => {
+    expect(() => evaluateFormula("A+Z", variables)).toThrow("找不到「Z」");
+    expect(() => evaluateFormula("foo(A)", variables)).toThrow("沒有「foo」這個函式");
+    expect(() => evaluateFormula("constructor", variables)).toThrow("找不到「constructor」");
+    expect(() => evaluateFormula("toString(A)", variables)).toThrow("沒有「toString」這個函式");
+    expect(() => parseFormula("(A+B")).toThrow("缺少「)」");
+    expect(() => parseFormula("A+")).toThrow("公式不完整");
+    expect(() => parseFormula("A B")).toThrow("多餘的內容");
+    expect(() => parseFormula("A;alert(1)")).toThrow("無法辨識");
+    expect(() => parseFormula("pow(A)")).toThrow("參數數量不對");
+    expect(() => parseFormula("  ")).toThrow("公式是空的");
+  });
+
+  it("rejects results that are not finite", () => {
+    expect(() => evaluateFormula("A/(B-4)", variables)).toThrow("有限的數值");
+    expect(() => evaluateFormula("sqrt(-1)", variables)).toThrow("有限的數值");
+  });
+
+  it("renames referenced names in one pass", () => {
+    const renames = new Map([["A", "B"], ["B", "A"], ["C1", "C2"]]);
+    expect(renameFormulaVariables("(A + B) / C1.r * AB", renames)).toBe("(B + A) / C2.r * AB");
+    expect(renameFormulaVariables("A +", renames)).toBe("B +");
+  });
+});
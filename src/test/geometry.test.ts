@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { polygonArea, polygonCentroid, polygonPerimeter } from "@/lib/geometry";
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 10, y: 0 },
+  { x: 10, y: 10 },
+  { x: 0, y: 10 },
+];
+
+describe("polygon geometry", () => {
+  it("computes area regardless of winding", () => {
+    expect(polygonArea(square)).toBe(100);
+    expect(polygonArea([...square].reverse())).toBe(100);
+  });
+
+  it("computes the closed perimeter", () => {
+    expect(polygonPerimeter(square)).toBe(40);
+  });
+
+  it("finds the centroid", () => {
+    expect(polygonCentroid(square)).toEqual({ x: 5, y: 5 });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { Angle, Circle, Line, Point, Polygon } from "@/types/drawing";
+import { createSpatialIndex, getPointBounds } from "@/lib/spatialIndex";
+import { getBounds } from "@/lib/viewport";
+import { SnapSegment, getSnapSegments } from "@/lib/snapping";
+import { buildDisplayList } from "@/lib/canvasRenderer";
+import { HitTestScene, createHitIndexes, findAnnotationAt, findCircleBoxAt } from "@/lib/hitTesting";
+
+const points: Point[] = [
+  { id: "p1", x: 0, y: 0 },
+  { id: "p2", x: 200, y: 0 },
+  { id: "p3", x: 0, y: 200 },
+  { id: "p4", x: 400, y: 400 },
+  { id: "p5", x: 500, y: 400 },
+  { id: "p6", x: 450, y: 480 },
+];
+const lines: Line[] = [
+  { id: "l1", label: "A", startPointId: "p1", endPointId: "p2" },
+  { id: "l2", label: "B", startPointId: "p1", endPointId: "p3" },
+];
+const angles: Angle[] = [{ id: "a1", label: "∠1", line1Id: "l1", line2Id: "l2", vertexPointId: "p1", degrees: 90 }];
+const polygons: Polygon[] = [{ id: "g1", label: "G", pointIds: ["p4", "p5", "p6"] }];
+const circles: Circle[] = [
+  { id: "c1", label: "C1", centerX: 800, centerY: 200, radius: 100 },
+  { id: "c2", label: "C2", centerX: 800, centerY: 200, radius: 30 },
+];
+
+const buildScene = (): HitTestScene => {
+  const shapes = buildDisplayList({
+    points,
+    lines,
+    angles,
+    circles,
+    polygons,
+    selectedPointIds: new Set(),
+    selectedLineIds: new Set(),
+    selectedAngleIds: new Set(),
+    selectedCircleIds: new Set(),
+    selectedPolygonIds: new Set(),
+    activePointId: null,
+    angleFirstLineId: null,
+    showLengthLabels: false,
+    calibration: null,
+    lensCorrection: null,
+  });
+  return {
+    pointIndex: createSpatialIndex<Point>(points, getPointBounds),
+    segmentIndex: createSpatialIndex<SnapSegment>(getSnapSegments(points, lines), s => getBounds([s.start, s.end])),
+    circleIndex: createSpatialIndex(circles, c => ({
+      minX: c.centerX - c.radius,
+      minY: c.centerY - c.radius,
+      maxX: c.centerX + c.radius,
+      maxY: c.centerY + c.radius,
+    })),
+    ...createHitIndexes(shapes, points, lines, angles, polygons),
+  };
+};
+
+const options = { pointRadius: 20, lineWidth: 16, strokeWidth: 12, includeCircles: true };
+
+describe("findAnnotationAt", () => {
+  const scene = buildScene();
+
+  it("prefers points over the lines that end at them", () => {
+    expect(findAnnotationAt({ x: 5, y: 3 }, scene, options)?.target).toEqual({ kind: "point", id: "p1" });
+  });
+
+  it("finds line bodies and labels", () => {
+    expect(findAnnotationAt({ x: 150, y: 6 }, scene, options)).toEqual({ target: { kind: "line", id: "l1" }, onLabel: false });
+    expect(findAnnotationAt({ x: 100, y: 0 }, scene, options)).toEqual({ target: { kind: "line", id: "l1" }, onLabel: true });
+  });
+
+  it("finds angle arcs only inside their sweep", () => {
+    // 直角的圓弧半徑 50，從 +x 轉到 +y
+    const onArc = { x: 50 * Math.cos(Math.PI / 8), y: 50 * Math.sin(Math.PI / 8) };
+    expect(findAnnotationAt(onArc, scene, options)?.target).toEqual({ kind: "angle", id: "a1" });
+    expect(findAnnotationAt({ x: -50, y: -3 }, scene, options)).toBeNull();
+  });
+
+  it("finds polygon edges but not their interior", () => {
+    expect(findAnnotationAt({ x: 450, y: 403 }, scene, options)?.target).toEqual({ kind: "polygon", id: "g1" });
+    expect(findAnnotationAt({ x: 430, y: 420 }, scene, options)).toBeNull();
+  });
+
+  it("finds circles by their circumference only when circles are selectable", () => {
+    expect(findAnnotationAt({ x: 900, y: 204 }, scene, options)?.target).toEqual({ kind: "circle", id: "c1" });
+    expect(findAnnotationAt({ x: 900, y: 204 }, scene, { ...options, includeCircles: false })).toBeNull();
+    expect(findAnnotationAt({ x: 850, y: 200 }, scene, options)).toBeNull();
+  });
+});
+
+describe("findCircleBoxAt", () => {
+  it("grabs the smallest circle whose bounding box contains the position", () => {
+    const { circleIndex } = buildScene();
+    expect(findCircleBoxAt({ x: 790, y: 190 }, circleIndex)?.id).toBe("c2");
+    expect(findCircleBoxAt({ x: 710, y: 110 }, circleIndex)?.id).toBe("c1");
+    expect(findCircleBoxAt({ x: 600, y: 100 }, circleIndex)).toBeNull();
+  });
+});
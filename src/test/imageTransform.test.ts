@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { DrawingDocument } from "@/types/drawing";
+import { EMPTY_DOCUMENT } from "@/lib/projectFile";
+import { distance } from "@/lib/geometry";
+import {
+  applyMatrix,
+  clampCropRegion,
+  getAnnotationBounds,
+  getCropTransform,
+  getOrientationTransform,
+  getRotationTransform,
+  getStraightenAngle,
+  transformDocument,
+} from "@/lib/imageTransform";
+
+describe("imageTransform", () => {
+  it("rotates and flips the image corners onto the new image", () => {
+    const cw = getOrientationTransform(200, 100, "rotateClockwise");
+    expect([cw.width, cw.height]).toEqual([100, 200]);
+    // Top-left corner ends up at the top-right
+    expect(applyMatrix(cw.matrix, { x: 0, y: 0 })).toEqual({ x: 100, y: 0 });
+    expect(applyMatrix(cw.matrix, { x: 200, y: 100 })).toEqual({ x: 0, y: 200 });
+
+    const ccw = getOrientationTransform(200, 100, "rotateCounterClockwise");
+    expect(applyMatrix(ccw.matrix, { x: 0, y: 0 })).toEqual({ x: 0, y: 200 });
+
+    const half = getOrientationTransform(200, 100, "rotate180");
+    expect([half.width, half.height]).toEqual([200, 100]);
+    expect(applyMatrix(half.matrix, { x: 10, y: 20 })).toEqual({ x: 190, y: 80 });
+
+    expect(applyMatrix(getOrientationTransform(200, 100, "flipHorizontal").matrix, { x: 10, y: 20 })).toEqual({ x: 190, y: 20 });
+    expect(applyMatrix(getOrientationTransform(200, 100, "flipVertical").matrix, { x: 10, y: 20 })).toEqual({ x: 10, y: 80 });
+  });
+
+  it("grows the image to hold an arbitrary rotation", () => {
+    const t = getRotationTransform(100, 100, 45);
+    expect(t.width).toBe(Math.ceil(100 * Math.SQRT2));
+    const center = applyMatrix(t.matrix, { x: 50, y: 50 });
+    expect(center.x).toBeCloseTo(t.width / 2);
+    expect(center.y).toBeCloseTo(t.height / 2);
+  });
+
+  it("finds the smallest rotation that straightens a line", () => {
+    expect(getStraightenAngle({ x: 0, y: 0 }, { x: 100, y: 10 })).toBeCloseTo(-5.71, 2);
+    expect(getStraightenAngle({ x: 0, y: 0 }, { x: 10, y: 100 })).toBeCloseTo(5.71, 2);
+    expect(getStraightenAngle({ x: 0, y: 0 }, { x: 100, y: 0 })).toBe(0);
+
+    const start = { x: 10, y: 10 };
+    const end = { x: 80, y: 40 };
+    const { matrix } = getRotationTransform(100, 100, getStraightenAngle(start, end));
+    expect(applyMatrix(matrix, start).y).toBeCloseTo(applyMatrix(matrix, end).y);
+  });
+
+  it("moves points and circles while keeping measurements", () => {
+    const doc: DrawingDocument = {
+      ...EMPTY_DOCUMENT,
+      points: [{ id: "a", x: 10, y: 10 }, { id: "b", x: 50, y: 40 }],
+      lines: [{ id: "l", label: "A", startPointId: "a", endPointId: "b" }],
+      circles: [{ id: "c", label: "C1", centerX: 20, centerY: 30, radius: 15 }],
+    };
+    const next = transformDocument(doc, getRotationTransform(100, 80, 30).matrix);
+    expect(next.lines).toBe(doc.lines);
+    expect(distance(next.points[0], next.points[1])).toBeCloseTo(distance(doc.points[0], doc.points[1]));
+    expect(next.circles[0].radius).toBe(15);
+    expect(next.circles[0].centerX).not.toBeCloseTo(20);
+  });
+
+  it("crops to a whole-pixel region inside the image", () => {
+    expect(clampCropRegion({ minX: -5, minY: 10.4, maxX: 80.2, maxY: 300 }, 100, 200)).toEqual({ minX: 0, minY: 10, maxX: 81, maxY: 200 });
+    expect(clampCropRegion({ minX: 20, minY: 20, maxX: 20, maxY: 60 }, 100, 200)).toBeNull();
+
+    const t = getCropTransform(100, 200, { minX: 10, minY: 30, maxX: 60, maxY: 90 });
+    expect([t.width, t.height]).toEqual([50, 60]);
+    expect(applyMatrix(t.matrix, { x: 10, y: 30 })).toEqual({ x: 0, y: 0 });
+    // Annotations outside the crop are kept, just off the new image
+    expect(applyMatrix(t.matrix, { x: 5, y: 95 })).toEqual({ x: -5, y: 65 });
+  });
+
+  it("measures the annotations including whole circles", () => {
+    expect(getAnnotationBounds({ points: [], circles: [] })).toBeNull();
+    expect(getAnnotationBounds({
+      points: [{ id: "a", x: 40, y: 50 }],
+      circles: [{ id: "c", label: "C1", centerX: 100, centerY: 60, radius: 20 }],
+    })).toEqual({ minX: 40, minY: 40, maxX: 120, maxY: 80 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { DrawingDocument } from "@/types/drawing";
+import { EMPTY_DOCUMENT } from "@/lib/projectFile";
+import { applyHomography } from "@/lib/rectification";
+import { getOrientationTransform, transformDocument } from "@/lib/imageTransform";
+import {
+  createLensCorrection,
+  distortPoint,
+  estimateLensDistortion,
+  undistortDocument,
+  undistortPoint,
+} from "@/lib/lensDistortion";
+
+const barrel = createLensCorrection("Bench camera", { k1: -0.15, k2: 0.02, p1: 0.002, p2: -0.001 }, 800, 600);
+
+// A 7 × 5 checkerboard seen slightly from the side, filling most of the frame
+const rows = 5;
+const cols = 7;
+const gridToImage = [95, 8, 110, 4, 100, 60, 0.0004, 0.0002, 1] as Parameters<typeof applyHomography>[0];
+const idealCorners = Array.from({ length: rows * cols }, (_, i) =>
+  applyHomography(gridToImage, { x: i % cols, y: Math.floor(i / cols) }),
+);
+
+describe("lensDistortion", () => {
+  it("undoes the distortion it applies", () => {
+    const p = { x: 760, y: 40 };
+    const distorted = distortPoint(barrel, p);
+    // Barrel distortion pulls corners toward the center
+    expect(distorted.x).toBeLessThan(p.x);
+    const restored = undistortPoint(barrel, distorted);
+    expect(restored.x).toBeCloseTo(p.x, 6);
+    expect(restored.y).toBeCloseTo(p.y, 6);
+  });
+
+  it("estimates the coefficients from clicked checkerboard corners", () => {
+    const clicked = idealCorners.map(p => distortPoint(barrel, p));
+    const result = estimateLensDistortion(clicked, rows, cols, 800, 600);
+
+    expect(result.rmsError).toBeLessThan(0.01);
+    expect(result.coefficients.k1).toBeCloseTo(-0.15, 2);
+    clicked.forEach((p, i) => {
+      const corrected = undistortPoint(createLensCorrection("", result.coefficients, 800, 600), p);
+      expect(corrected.x).toBeCloseTo(idealCorners[i].x, 1);
+      expect(corrected.y).toBeCloseTo(idealCorners[i].y, 1);
+    });
+  });
+
+  it("rejects an incomplete grid", () => {
+    expect(() => estimateLensDistortion(idealCorners.slice(1), rows, cols, 800, 600)).toThrow();
+    expect(() => estimateLensDistortion(idealCorners.slice(0, 4), 2, 2, 800, 600)).toThrow();
+  });
+
+  it("keeps the correction on the same features after rotating the image", () => {
+    const doc: DrawingDocument = {
+      ...EMPTY_DOCUMENT,
+      points: [{ id: "a", x: 700, y: 80 }],
+      lensCorrection: barrel,
+    };
+    const { matrix } = getOrientationTransform(800, 600, "rotateClockwise");
+    const before = undistortDocument(doc, barrel);
+    const rotated = transformDocument(doc, matrix);
+    const after = undistortDocument(rotated, rotated.lensCorrection!);
+
+    const expected = transformDocument(before, matrix).points[0];
+    expect(after.points[0].x).toBeCloseTo(expected.x, 6);
+    expect(after.points[0].y).toBeCloseTo(expected.y, 6);
+    expect(after.lensCorrection).toBeNull();
+  });
+});
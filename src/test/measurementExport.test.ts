@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { DrawingDocument } from "@/types/drawing";
+import { EMPTY_DOCUMENT } from "@/lib/projectFile";
+import {
+  buildMeasurementReport,
+  escapeCsvField,
+  evaluateDerivedMeasurements,
+  getDocumentFormulaVariables,
+  serializeReportCsv,
+} from "@/lib/measurementExport";
+import { createLensCorrection, undistortPoint } from "@/lib/lensDistortion";
+
+const sampleDocument: DrawingDocument = {
+  ...EMPTY_DOCUMENT,
+  points: [
+    { id: "p1", x: 0, y: 0 },
+    { id: "p2", x: 30, y: 40 },
+    { id: "p3", x: 50, y: 0 },
+  ],
+  lines: [
+    { id: "l1", label: "A", startPointId: "p1", endPointId: "p2" },
+    { id: "l2", label: "B", startPointId: "p1", endPointId: "p3" },
+  ],
+  angles: [{ id: "a1", label: "θ1", line1Id: "l1", line2Id: "l2", vertexPointId: "p1", degrees: 53.1301 }],
+  circles: [{ id: "c1", label: "C1", centerX: 5, centerY: 5, radius: 10 }],
+  calibration: { referenceLineId: "l1", pixelLength: 50, realLength: 5, unit: "mm" },
+};
+
+describe("measurementExport", () => {
+  it("reports pixel and calibrated values", () => {
+    const report = buildMeasurementReport(sampleDocument);
+
+    expect(report.lines[0]).toMatchObject({ label: "A", lengthPx: 50, length: 5 });
+    expect(report.angles[0]).toMatchObject({ line1: "A", line2: "B", vertex: { x: 0, y: 0 } });
+    expect(report.circles[0]).toMatchObject({ radius: 1, diameter: 2, diameterPx: 20 });
+    expect(report.ratios).toEqual([{ numerator: "A", denominator: "B", value: 1 }]);
+    expect(report.calibration).toMatchObject({ unit: "mm", referenceLine: "A" });
+  });
+
+  it("lists named ratios before the pairwise ones", () => {
+    const report = buildMeasurementReport({
+      ...sampleDocument,
+      ratios: [{ id: "r1", label: "R1", numeratorLineId: "l2", denominatorLineId: "l1" }],
+    });
+
+    expect(report.ratios[0]).toEqual({ label: "R1", numerator: "B", denominator: "A", value: 1 });
+    expect(report.ratios).toHaveLength(2);
+    expect(serializeReportCsv(report)).toContain("ratio,R1,ratio,1,");
+  });
+
+  it("evaluates derived measurements from calibrated values", () => {
+    const report = buildMeasurementReport({
+      ...sampleDocument,
+      derivedMeasurements: [
+        { id: "d1", label: "Sum", formula: "(A+B)/C1*100" },
+        { id: "d2", label: "Half", formula: "Sum/2" },
+        { id: "d3", label: "Bad", formula: "A/Z" },
+      ],
+    });
+
+    // A = 5 mm, B = 5 mm, C1 diameter = 2 mm
+    expect(report.derived[0]).toEqual({ label: "Sum", formula: "(A+B)/C1*100", value: 500, error: null });
+    expect(report.derived[1].value).toBe(250);
+    expect(report.derived[2]).toMatchObject({ value: null, error: "找不到「Z」" });
+    expect(serializeReportCsv(report)).toContain("derived,Sum,value,500,");
+  });
+
+  it("evaluates live values without building the full report", () => {
+    const variables = getDocumentFormulaVariables(sampleDocument);
+    expect(variables.get("A")).toBe(5);
+    expect(variables.get("C1.r")).toBe(1);
+    expect(variables.has("A/B")).toBe(false);
+
+    // A formula can only see the derived measurements listed before it
+    const results = evaluateDerivedMeasurements([
+      { id: "d1", label: "Early", formula: "Late*2" },
+      { id: "d2", label: "Late", formula: "A+1" },
+    ], variables);
+    expect(results.map(result => result.value)).toEqual([null, 6]);
+    expect(variables.has("Late")).toBe(false);
+  });
+
+  it("writes a long-format CSV", () => {
+    const csv = serializeReportCsv(buildMeasurementReport(sampleDocument));
+    const rows = csv.replace(/^\uFEFF/, "").trim().split("\r\n");
+
+    expect(rows[0]).toBe("type,label,property,value,unit");
+    expect(rows).toContain("line,A,length,5,mm");
+    expect(rows).toContain("ratio,A/B,ratio,1,");
+  });
+
+  it("adds rectified values when a rectification is set", () => {
+    // A 100 × 50 px rectangle seen head-on, declared to be 10 × 5 cm
+    const report = buildMeasurementReport({
+      ...sampleDocument,
+      rectification: {
+        corners: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }, { x: 0, y: 50 }],
+        width: 10,
+        height: 5,
+        unit: "cm",
+      },
+    });
+
+    expect(report.rectification).toEqual({ unit: "cm", width: 10, height: 5 });
+    expect(report.lines[0]).toMatchObject({ lengthPx: 50, rectifiedLength: 5 });
+    expect(report.angles[0].rectifiedDegrees).toBeCloseTo(53.1301, 3);
+    expect(serializeReportCsv(report)).toContain("line,A,length_rectified,5,cm");
+  });
+
+  it("measures through the lens correction", () => {
+    const lens = createLensCorrection("Bench camera", { k1: -0.2, k2: 0, p1: 0, p2: 0 }, 100, 100);
+    const report = buildMeasurementReport({ ...sampleDocument, lensCorrection: lens });
+
+    expect(report.lensCorrection).toEqual({ profileName: "Bench camera", coefficients: lens.coefficients });
+    // Barrel distortion shrinks the image away from the center, so the corrected line is longer
+    const start = undistortPoint(lens, { x: 0, y: 0 });
+    const end = undistortPoint(lens, { x: 30, y: 40 });
+    expect(report.lines[0].lengthPx).toBeCloseTo(Math.hypot(end.x - start.x, end.y - start.y), 3);
+    expect(report.lines[0].lengthPx).toBeGreaterThan(50);
+  });
+
+  it("quotes CSV fields that need it", () => {
+    expect(escapeCsvField('a,"b"')).toBe('"a,""b"""');
+    expect(escapeCsvField(null)).toBe("");
+  });
+});
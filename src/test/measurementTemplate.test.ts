@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { DrawingDocument, MeasurementTemplate } from "@/types/drawing";
+import { EMPTY_DOCUMENT } from "@/lib/projectFile";
+import {
+  applyTemplateMeasurements,
+  createTemplateFromDocument,
+  findTemplateLandmarks,
+  getNextTemplateLandmark,
+} from "@/lib/measurementTemplate";
+
+const measuredDocument: DrawingDocument = {
+  ...EMPTY_DOCUMENT,
+  points: [
+    { id: "p1", x: 0, y: 0, isLandmark: true, label: "Nasion" },
+    { id: "p2", x: 100, y: 0, isLandmark: true, label: "Sella" },
+    { id: "p3", x: 0, y: 50, isLandmark: true, label: "Menton" },
+    { id: "p4", x: 300, y: 300 },
+  ],
+  lines: [
+    { id: "l1", label: "A", startPointId: "p1", endPointId: "p2" },
+    { id: "l2", label: "B", startPointId: "p1", endPointId: "p3" },
+    { id: "l3", label: "C", startPointId: "p2", endPointId: "p4" },
+  ],
+  angles: [
+    { id: "a1", label: "θ1", line1Id: "l1", line2Id: "l2", vertexPointId: "p1", degrees: 90 },
+    { id: "a2", label: "θ2", line1Id: "l1", line2Id: "l3", vertexPointId: "p2", degrees: 135 },
+  ],
+  ratios: [{ id: "r1", label: "R1", numeratorLineId: "l2", denominatorLineId: "l1" }],
+};
+
+const toTemplate = (doc: DrawingDocument): MeasurementTemplate => ({
+  ...createTemplateFromDocument("Lateral", doc),
+  id: "template-1",
+  createdAt: 0,
+});
+
+describe("measurementTemplate", () => {
+  it("keeps only the measurements between named landmarks", () => {
+    const template = toTemplate(measuredDocument);
+
+    expect(template.landmarks).toEqual(["Nasion", "Sella", "Menton"]);
+    expect(template.lines).toEqual([
+      { label: "A", from: "Nasion", to: "Sella" },
+      { label: "B", from: "Nasion", to: "Menton" },
+    ]);
+    expect(template.angles).toEqual([{ label: "θ1", lines: ["A", "B"] }]);
+    expect(template.ratios).toEqual([{ label: "R1", numerator: "B", denominator: "A" }]);
+  });
+
+  it("rejects documents without named landmarks or with duplicate names", () => {
+    expect(() => createTemplateFromDocument("Empty", EMPTY_DOCUMENT)).toThrow();
+    const duplicated = {
+      ...measuredDocument,
+      points: measuredDocument.points.map(p => p.id === "p3" ? { ...p, label: "Nasion" } : p),
+    };
+    expect(() => createTemplateFromDocument("Twice", duplicated)).toThrow(/Nasion/);
+  });
+
+  it("recreates the measurements on a new image from the placed landmarks", () => {
+    const template = toTemplate(measuredDocument);
+    const points = [
+      { id: "n", x: 10, y: 10, isLandmark: true, label: "Nasion" },
+      { id: "s", x: 10, y: 90, isLandmark: true, label: "Sella" },
+      { id: "m", x: 70, y: 10, isLandmark: true, label: "Menton" },
+    ];
+    const landmarkIds = findTemplateLandmarks(template, points);
+    expect(getNextTemplateLandmark(template, landmarkIds, points)).toBeNull();
+
+    const doc = applyTemplateMeasurements({ ...EMPTY_DOCUMENT, points }, template, landmarkIds);
+    expect(doc.lines.map(l => [l.label, l.startPointId, l.endPointId])).toEqual([
+      ["A", "n", "s"],
+      ["B", "n", "m"],
+    ]);
+    expect(doc.angles[0]).toMatchObject({ label: "θ1", vertexPointId: "n" });
+    expect(doc.angles[0].degrees).toBeCloseTo(90);
+    expect(doc.ratios[0]).toMatchObject({ label: "R1", numeratorLineId: doc.lines[1].id, denominatorLineId: doc.lines[0].id });
+
+    // Applying again does not duplicate anything
+    const again = applyTemplateMeasurements(doc, template, landmarkIds);
+    expect(again.lines).toHaveLength(2);
+    expect(again.angles).toHaveLength(1);
+    expect(again.ratios).toHaveLength(1);
+  });
+
+  it("keeps the template's names when the image already uses them", () => {
+    const template = toTemplate(measuredDocument);
+    const points = [
+      { id: "n", x: 10, y: 10, isLandmark: true, label: "Nasion" },
+      { id: "s", x: 10, y: 90, isLandmark: true, label: "Sella" },
+      { id: "m", x: 70, y: 10, isLandmark: true, label: "Menton" },
+      { id: "q1", x: 200, y: 200 },
+      { id: "q2", x: 260, y: 200 },
+    ];
+    const doc = applyTemplateMeasurements({
+      ...EMPTY_DOCUMENT,
+      points,
+      lines: [
+        // Unrelated line that happens to be called "A"
+        { id: "other", label: "A", startPointId: "q1", endPointId: "q2" },
+        // Already joins Nasion and Menton, which the template calls "B"
+        { id: "joined", label: "X", startPointId: "n", endPointId: "m" },
+      ],
+      derivedMeasurements: [{ id: "d1", label: "Mine", formula: "A/X*100" }],
+    }, template, findTemplateLandmarks(template, points));
+
+    const labelById = Object.fromEntries(doc.lines.map(l => [l.id, l.label]));
+    expect(labelById.other).toBe("A2");
+    expect(labelById.joined).toBe("B");
+    const templateA = doc.lines.find(l => l.label === "A");
+    expect(templateA).toMatchObject({ startPointId: "n", endPointId: "s" });
+    expect(doc.ratios[0]).toMatchObject({ label: "R1", numeratorLineId: "joined", denominatorLineId: templateA!.id });
+    // The image's own formula follows its renamed lines
+    expect(doc.derivedMeasurements[0].formula).toBe("A2/B*100");
+  });
+
+  it("asks for the landmarks in template order and skips measurements of missing ones", () => {
+    const template = toTemplate(measuredDocument);
+    const points = [{ id: "m", x: 0, y: 0, isLandmark: true, label: "Menton" }];
+    const landmarkIds = findTemplateLandmarks(template, points);
+
+    expect(getNextTemplateLandmark(template, landmarkIds, points)).toBe("Nasion");
+    const doc = applyTemplateMeasurements({ ...EMPTY_DOCUMENT, points }, template, landmarkIds);
+    expect(doc.lines).toHaveLength(0);
+    expect(doc.angles).toHaveLength(0);
+  });
+});
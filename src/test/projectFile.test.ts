@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import {
+  PROJECT_FILE_VERSION,
+  EMPTY_DOCUMENT,
+  createProjectFile,
+  createProjectImage,
+  parseProject,
+  serializeProject,
+} from "@/lib/projectFile";
+import { DrawingDocument } from "@/types/drawing";
+
+const sampleDocument: DrawingDocument = {
+  ...EMPTY_DOCUMENT,
+  points: [
+    { id: "p1", x: 0, y: 0 },
+    { id: "p2", x: 30, y: 40 },
+  ],
+  lines: [{ id: "l1", label: "A", startPointId: "p1", endPointId: "p2" }],
+  circles: [{ id: "c1", label: "C1", centerX: 5, centerY: 5, radius: 10 }],
+  calibration: { referenceLineId: "l1", pixelLength: 50, realLength: 5, unit: "mm" },
+  rectification: {
+    corners: [{ x: 0, y: 0 }, { x: 100, y: 10 }, { x: 90, y: 80 }, { x: 5, y: 70 }],
+    width: 210,
+    height: 297,
+    unit: "mm",
+  },
+  lensCorrection: {
+    profileName: "Bench camera",
+    coefficients: { k1: -0.12, k2: 0.01, p1: 0.001, p2: -0.002 },
+    centerX: 320,
+    centerY: 240,
+    focal: 400,
+  },
+};
+
+describe("projectFile", () => {
+  it("round-trips a project with several images", () => {
+    const first = createProjectImage("data:image/png;base64,AAAA", "front.png", sampleDocument);
+    const second = createProjectImage("data:image/png;base64,BBBB", "side.png");
+    const project = createProjectFile([first, second], second.id, {
+      showLengthLabels: true,
+      scale: 0.5,
+    });
+    const parsed = parseProject(serializeProject(project));
+
+    expect(parsed.version).toBe(PROJECT_FILE_VERSION);
+    expect(parsed.images).toEqual([first, second]);
+    expect(parsed.images[1].document).toEqual(EMPTY_DOCUMENT);
+    expect(parsed.activeImageId).toBe(second.id);
+    expect(parsed.view).toEqual({ showLengthLabels: true, scale: 0.5 });
+  });
+
+  it("migrates version 1 files without polygons", () => {
+    const { polygons, ...v1Document } = sampleDocument;
+    const v1File = {
+      format: "draw-measure-project",
+      version: 1,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      image: null,
+      document: v1Document,
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v1File));
+
+    expect(parsed.version).toBe(PROJECT_FILE_VERSION);
+    expect(parsed.images[0].document.polygons).toEqual([]);
+    expect(parsed.images[0].document.lines).toEqual(sampleDocument.lines);
+  });
+
+  it("labels circles saved before circles had names", () => {
+    const v2File = {
+      format: "draw-measure-project",
+      version: 2,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      image: null,
+      document: {
+        ...sampleDocument,
+        circles: [
+          { id: "c1", centerX: 5, centerY: 5, radius: 10 },
+          { id: "c2", centerX: 50, centerY: 50, radius: 20 },
+        ],
+      },
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v2File));
+
+    expect(parsed.images[0].document.circles.map(c => c.label)).toEqual(["C1", "C2"]);
+  });
+
+  it("adds an empty rectification to version 3 files", () => {
+    const { rectification, ...v3Document } = sampleDocument;
+    const v3File = {
+      format: "draw-measure-project",
+      version: 3,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      image: null,
+      document: v3Document,
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v3File));
+
+    expect(parsed.images[0].document.rectification).toBeNull();
+    expect(parsed.images[0].document.calibration).toEqual(sampleDocument.calibration);
+  });
+
+  it("adds an empty lens correction to version 4 files", () => {
+    const { lensCorrection, ...v4Document } = sampleDocument;
+    const v4File = {
+      format: "draw-measure-project",
+      version: 4,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      image: null,
+      document: v4Document,
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v4File));
+
+    expect(parsed.images[0].document.lensCorrection).toBeNull();
+    expect(parsed.images[0].document.rectification).toEqual(sampleDocument.rectification);
+  });
+
+  it("wraps the single image of version 5 files", () => {
+    const v5File = {
+      format: "draw-measure-project",
+      version: 5,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      image: "data:image/png;base64,AAAA",
+      document: sampleDocument,
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v5File));
+
+    expect(parsed.images).toHaveLength(1);
+    expect(parsed.images[0]).toMatchObject({ image: v5File.image, document: sampleDocument });
+    expect(parsed.activeImageId).toBe(parsed.images[0].id);
+  });
+
+  it("adds empty ratios to every image of version 6 files", () => {
+    const { ratios, ...v6Document } = sampleDocument;
+    const v6File = {
+      format: "draw-measure-project",
+      version: 6,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      images: [
+        { id: "image-1", name: "front.png", image: null, document: v6Document },
+        { id: "image-2", name: "side.png", image: null, document: v6Document },
+      ],
+      activeImageId: "image-2",
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v6File));
+
+    expect(parsed.images.map(entry => entry.document.ratios)).toEqual([[], []]);
+    expect(parsed.activeImageId).toBe("image-2");
+  });
+
+  it("adds empty derived measurements to every image of version 7 files", () => {
+    const { derivedMeasurements, ...v7Document } = sampleDocument;
+    const v7File = {
+      format: "draw-measure-project",
+      version: 7,
+      savedAt: "2024-01-01T00:00:00.000Z",
+      images: [{ id: "image-1", name: "front.png", image: null, document: v7Document }],
+      activeImageId: "image-1",
+      view: { showLengthLabels: false, scale: 1 },
+    };
+    const parsed = parseProject(JSON.stringify(v7File));
+
+    expect(parsed.images[0].document.derivedMeasurements).toEqual([]);
+    expect(parsed.images[0].document.points).toEqual(sampleDocument.points);
+  });
+
+  it("rejects files that are not projects", () => {
+    expect(() => parseProject("not json")).toThrow();
+    expect(() => parseProject(JSON.stringify({ hello: "world" }))).toThrow();
+  });
+
+  it("rejects images whose entities are malformed", () => {
+    const entry = createProjectImage(null, "圖片 1", sampleDocument);
+    const project = createProjectFile([entry], entry.id, { showLengthLabels: false, scale: 1 });
+    const withDocument = (document: object) =>
+      JSON.stringify({ ...project, images: [{ ...entry, document: { ...sampleDocument, ...document } }] });
+
+    expect(() => parseProject(withDocument({ points: [{}] }))).toThrow("points 資料格式錯誤");
+    expect(() => parseProject(withDocument({ circles: [{ id: "c1", label: "C1", centerX: "5", centerY: 5, radius: 10 }] }))).toThrow("circles");
+    expect(() => parseProject(withDocument({ calibration: { pixelLength: "50", realLength: 5, unit: "mm" } }))).toThrow("calibration");
+  });
+
+  it("falls back to the default view settings when they are malformed", () => {
+    const entry = createProjectImage(null, "圖片 1");
+    const project = createProjectFile([entry], entry.id, { showLengthLabels: true, scale: 1 });
+    const parsed = parseProject(JSON.stringify({ ...project, view: { showLengthLabels: true, scale: "big" } }));
+
+    expect(parsed.view).toEqual({ showLengthLabels: true, scale: 1 });
+  });
+
+  it("rejects files from a newer version", () => {
+    const entry = createProjectImage(null, "圖片 1", sampleDocument);
+    const project = { ...createProjectFile([entry], entry.id, { showLengthLabels: false, scale: 1 }) };
+    project.version = PROJECT_FILE_VERSION + 1;
+    expect(() => parseProject(JSON.stringify(project))).toThrow();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyHomography,
+  computeHomography,
+  createRectification,
+  createRectifiedMeasurer,
+} from "@/lib/rectification";
+
+// A 200 × 100 rectangle photographed at an angle: the far (top) edge looks shorter
+const corners = [
+  { x: 140, y: 100 },
+  { x: 260, y: 100 },
+  { x: 340, y: 300 },
+  { x: 60, y: 300 },
+];
+
+describe("rectification", () => {
+  it("maps the four corners onto the rectangle", () => {
+    const dst = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }];
+    const h = computeHomography(corners, dst)!;
+    corners.forEach((corner, i) => {
+      const mapped = applyHomography(h, corner);
+      expect(mapped.x).toBeCloseTo(dst[i].x);
+      expect(mapped.y).toBeCloseTo(dst[i].y);
+    });
+  });
+
+  it("measures lengths, areas and angles in the rectified plane", () => {
+    const measurer = createRectifiedMeasurer(createRectification(corners, 200, 100, "mm"))!;
+    const [tl, tr, br, bl] = corners;
+
+    // Both horizontal edges are 200 mm even though they differ in pixels
+    expect(measurer.length(tl, tr)).toBeCloseTo(200);
+    expect(measurer.length(bl, br)).toBeCloseTo(200);
+    expect(measurer.length(tr, br)).toBeCloseTo(100);
+    expect(measurer.area(corners)).toBeCloseTo(20000);
+    expect(measurer.perimeter(corners)).toBeCloseTo(600);
+
+    const points = new Map([["tl", tl], ["tr", tr], ["bl", bl]]);
+    const angle = { id: "a", label: "θ1", vertexPointId: "tl", armPointIds: ["tr", "bl"] as [string, string], degrees: 0 };
+    expect(measurer.angle(angle, id => points.get(id), [])).toBeCloseTo(90);
+  });
+
+  it("rejects invalid corners and sizes", () => {
+    expect(() => createRectification(corners.slice(0, 3), 200, 100, "mm")).toThrow();
+    expect(() => createRectification(corners, 0, 100, "mm")).toThrow();
+    // Corners clicked in a crossing order do not form a convex quadrilateral
+    expect(() => createRectification([corners[0], corners[2], corners[1], corners[3]], 200, 100, "mm")).toThrow();
+  });
+});
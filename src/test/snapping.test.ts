@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { Point } from "@/types/drawing";
+import { HIT_TOLERANCE } from "@/lib/viewport";
+import { DEFAULT_SNAP_TARGETS, SnapScene, constrainToAngle, findSnapTarget, getSnapSegments } from "@/lib/snapping";
+
+const points: Point[] = [
+  { id: "p1", x: 0, y: 0 },
+  { id: "p2", x: 100, y: 0 },
+];
+
+const scene: SnapScene = {
+  points,
+  segments: getSnapSegments(points, [{ id: "l1", label: "A", startPointId: "p1", endPointId: "p2" }]),
+  circles: [{ id: "c1", label: "C1", centerX: 200, centerY: 200, radius: 50 }],
+};
+
+describe("snapping", () => {
+  it("prefers exact targets over positions on a line", () => {
+    expect(findSnapTarget({ x: 4, y: 3 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE })).toMatchObject({ kind: "point", targetId: "p1" });
+    expect(findSnapTarget({ x: 52, y: 5 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE })).toMatchObject({ kind: "midpoint", x: 50, y: 0 });
+    expect(findSnapTarget({ x: 30, y: 8 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE })).toMatchObject({ kind: "lineBody", x: 30, y: 0 });
+  });
+
+  it("snaps to circle centers and circumferences", () => {
+    expect(findSnapTarget({ x: 205, y: 198 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE })).toMatchObject({ kind: "circleCenter" });
+    const onCircle = findSnapTarget({ x: 256, y: 200 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE });
+    expect(onCircle).toMatchObject({ kind: "circumference", y: 200 });
+    expect(onCircle?.x).toBeCloseTo(250);
+  });
+
+  it("respects disabled targets and the dragged point", () => {
+    const targets = { ...DEFAULT_SNAP_TARGETS, point: false, midpoint: false };
+    expect(findSnapTarget({ x: 4, y: 3 }, scene, { targets, tolerance: HIT_TOLERANCE })).toMatchObject({ kind: "lineBody", x: 4, y: 0 });
+    // The dragged point's own line moves with it, so nothing is left to snap to
+    expect(findSnapTarget({ x: 4, y: 3 }, scene, { targets: DEFAULT_SNAP_TARGETS, tolerance: HIT_TOLERANCE, excludePointId: "p1" })).toBeNull();
+  });
+
+  it("constrains a segment to the angle increment", () => {
+    const end = constrainToAngle({ x: 0, y: 0 }, { x: 100, y: 90 }, 45);
+    expect(end.x).toBeCloseTo(end.y);
+    expect(constrainToAngle({ x: 0, y: 0 }, { x: 100, y: 10 }, 90)).toEqual({ x: 100, y: 0 });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { createSpatialIndex, getPointBounds } from "@/lib/spatialIndex";
+
+describe("spatialIndex", () => {
+  it("only returns items near the query", () => {
+    const points = Array.from({ length: 1000 }, (_, i) => ({ id: `p${i}`, x: (i % 100) * 50, y: Math.floor(i / 100) * 50 }));
+    const index = createSpatialIndex<(typeof points)[number]>(points, getPointBounds);
+
+    const found = index.queryRadius({ x: 1000, y: 200 }, 10);
+    expect(found.map(p => p.id)).toContain("p420");
+    expect(found.length).toBeLessThan(20);
+  });
+
+  it("moves an item without rebuilding the index", () => {
+    const points = [{ id: "a", x: 0, y: 0 }, { id: "b", x: 500, y: 500 }];
+    const index = createSpatialIndex<(typeof points)[number]>(points, getPointBounds);
+
+    const moved = { ...points[0], x: 1000, y: 1000 };
+    index.update(points[0], moved);
+    expect(index.queryRadius({ x: 0, y: 0 }, 10)).toHaveLength(0);
+    expect(index.queryRadius({ x: 1000, y: 1000 }, 10)).toEqual([moved]);
+    expect(index.queryRadius({ x: 500, y: 500 }, 10)).toEqual([points[1]]);
+  });
+
+  it("finds items whose bounds span many cells", () => {
+    const segments = [{ id: "long", minX: 0, minY: 0, maxX: 100000, maxY: 100000 }];
+    const index = createSpatialIndex(segments, s => s);
+
+    expect(index.queryRadius({ x: 5000, y: 5000 }, 1)).toHaveLength(1);
+  });
+});
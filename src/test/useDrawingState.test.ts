@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useDrawingState } from "@/hooks/useDrawingState";
+import { HIT_TOLERANCE } from "@/lib/viewport";
+
+describe("useDrawingState history", () => {
+  it("undoes and redoes point placement and line creation", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(10, 10, HIT_TOLERANCE));
+    act(() => result.current.handleCanvasClick(100, 10, HIT_TOLERANCE));
+    expect(result.current.points).toHaveLength(2);
+    expect(result.current.lines).toHaveLength(1);
+
+    act(() => result.current.undo());
+    expect(result.current.points).toHaveLength(1);
+    expect(result.current.lines).toHaveLength(0);
+
+    act(() => result.current.redo());
+    expect(result.current.points).toHaveLength(2);
+    expect(result.current.lines).toHaveLength(1);
+  });
+
+  it("collapses a drag into a single history entry", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(10, 10, HIT_TOLERANCE));
+    const pointId = result.current.points[0].id;
+
+    act(() => result.current.beginHistoryTransaction());
+    act(() => result.current.updatePointPosition(pointId, 20, 20));
+    act(() => result.current.updatePointPosition(pointId, 30, 30));
+    act(() => result.current.commitHistoryTransaction());
+    expect(result.current.points[0]).toMatchObject({ x: 30, y: 30 });
+
+    act(() => result.current.undo());
+    expect(result.current.points[0]).toMatchObject({ x: 10, y: 10 });
+  });
+
+  it("restores everything removed by clearAll", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(10, 10, HIT_TOLERANCE));
+    act(() => result.current.handleCanvasClick(100, 10, HIT_TOLERANCE));
+    act(() => result.current.clearAll());
+    expect(result.current.lines).toHaveLength(0);
+
+    act(() => result.current.undo());
+    expect(result.current.lines).toHaveLength(1);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it("records the orphaned point cleanup as its own history step", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(10, 10, HIT_TOLERANCE));
+    act(() => result.current.setCurrentTool("cursor"));
+    expect(result.current.points).toHaveLength(0);
+
+    act(() => result.current.undo());
+    expect(result.current.points).toHaveLength(1);
+    act(() => result.current.undo());
+    expect(result.current.points).toHaveLength(0);
+
+    act(() => result.current.redo());
+    act(() => result.current.redo());
+    expect(result.current.points).toHaveLength(0);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("reuses an existing point within the zoom-adjusted tolerance", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(10, 10, HIT_TOLERANCE));
+    act(() => result.current.handleCanvasClick(100, 10, HIT_TOLERANCE));
+    // 15 screen px at 25% zoom is 60 image px
+    act(() => result.current.handleCanvasClick(10, 50, 60));
+    expect(result.current.points).toHaveLength(2);
+    expect(result.current.lines).toHaveLength(1);
+  });
+
+  it("creates a polygon by clicking back on the first vertex", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.setCurrentTool("polygon"));
+    act(() => result.current.handlePolygonToolClick(0, 0, HIT_TOLERANCE));
+    act(() => result.current.handlePolygonToolClick(100, 0, HIT_TOLERANCE));
+    act(() => result.current.handlePolygonToolClick(100, 100, HIT_TOLERANCE));
+    act(() => result.current.handlePolygonToolClick(1, 1, HIT_TOLERANCE));
+
+    expect(result.current.polygons).toHaveLength(1);
+    expect(result.current.polygons[0].label).toBe("P1");
+    expect(result.current.calculatePolygonArea(result.current.polygons[0])).toBe(5000);
+    expect(result.current.polygonDraftPointIds).toHaveLength(0);
+  });
+
+  it("keeps standalone landmarks when orphaned points are cleaned up", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.setCurrentTool("landmark"));
+    act(() => result.current.handleLandmarkToolClick(50, 50, HIT_TOLERANCE));
+    act(() => result.current.setCurrentTool("marker"));
+    act(() => result.current.handleCanvasClick(200, 200, HIT_TOLERANCE));
+    act(() => result.current.setCurrentTool("cursor"));
+
+    expect(result.current.points).toHaveLength(1);
+    expect(result.current.points[0]).toMatchObject({ isLandmark: true, label: "M1" });
+
+    act(() => result.current.renamePoint(result.current.points[0].id, "Nasion"));
+    expect(result.current.points[0].label).toBe("Nasion");
+  });
+
+  it("measures a three-point angle with or without arm lines", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.setCurrentTool("angle"));
+    act(() => result.current.setAngleToolMode("points"));
+    act(() => result.current.handleAngleToolPointClick(100, 0, HIT_TOLERANCE));
+    act(() => result.current.handleAngleToolPointClick(0, 0, HIT_TOLERANCE));
+    act(() => result.current.handleAngleToolPointClick(0, 100, HIT_TOLERANCE));
+
+    expect(result.current.angles).toHaveLength(1);
+    expect(result.current.angles[0].degrees).toBeCloseTo(90);
+    expect(result.current.lines).toHaveLength(2);
+
+    act(() => result.current.setCreateAngleArms(false));
+    act(() => result.current.handleAngleToolPointClick(0, 100, HIT_TOLERANCE));
+    act(() => result.current.handleAngleToolPointClick(0, 0, HIT_TOLERANCE));
+    act(() => result.current.handleAngleToolPointClick(-100, -100, HIT_TOLERANCE));
+
+    expect(result.current.angles).toHaveLength(2);
+    expect(result.current.angles[1].armPointIds).toHaveLength(2);
+    expect(result.current.angles[1].degrees).toBeCloseTo(135);
+    expect(result.current.lines).toHaveLength(2);
+
+    // The arm point of a line-less angle is not an orphan
+    act(() => result.current.setCurrentTool("cursor"));
+    expect(result.current.points).toHaveLength(4);
+  });
+
+  it("guides landmark placement through a template and undoes it step by step", () => {
+    const { result } = renderHook(() => useDrawingState());
+    const template = {
+      id: "template-1",
+      name: "Lateral",
+      landmarks: ["Nasion", "Sella"],
+      lines: [{ label: "A", from: "Nasion", to: "Sella" }],
+      angles: [],
+      ratios: [],
+      createdAt: 0,
+    };
+
+    act(() => result.current.startTemplatePlacement(template));
+    expect(result.current.currentTool).toBe("landmark");
+    expect(result.current.nextTemplateLandmark).toBe("Nasion");
+
+    act(() => result.current.handleLandmarkToolClick(0, 0, HIT_TOLERANCE));
+    expect(result.current.nextTemplateLandmark).toBe("Sella");
+    act(() => result.current.handleLandmarkToolClick(100, 0, HIT_TOLERANCE));
+
+    expect(result.current.templatePlacement).toBeNull();
+    expect(result.current.points.map(p => p.label)).toEqual(["Nasion", "Sella"]);
+    expect(result.current.lines).toHaveLength(1);
+
+    // The last landmark and the measurements it completed go together
+    act(() => result.current.undo());
+    expect(result.current.points).toHaveLength(1);
+    expect(result.current.lines).toHaveLength(0);
+  });
+
+  it("only accepts derived measurement names that formulas can reference", () => {
+    const { result } = renderHook(() => useDrawingState());
+
+    act(() => result.current.handleCanvasClick(0, 0, HIT_TOLERANCE));
+    act(() => result.current.handleCanvasClick(30, 40, HIT_TOLERANCE));
+    const lineLabel = result.current.lines[0].label;
+
+    expect(() => result.current.addDerivedMeasurement("my ratio", "1")).toThrow("不能在公式裡引用");
+    expect(() => result.current.addDerivedMeasurement("1x", "1")).toThrow("不能在公式裡引用");
+    expect(() => result.current.addDerivedMeasurement(lineLabel, "1")).toThrow("已經是線段");
+    expect(() => result.current.addDerivedMeasurement("Double", "(")).toThrow();
+
+    act(() => {
+      result.current.addDerivedMeasurement("Double", `${lineLabel}*2`);
+    });
+    expect(result.current.derivedMeasurements).toEqual([
+      expect.objectContaining({ label: "Double", formula: `${lineLabel}*2` }),
+    ]);
+  });
+});
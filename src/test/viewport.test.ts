@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_SCALE,
+  MIN_SCALE,
+  clampScale,
+  containsBounds,
+  expandBounds,
+  getBounds,
+  getScaleToFit,
+  getVisibleImageRegion,
+  padRegion,
+} from "@/lib/viewport";
+
+describe("viewport", () => {
+  it("clamps the zoom level", () => {
+    expect(clampScale(100)).toBe(MAX_SCALE);
+    expect(clampScale(0)).toBe(MIN_SCALE);
+    expect(clampScale(1.5)).toBe(1.5);
+  });
+
+  it("fits content inside the padded viewport", () => {
+    // 1064 × 564 viewport leaves 1000 × 500 after padding
+    expect(getScaleToFit({ width: 1064, height: 564 }, { width: 2000, height: 500 })).toBeCloseTo(0.5);
+    expect(getScaleToFit({ width: 1064, height: 564 }, { width: 100, height: 250 })).toBeCloseTo(2);
+  });
+
+  it("computes and expands bounds", () => {
+    expect(getBounds([])).toBeNull();
+    const bounds = getBounds([{ x: 10, y: 20 }, { x: 30, y: 5 }]);
+    expect(bounds).toEqual({ minX: 10, minY: 5, maxX: 30, maxY: 20 });
+    expect(expandBounds(bounds!, 40)).toEqual({ minX: 0, minY: -7.5, maxX: 40, maxY: 32.5 });
+  });
+
+  it("finds the part of the image inside the viewport", () => {
+    const image = { width: 4000, height: 3000 };
+    // At 400% the image is scrolled 800 px left and 400 px up inside a 1000 × 600 viewport at (100, 50)
+    const region = getVisibleImageRegion({ left: -700, top: -350 }, { left: 100, top: 50, right: 1100, bottom: 650 }, 4, image);
+    expect(region).toEqual({ minX: 200, minY: 100, maxX: 450, maxY: 250 });
+    expect(padRegion(region!, 0.5, image)).toEqual({ minX: 75, minY: 25, maxX: 575, maxY: 325 });
+    expect(containsBounds(padRegion(region!, 0.5, image), region!)).toBe(true);
+    expect(getVisibleImageRegion({ left: 2000, top: 0 }, { left: 0, top: 0, right: 1000, bottom: 600 }, 1, image)).toBeNull();
+  });
+});
@@ -2,6 +2,9 @@ export interface Point {
   id: string;
   x: number;
   y: number;
+  // 獨立標記點（landmark）：有自己的名稱，不會因為沒有連到線段而被自動清除
+  isLandmark?: boolean;
+  label?: string;
 }
 
 export interface Line {
@@ -14,17 +17,189 @@ export interface Line {
 export interface Angle {
   id: string;
   label: string;
-  line1Id: string;
-  line2Id: string;
-  vertexPointId: string; // The common point between the two lines
-  degrees: number;
+  // 由兩條共點線段定義的角度
+  line1Id?: string;
+  line2Id?: string;
+  // The common point between the two lines; absent when the lines don't touch and
+  // the angle is measured at their virtual intersection
+  vertexPointId?: string;
+  // 直接點選「點－頂點－點」定義、沒有邊線的角度：兩條射線各經過的點
+  armPointIds?: [string, string];
+  degrees: number; // Interior angle (0–180°); the display mode only changes what is shown
+  displayMode?: AngleDisplayMode; // Defaults to 'interior'
 }
 
+// interior：0–180°；reflex：360° − θ；supplementary：180° − θ；
+// signed*：從第一條邊轉到第二條邊的有號角度（−180°～180°），正方向分別為順時針／逆時針
+export type AngleDisplayMode = 'interior' | 'reflex' | 'supplementary' | 'signedClockwise' | 'signedCounterClockwise';
+
+export type AngleToolMode = 'lines' | 'points';
+
 export interface Circle {
   id: string;
+  label: string;
   centerX: number;
   centerY: number;
   radius: number;
+  fitResidual?: number; // RMS distance (px) of the clicked points from a least-squares fit
+}
+
+// click：點一下放預設大小的圓再手動調整；threePoint：通過三點；fit：多點最小平方擬合；diameter：兩點為直徑
+export type CircleToolMode = 'click' | 'threePoint' | 'fit' | 'diameter';
+
+// 由依序點選的頂點組成的封閉區域，頂點沿用既有的 Point
+export interface Polygon {
+  id: string;
+  label: string;
+  pointIds: string[];
+}
+
+// 兩條線段的長度比（分子 / 分母），比值與單位無關，直接用像素長度
+export interface LineRatio {
+  id: string;
+  label: string;
+  numeratorLineId: string;
+  denominatorLineId: string;
+}
+
+// 以公式定義的衍生測量，公式用線段、角度、圓等的名稱當變數，例如 (A+B)/C*100、sin(θ1)*A。
+// 只存公式，數值每次都從目前的標記重新計算
+export interface DerivedMeasurement {
+  id: string;
+  label: string;
+  formula: string;
+}
+
+// crop：框選範圍裁切圖片；rectify：點選透視校正的四個角；lensGrid：依序點選棋盤格的角點。三者都不會新增標記
+export type ToolType = 'cursor' | 'marker' | 'landmark' | 'angle' | 'circle' | 'polygon' | 'crop' | 'rectify' | 'lensGrid';
+
+export type LengthUnit = 'mm' | 'cm' | 'in' | 'µm';
+
+// 以一條已知實際長度的線段換算「像素 → 實際單位」的比例
+export interface Calibration {
+  referenceLineId: string | null; // 校正時使用的線段（之後被刪除也不影響換算）
+  pixelLength: number;            // 校正當下該線段的像素長度
+  realLength: number;             // 使用者輸入的實際長度
+  unit: LengthUnit;
+}
+
+// 透視校正：照片裡一個已知實際尺寸的長方形（斜拍後變成任意四邊形）。
+// 由四個角算出單應矩陣，把圖片座標換算到長方形所在平面上的實際座標
+export interface Rectification {
+  // 圖片座標，依序為長方形的左上、右上、右下、左下角
+  corners: [RectificationCorner, RectificationCorner, RectificationCorner, RectificationCorner];
+  width: number;  // 左上 → 右上的實際長度
+  height: number; // 右上 → 右下的實際長度
+  unit: LengthUnit;
+}
+
+export interface RectificationCorner {
+  x: number;
+  y: number;
+}
+
+// 鏡頭畸變係數（Brown–Conrady 模型）：k1、k2 為徑向畸變，p1、p2 為切向畸變。
+// 座標以畸變中心為原點、除以正規化半徑後代入
+export interface LensDistortionCoefficients {
+  k1: number;
+  k2: number;
+  p1: number;
+  p2: number;
+}
+
+// 用棋盤格參考圖估出來的相機設定檔，存在瀏覽器裡，之後同一台相機拍的圖片都可以套用
+export interface CameraProfile {
+  id: string;
+  name: string;
+  coefficients: LensDistortionCoefficients;
+  rmsError: number; // 估計後角點偏離理想格線的均方根距離（px）
+  createdAt: number;
+}
+
+// 套用在文件上的鏡頭校正：量測前先把點的位置還原成沒有畸變的位置
+export interface LensCorrection {
+  profileName: string;
+  coefficients: LensDistortionCoefficients;
+  centerX: number; // 畸變中心（圖片座標），套用時為圖片中心
+  centerY: number;
+  focal: number;   // 正規化半徑（px），套用時為圖片對角線的一半
+}
+
+// 一份繪圖資料的完整快照，供復原／重做等需要整批保存或還原的功能使用
+export interface DrawingDocument {
+  points: Point[];
+  lines: Line[];
+  angles: Angle[];
+  circles: Circle[];
+  polygons: Polygon[];
+  calibration: Calibration | null;
+  rectification: Rectification | null;
+  lensCorrection: LensCorrection | null;
+  ratios: LineRatio[];
+  derivedMeasurements: DerivedMeasurement[];
 }
 
-export type ToolType = 'cursor' | 'marker' | 'angle' | 'circle';
+// 量測範本：以名稱定義標記點與要建立的測量，同一套流程可以套用到每一張圖片。
+// 線段、角度、比值都用名稱互相參照，不依賴任何一張圖片裡的 id
+export interface MeasurementTemplate {
+  id: string;
+  name: string;
+  landmarks: string[]; // 標記點名稱，套用時依這個順序逐一點選
+  lines: TemplateLine[];
+  angles: TemplateAngle[];
+  ratios: TemplateRatio[];
+  derived?: TemplateDerived[]; // 較早存下的範本沒有這個欄位
+  createdAt: number;
+}
+
+export interface TemplateLine {
+  label: string;
+  from: string; // 標記點名稱
+  to: string;
+}
+
+// 以兩條範本線段定義，或以「臂－頂點－臂」三個標記點定義（沒有邊線）
+export interface TemplateAngle {
+  label: string;
+  lines?: [string, string];
+  points?: [string, string, string];
+}
+
+export interface TemplateRatio {
+  label: string;
+  numerator: string; // 範本線段名稱
+  denominator: string;
+}
+
+// 公式裡引用的是名稱，套用到哪一張圖片都一樣
+export interface TemplateDerived {
+  label: string;
+  formula: string;
+}
+
+// 滑鼠可以吸附的幾何位置：既有的點、線段中點、線段上最近的一點、圓心、圓周
+export type SnapTargetKind = 'point' | 'midpoint' | 'lineBody' | 'circleCenter' | 'circumference';
+
+// 按住 Shift 畫線時，線段方向鎖定為這個角度的倍數
+export type AngleSnapIncrement = 15 | 45 | 90;
+
+// svg：每個標記都是 SVG 元素；canvas：標記畫在 2D canvas 上，只有互動用的元素留在 SVG，標記很多時比較順
+export type CanvasRenderer = 'svg' | 'canvas';
+
+// 畫布的操作偏好，屬於使用者而不是文件，不會存進專案檔
+export interface CanvasSettings {
+  loupeEnabled: boolean;
+  loupeMagnification: number; // 相對於目前顯示比例的放大倍率
+  snapTargets: Record<SnapTargetKind, boolean>;
+  angleSnapIncrement: AngleSnapIncrement;
+  renderer: CanvasRenderer;
+}
+
+// 旋轉與翻轉圖片；rotateClockwise／rotateCounterClockwise 各轉 90°
+export type ImageOrientationChange = 'rotateClockwise' | 'rotateCounterClockwise' | 'rotate180' | 'flipHorizontal' | 'flipVertical';
+
+// 匯出圖片的範圍：整張圖，或裁到標記涵蓋的範圍再往外留 padding（圖片像素）
+export interface ImageExportOptions {
+  cropToAnnotations: boolean;
+  padding: number;
+}